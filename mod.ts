@@ -16,7 +16,13 @@
 export { main } from './src/main.ts';
 
 // Domain Orchestrator
-export { DomainOrchestrator } from './src/domains/orchestrator/index.ts';
+export {
+  ConfigLoader,
+  DEFAULT_STAGES,
+  DomainOrchestrator,
+  StageGraph,
+  StageScheduler,
+} from './src/domains/orchestrator/index.ts';
 
 // Application Control Domain
 export { parseCli } from './src/domains/application-control/cli-parser.ts';
@@ -25,6 +31,7 @@ export { ApplicationStateManager } from './src/domains/application-control/state
 // Test Execution Domain
 export { TestExecutor } from './src/domains/test-execution/test-executor.ts';
 export { TestResultAnalyzer } from './src/domains/test-execution/result-analyzer.ts';
+export { TestEventParser } from './src/domains/test-execution/test-event-parser.ts';
 
 // Error Control Domain
 export { StrategyController } from './src/domains/error-control/strategy-controller.ts';
@@ -42,6 +49,19 @@ export { ReportGenerator } from './src/domains/search-integration/report-generat
 export { EnvironmentManager } from './src/domains/environment-control/environment-manager.ts';
 export { DockerController } from './src/domains/environment-control/docker-controller.ts';
 
+// Static Analysis Domain
+export { BuildChecker } from './src/domains/static-analysis/build-checker.ts';
+export {
+  CompilerDiagnosticParser,
+  FormatOutputParser,
+  VetOutputParser,
+} from './src/domains/static-analysis/diagnostic-parser.ts';
+export { VetAnalyzer } from './src/domains/static-analysis/vet-analyzer.ts';
+export { FormatChecker } from './src/domains/static-analysis/format-checker.ts';
+export { createLintAdapters } from './src/domains/static-analysis/lint-adapters.ts';
+export { LintRunner } from './src/domains/static-analysis/lint-runner.ts';
+export { CustomCheckRunner } from './src/domains/static-analysis/custom-check-runner.ts';
+
 // Infrastructure Adapters
 export { createInfrastructureAdapters } from './src/infrastructure/index.ts';
 
@@ -55,12 +75,18 @@ export type {
   ApplicationConfig,
   ExecutionMode,
   LogLevel,
+  LogMode,
   ParsedCliArgs,
 } from './src/domains/application-control/types.ts';
 export type {
   ExecutionTarget,
   GoTestOptions,
+  TestEvent,
+  TestEventListener,
   TestExecutionResult,
+  TestPackageResult,
+  TestResult,
+  TestStatus,
 } from './src/domains/test-execution/types.ts';
 export type { ExecutionStrategy, FallbackConfig } from './src/domains/error-control/types.ts';
 export type {
@@ -74,10 +100,35 @@ export type {
   SearchMatch,
 } from './src/domains/search-integration/types.ts';
 export type { DockerConfig, GoEnvironment } from './src/domains/environment-control/types.ts';
+export type {
+  OrchestrationResult,
+  OrchestratorConfig,
+  PipelineConfig,
+  ProjectConfig,
+  StageDefinition,
+  StageReport,
+} from './src/domains/orchestrator/index.ts';
+export type {
+  BuildResult,
+  CompilerDiagnostic,
+  CustomCheckResult,
+  FormatIssue,
+  FormatResult,
+  GoBuildOptions,
+  GoFormatOptions,
+  GoLintOptions,
+  GoVetOptions,
+  LintIssue,
+  LintResult,
+  LintToolReport,
+  VetDiagnostic,
+  VetResult,
+} from './src/domains/static-analysis/types.ts';
 
 // Infrastructure Adapter Types (for extension)
 export type { ProcessExecutor } from './src/domains/test-execution/test-executor.ts';
 export type { FileSystem } from './src/domains/resource-management/project-scanner.ts';
+export type { LintAdapter } from './src/domains/static-analysis/lint-adapters.ts';
 
 // If this file is run directly, execute the main function
 if (import.meta.main) {
@@ -0,0 +1,100 @@
+/**
+ * CLI Merge Coverage Command
+ * Combines cover profiles of separate test runs into one
+ */
+
+import { parseMergeCoverageCli } from '../domains/application-control/cli-parser.ts';
+import { CoverageProfile } from '../domains/search-integration/coverage-profile.ts';
+import type { CoverageData } from '../domains/search-integration/types.ts';
+import { createInfrastructureAdapters } from '../infrastructure/index.ts';
+import { formatError } from '../shared/errors.ts';
+
+/**
+ * Run `go-ci merge-coverage`; returns the process exit code.
+ * Profiles of the same packages add up, so profiles of batches, shards or different
+ * test suites give the coverage of all of them. Run from the module root, files get
+ * their module-relative paths and the HTML report their source.
+ */
+export async function runMergeCoverage(args: string[]): Promise<number> {
+  const parsed = parseMergeCoverageCli(args);
+  if (!parsed.ok) {
+    console.error(`❌ ${formatError(parsed.error)}`);
+    return 1;
+  }
+
+  const { files, output, format } = parsed.data;
+  const { searchIntegration, resourceManagement } = createInfrastructureAdapters();
+  const { coverageAnalyzer } = searchIntegration;
+  const structure = await resourceManagement.scanner.identifyProjectStructure(Deno.cwd());
+  const modulePath = structure.ok && structure.data.type === 'module'
+    ? structure.data.module.moduleName
+    : undefined;
+
+  const profiles: CoverageData[] = [];
+  for (const file of files) {
+    let content: string;
+    try {
+      content = await Deno.readTextFile(file);
+    } catch (error) {
+      console.error(`❌ Cannot read ${file}: ${error instanceof Error ? error.message : error}`);
+      return 1;
+    }
+
+    const profile = coverageAnalyzer.analyzeCoverage(content, modulePath);
+    if (!profile.ok) {
+      console.error(`❌ ${file}: ${formatError(profile.error)}`);
+      return 1;
+    }
+    profiles.push(profile.data);
+  }
+
+  const merged = coverageAnalyzer.mergeCoverage(profiles);
+  if (!merged.ok) {
+    console.error(`❌ ${formatError(merged.error)}`);
+    return 1;
+  }
+
+  let content: string;
+  if (format !== 'profile') {
+    const written = await coverageAnalyzer.generateReport(merged.data, {
+      format,
+      outputPath: output,
+      sourceRoot: Deno.cwd(),
+      includeGenerated: true,
+    });
+    if (!written.ok) {
+      console.error(`❌ ${formatError(written.error)}`);
+      return 1;
+    }
+    content = written.data;
+  } else {
+    content = CoverageProfile.format(merged.data);
+    if (output) {
+      try {
+        await Deno.writeTextFile(output, content);
+      } catch (error) {
+        console.error(
+          `❌ Cannot write ${output}: ${error instanceof Error ? error.message : error}`,
+        );
+        return 1;
+      }
+    }
+  }
+
+  // Without --output the coverage goes to stdout, so the summary goes to stderr
+  const log = output ? console.log : console.error;
+  if (!output) {
+    console.log(content.trimEnd());
+  }
+
+  const { packages, summary } = merged.data;
+  log(
+    `📈 Merged ${files.length} profile(s): ${
+      summary.statements.percentage.toFixed(1)
+    }% of statements in ${packages.length} package(s)`,
+  );
+  if (output) {
+    log(`📄 Coverage written to ${output}`);
+  }
+  return 0;
+}
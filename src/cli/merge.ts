@@ -0,0 +1,105 @@
+/**
+ * CLI Merge Command
+ * Combines the partial result files of sharded runs into one report
+ */
+
+import { parseMergeCli } from '../domains/application-control/cli-parser.ts';
+import type { MergeFormat } from '../domains/application-control/types.ts';
+import { ShardReportMerger } from '../domains/search-integration/shard-report.ts';
+import type { ReportFormat, ShardReport } from '../domains/search-integration/types.ts';
+import { createInfrastructureAdapters } from '../infrastructure/index.ts';
+import { formatError } from '../shared/errors.ts';
+
+/**
+ * Report generator format for each merge output format except the shard file itself
+ */
+const REPORT_FORMATS: Record<Exclude<MergeFormat, 'json'>, ReportFormat> = {
+  'junit-xml': { type: 'junit-xml', suiteName: 'go-ci' },
+  'tap': { type: 'tap', version: 13 },
+  'markdown': { type: 'markdown', includeDetails: true },
+  'html': { type: 'html' },
+};
+
+/**
+ * Run `go-ci merge`; returns the process exit code.
+ * The merged JSON is itself a shard result file, so merges can be merged again.
+ */
+export async function runMerge(args: string[]): Promise<number> {
+  const parsed = parseMergeCli(args);
+  if (!parsed.ok) {
+    console.error(`❌ ${formatError(parsed.error)}`);
+    return 1;
+  }
+
+  const { files, output, format } = parsed.data;
+  const reports: ShardReport[] = [];
+  for (const file of files) {
+    let content: string;
+    try {
+      content = await Deno.readTextFile(file);
+    } catch (error) {
+      console.error(`❌ Cannot read ${file}: ${error instanceof Error ? error.message : error}`);
+      return 1;
+    }
+
+    const report = ShardReportMerger.parse(content, file);
+    if (!report.ok) {
+      console.error(`❌ ${formatError(report.error)}`);
+      return 1;
+    }
+    reports.push(report.data);
+  }
+
+  const { searchIntegration } = createInfrastructureAdapters();
+  const merged = ShardReportMerger.merge(
+    reports,
+    (coverage) => searchIntegration.coverageAnalyzer.mergeCoverage(coverage),
+  );
+  if (!merged.ok) {
+    console.error(`❌ ${formatError(merged.error)}`);
+    return 1;
+  }
+
+  const reportGenerator = searchIntegration.reportGenerator;
+  const written = format === 'json'
+    ? await reportGenerator.generateShardReport(merged.data, output)
+    : await reportGenerator.generateTestReport(
+      ShardReportMerger.toExecutionResults(merged.data),
+      {
+        format: REPORT_FORMATS[format],
+        outputPath: output,
+        includeStdout: true,
+        includeSystemInfo: false,
+      },
+    );
+  if (!written.ok) {
+    console.error(`❌ ${formatError(written.error)}`);
+    return 1;
+  }
+
+  // Without --output the report goes to stdout, so the summary goes to stderr
+  const log = output ? console.log : console.error;
+  if (!output) {
+    console.log(written.data);
+  }
+
+  const { shards, total, results, coverage } = merged.data;
+  const failed = results.filter((result) => !result.success);
+  log(`🧩 Merged shards ${shards.join(', ')} of ${total}: ${results.length} package(s)`);
+  if (coverage) {
+    log(`📈 Coverage: ${coverage.summary.statements.percentage.toFixed(1)}% of statements`);
+  }
+  for (const result of failed) {
+    log(`  ❌ ${result.package}`);
+  }
+
+  const missing = ShardReportMerger.missingShards(merged.data);
+  if (missing.length > 0) {
+    log(`❌ Missing shard result(s): ${missing.join(', ')}`);
+    return 1;
+  }
+  if (output) {
+    log(`📄 Report written to ${output}`);
+  }
+  return failed.length > 0 ? 1 : 0;
+}
@@ -6,3 +6,4 @@ export { parse, parse as parseArgs } from 'jsr:@std/flags@^0.224';
 export { basename, dirname, join, resolve } from 'jsr:@std/path@^1.1';
 export { ensureDir, exists } from 'jsr:@std/fs@^1.0';
 export { blue, bold, green, red, yellow } from 'jsr:@std/fmt@^1.0/colors';
+export { parse as parseYaml } from 'jsr:@std/yaml@^1.0';
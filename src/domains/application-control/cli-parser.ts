@@ -8,7 +8,17 @@ import type { Result } from '../../shared/result.ts';
 import { failure, success } from '../../shared/result.ts';
 import type { AppError } from '../../shared/errors.ts';
 import { createUnexpectedError } from '../../shared/errors.ts';
-import type { ExecutionMode, LogLevel, ParsedCliArgs } from './types.ts';
+import type {
+  CoverageMergeFormat,
+  CoverageReportFormat,
+  ExecutionMode,
+  LogLevel,
+  LogMode,
+  MergeFormat,
+  ParsedCliArgs,
+  ParsedMergeArgs,
+  ParsedMergeCoverageArgs,
+} from './types.ts';
 
 /**
  * Help text content (pure data, no side effects)
@@ -16,23 +26,97 @@ import type { ExecutionMode, LogLevel, ParsedCliArgs } from './types.ts';
 export const HELP_TEXT = `
 Go CI - Efficient CI tool for Go projects
 
-Usage: go-ci [options]
+Usage: go-ci [options] [directories...]
+       go-ci merge [--output <file>] [--format <format>] <shard files...>
+       go-ci merge-coverage [--output <file>] [--format <format>] <cover profiles...>
 
 Options:
   --working-directory, -w   Working directory (default: current directory)
+  --cwd                    Alias for --working-directory
+  --hierarchy, --dir       Only check packages under this directory (repeatable;
+                           positional directories are added as well)
   --mode, -m               Execution mode: all, batch, single-package (default: all)
   --batch-size, -b         Number of packages per batch (default: 5)
   --timeout, -t            Timeout in seconds (default: 300)
   --log-level, -l          Log level: debug, info, warn, error, silent (default: info)
+  --log-mode               Log mode: normal, silent, debug, error-files-only (default: normal)
+  --log-key                BreakdownLogger key (required for debug log mode)
+  --log-length             BreakdownLogger length: W, M, L (required for debug log mode)
   --verbose, -v            Enable verbose output
-  --enable-fallback, -f    Enable fallback on errors
+  --enable-fallback, -f    Enable fallback on errors (alias: --fallback)
+  --no-fallback            Disable fallback on errors
+  --test-filter            Only test packages whose path matches this glob (e.g. "*integration*")
+  --changed-since <ref>    Only check packages changed since a git ref and the packages
+                           importing them; go.mod, go.sum or go.work changes check all
+  --stop-on-first-error    Stop at the first failing package or stage
+  --continue-on-error      Keep going after failures (default)
+  --vet-json               Run go vet with -json to report analyzer names
+  --test-json              Run go test with -json to report every test's result and output
+  --retry-failed <n>       Re-run only the failing tests up to n times; tests that pass
+                           on retry are reported as flaky (default: 0)
+  --allow-flaky            Do not fail the run for flaky tests
+  --race                   Run go test with the race detector and report data races
+  --bench <regexp>         Run the matching benchmarks in a bench stage and compare them
+                           with the baseline file
+  --bench-count <n>        Runs of each benchmark (default: 6)
+  --bench-baseline <file>  Baseline to compare with (default: .go-ci/bench.json)
+  --bench-save <file>      Where to save this run's baseline (default: .go-ci/bench.json)
+  --bench-threshold <pct>  Fail on a significant slowdown above this percentage (default: 0)
+  --fuzz <regexp>          Fuzz the matching Fuzz* targets in a fuzz stage, one at a time
+  --fuzz-time <seconds>    Total fuzzing time, shared by the targets (default: 60)
+  --coverage               Write cover profiles while testing and report coverage per
+                           package in a coverage stage
+  --coverpkg <patterns>    Comma-separated packages every test run covers (go test -coverpkg)
+  --coverage-format <list> Comma-separated coverage reports to write: text, html, json,
+                           cobertura or lcov (implies --coverage)
+  --coverage-output <dir>  Directory of the coverage reports (default: .go-ci/coverage)
+  --coverage-threshold <pct>
+                           Fail when less than this percentage of statements is covered
+                           (implies --coverage; per-package thresholds go in the config file)
+  --shard <i/n>            Run only shard i of n; packages are split by a stable hash
+  --shard-output <file>    Partial result file of the shard
+                           (default: .go-ci/shards/shard-<i>-of-<n>.json)
+  --shard-timings <file>   Balance shards by the package durations in a result file
+  --fix                    Rewrite unformatted files instead of failing the format check
+  --stages                 Comma-separated stages to run, in preferred order
+                           (build, test, vet, fmt, lint, coverage, bench, fuzz or
+                           a custom stage)
+  --skip-stages            Comma-separated stages to disable
+  --config                 Config file (default: .go-ci.yml, .go-ci.yaml or go-ci.json
+                           in the working directory)
   --help, -h               Show this help message
   --version                Show version information
 
+Merge options:
+  --output, -o             Write the merged report to this file instead of stdout
+  --format                 json, junit-xml, tap, markdown or html (default: json)
+
+Merge-coverage options:
+  --output, -o             Write the merged coverage to this file instead of stdout
+  --format                 profile (a cover profile), text, html, json, cobertura or lcov
+                           (default: profile)
+
 Examples:
   go-ci                    Run all tests
   go-ci -m batch -b 10    Run tests in batches of 10
   go-ci -w ./pkg -v       Run tests in ./pkg with verbose output
+  go-ci ./cmd/ ./pkg/      Check only the packages under cmd/ and pkg/
+  go-ci --stages fmt,vet  Run only the format and vet stages
+  go-ci --changed-since origin/main
+                           Check only the packages affected by changes since origin/main
+  go-ci --bench . --bench-threshold 5
+                           Fail when a benchmark got significantly slower by more than 5%
+  go-ci --fuzz . --fuzz-time 600
+                           Fuzz every target for ten minutes in total
+  go-ci --coverage --coverpkg ./...
+                           Report the coverage of every package by all tests
+  go-ci --coverage-format lcov,html --coverage-output coverage
+                           Write an lcov tracefile and an HTML report to coverage/
+  go-ci --shard 2/4       Run the second of four shards
+  go-ci merge .go-ci/shards/*.json -o results.json
+                           Combine the shard result files into one report
+  go-ci merge-coverage unit.out integration.out -o cover.out
+                           Combine cover profiles written on separate machines
 `;
 
 /**
@@ -40,6 +124,17 @@ Examples:
  */
 export const VERSION_INFO = '1.0.0';
 
+/**
+ * Coverage reports the coverage stage and merge-coverage can write
+ */
+export const COVERAGE_FORMATS: readonly CoverageReportFormat[] = [
+  'text',
+  'html',
+  'json',
+  'cobertura',
+  'lcov',
+];
+
 /**
  * Default values
  */
@@ -49,39 +144,123 @@ const DEFAULTS: Readonly<ParsedCliArgs> = {
   batchSize: 5,
   timeout: 300,
   logLevel: 'info',
+  logMode: 'normal',
   verbose: false,
   enableFallback: false,
+  vetJson: false,
+  testJson: false,
+  retryFailed: 0,
+  allowFlaky: false,
+  race: false,
+  benchCount: 6,
+  benchThreshold: 0,
+  fuzzTime: 60,
+  coverage: false,
+  coverageFormats: [],
+  fix: false,
+  skipStages: [],
+  hierarchy: [],
+  stopOnFirstError: false,
   help: false,
   version: false,
 };
 
+/**
+ * Log level implied by each log mode when --log-level is not given
+ */
+const LOG_LEVEL_BY_MODE: Readonly<Record<LogMode, LogLevel>> = {
+  'normal': 'info',
+  'silent': 'silent',
+  'debug': 'debug',
+  'error-files-only': 'error',
+};
+
 /**
  * Parse CLI arguments into structured data
  * Total function - returns Result instead of throwing
+ * Values in defaults (config file and environment) replace built-in defaults; flags win over both
  */
-export const parseCli = (args: string[]): Result<ParsedCliArgs, AppError> => {
+export const parseCli = (
+  args: string[],
+  defaults: Partial<ParsedCliArgs> = {},
+): Result<ParsedCliArgs, AppError> => {
+  const base: ParsedCliArgs = { ...DEFAULTS, ...defaults };
+
   try {
     const parsed = parseArgs(args, {
       alias: {
         'w': 'working-directory',
+        'cwd': 'working-directory',
         'm': 'mode',
         'b': 'batch-size',
         't': 'timeout',
         'l': 'log-level',
         'v': 'verbose',
         'f': 'enable-fallback',
+        'fallback': 'enable-fallback',
         'h': 'help',
       },
-      boolean: ['verbose', 'enable-fallback', 'help', 'version'],
-      string: ['working-directory', 'mode', 'log-level'],
+      boolean: [
+        'verbose',
+        'enable-fallback',
+        'vet-json',
+        'test-json',
+        'allow-flaky',
+        'race',
+        'coverage',
+        'fix',
+        'stop-on-first-error',
+        'continue-on-error',
+        'help',
+        'version',
+      ],
+      string: [
+        'working-directory',
+        'mode',
+        'log-level',
+        'log-mode',
+        'log-key',
+        'log-length',
+        'stages',
+        'skip-stages',
+        'hierarchy',
+        'dir',
+        'test-filter',
+        'changed-since',
+        'bench',
+        'bench-baseline',
+        'bench-save',
+        'fuzz',
+        'coverpkg',
+        'coverage-format',
+        'coverage-output',
+        'coverage-threshold',
+        'shard',
+        'shard-output',
+        'shard-timings',
+        'config',
+      ],
+      collect: ['hierarchy', 'dir'],
+      negatable: ['enable-fallback', 'fallback'],
       default: {
-        'working-directory': DEFAULTS.workingDirectory,
-        'mode': DEFAULTS.mode,
-        'batch-size': DEFAULTS.batchSize,
-        'timeout': DEFAULTS.timeout,
-        'log-level': DEFAULTS.logLevel,
-        'verbose': DEFAULTS.verbose,
-        'enable-fallback': DEFAULTS.enableFallback,
+        'working-directory': base.workingDirectory,
+        'mode': base.mode,
+        'batch-size': base.batchSize,
+        'timeout': base.timeout,
+        'log-mode': base.logMode,
+        'verbose': base.verbose,
+        'enable-fallback': base.enableFallback,
+        'vet-json': base.vetJson,
+        'test-json': base.testJson,
+        'retry-failed': base.retryFailed,
+        'allow-flaky': base.allowFlaky,
+        'race': base.race,
+        'bench-count': base.benchCount,
+        'bench-threshold': base.benchThreshold,
+        'fuzz-time': base.fuzzTime,
+        'coverage': base.coverage,
+        'fix': base.fix,
+        'stop-on-first-error': base.stopOnFirstError,
       },
     });
 
@@ -91,11 +270,29 @@ export const parseCli = (args: string[]): Result<ParsedCliArgs, AppError> => {
       throw new Error(`Invalid mode: ${parsed.mode}`);
     }
 
-    const logLevel = validateLogLevel(parsed['log-level'] as string);
+    const logMode = validateLogMode(parsed['log-mode'] as string);
+    if (!logMode.ok) {
+      throw new Error(logMode.error);
+    }
+
+    // Without an explicit log level, the log mode decides it
+    const logLevel = validateLogLevel(
+      (parsed['log-level'] as string | undefined) ?? defaults.logLevel ??
+        LOG_LEVEL_BY_MODE[logMode.data],
+    );
     if (!logLevel.ok) {
       throw new Error(`Invalid log level: ${parsed['log-level']}`);
     }
 
+    const logKey = (parsed['log-key'] as string | undefined) ?? base.logKey;
+    const logLength = (parsed['log-length'] as string | undefined) ?? base.logLength;
+    if (logLength !== undefined && !['W', 'M', 'L'].includes(logLength)) {
+      throw new Error(`Invalid log length: ${logLength}. Must be one of: W, M, L`);
+    }
+    if (logMode.data === 'debug' && (!logKey || !logLength)) {
+      throw new Error('Debug log mode requires --log-key and --log-length');
+    }
+
     const batchSize = validateBatchSize(parsed['batch-size']);
     if (!batchSize.ok) {
       throw new Error(`Invalid batch size: ${parsed['batch-size']}`);
@@ -106,15 +303,103 @@ export const parseCli = (args: string[]): Result<ParsedCliArgs, AppError> => {
       throw new Error(`Invalid timeout: ${parsed.timeout}`);
     }
 
+    const retryFailed = Number(parsed['retry-failed']);
+    if (!Number.isInteger(retryFailed) || retryFailed < 0 || retryFailed > 10) {
+      throw new Error(`Invalid retry count: ${parsed['retry-failed']}. Must be 0-10`);
+    }
+
+    const benchCount = Number(parsed['bench-count']);
+    if (!Number.isInteger(benchCount) || benchCount < 1 || benchCount > 100) {
+      throw new Error(`Invalid benchmark count: ${parsed['bench-count']}. Must be 1-100`);
+    }
+
+    const benchThreshold = Number(parsed['bench-threshold']);
+    if (!Number.isFinite(benchThreshold) || benchThreshold < 0 || benchThreshold > 1000) {
+      throw new Error(
+        `Invalid benchmark threshold: ${parsed['bench-threshold']}. Must be 0-1000`,
+      );
+    }
+
+    const fuzzTime = Number(parsed['fuzz-time']);
+    if (!Number.isInteger(fuzzTime) || fuzzTime < 1 || fuzzTime > 86400) {
+      throw new Error(`Invalid fuzz time: ${parsed['fuzz-time']}. Must be 1-86400 seconds`);
+    }
+
+    const coverageFormats = parsed['coverage-format'] !== undefined
+      ? parseList(parsed['coverage-format'] as string)
+      : base.coverageFormats;
+    const invalidFormat = coverageFormats.find((format) =>
+      !COVERAGE_FORMATS.includes(format as CoverageReportFormat)
+    );
+    if (invalidFormat !== undefined) {
+      throw new Error(
+        `Invalid coverage format: ${invalidFormat}. Must be one of: ${COVERAGE_FORMATS.join(', ')}`,
+      );
+    }
+
+    const coverageThreshold = parsed['coverage-threshold'] !== undefined
+      ? Number(parsed['coverage-threshold'])
+      : base.coverageThreshold;
+    if (
+      coverageThreshold !== undefined &&
+      (!Number.isFinite(coverageThreshold) || coverageThreshold < 0 || coverageThreshold > 100)
+    ) {
+      throw new Error(
+        `Invalid coverage threshold: ${parsed['coverage-threshold']}. Must be 0-100`,
+      );
+    }
+
+    // --hierarchy and --dir may be repeated; positional arguments are directories too
+    const hierarchy = [
+      ...toList(parsed.hierarchy),
+      ...toList(parsed.dir),
+      ...(parsed._ ?? []).map(String),
+    ];
+
     const result = {
-      command: parsed._?.[0] as string | undefined,
       workingDirectory: parsed['working-directory'] as string,
       mode: mode.data,
       batchSize: batchSize.data,
       timeout: timeout.data,
       logLevel: logLevel.data,
+      logMode: logMode.data,
+      logKey,
+      logLength: logLength as 'W' | 'M' | 'L' | undefined,
       verbose: parsed.verbose as boolean,
       enableFallback: parsed['enable-fallback'] as boolean,
+      vetJson: parsed['vet-json'] as boolean,
+      testJson: parsed['test-json'] as boolean,
+      retryFailed,
+      allowFlaky: parsed['allow-flaky'] as boolean,
+      race: parsed.race as boolean,
+      bench: (parsed.bench as string | undefined) ?? base.bench,
+      benchCount,
+      benchBaseline: (parsed['bench-baseline'] as string | undefined) ?? base.benchBaseline,
+      benchSave: (parsed['bench-save'] as string | undefined) ?? base.benchSave,
+      benchThreshold,
+      fuzz: (parsed.fuzz as string | undefined) ?? base.fuzz,
+      fuzzTime,
+      coverage: parsed.coverage as boolean,
+      coverPackages: parsed.coverpkg !== undefined
+        ? parseList(parsed.coverpkg as string)
+        : base.coverPackages,
+      coverageFormats: coverageFormats as CoverageReportFormat[],
+      coverageOutput: (parsed['coverage-output'] as string | undefined) ?? base.coverageOutput,
+      coverageThreshold,
+      fix: parsed.fix as boolean,
+      stages: parsed.stages !== undefined ? parseList(parsed.stages as string) : base.stages,
+      skipStages: parsed['skip-stages'] !== undefined
+        ? parseList(parsed['skip-stages'] as string)
+        : base.skipStages,
+      hierarchy: hierarchy.length > 0 ? hierarchy : base.hierarchy,
+      testFilter: (parsed['test-filter'] as string | undefined) ?? base.testFilter,
+      changedSince: (parsed['changed-since'] as string | undefined) ?? base.changedSince,
+      stopOnFirstError: (parsed['stop-on-first-error'] as boolean) &&
+        !(parsed['continue-on-error'] as boolean),
+      shard: parsed.shard as string | undefined,
+      shardOutput: (parsed['shard-output'] as string | undefined) ?? base.shardOutput,
+      shardTimings: (parsed['shard-timings'] as string | undefined) ?? base.shardTimings,
+      configPath: parsed.config as string | undefined,
       help: parsed.help as boolean,
       version: parsed.version as boolean,
     };
@@ -127,6 +412,72 @@ export const parseCli = (args: string[]): Result<ParsedCliArgs, AppError> => {
   }
 };
 
+/**
+ * Parse the arguments of the merge command (everything after `merge`)
+ */
+export const parseMergeCli = (args: string[]): Result<ParsedMergeArgs, AppError> => {
+  const parsed = parseArgs(args, {
+    alias: { 'o': 'output' },
+    string: ['output', 'format'],
+    default: { 'format': 'json' },
+  });
+
+  const formats: MergeFormat[] = ['json', 'junit-xml', 'tap', 'markdown', 'html'];
+  const format = parsed.format as MergeFormat;
+  if (!formats.includes(format)) {
+    return failure(createUnexpectedError(
+      `Invalid merge format: ${parsed.format}. Must be one of: ${formats.join(', ')}`,
+    ));
+  }
+
+  const files = (parsed._ ?? []).map(String);
+  if (files.length === 0) {
+    return failure(createUnexpectedError('merge requires at least one shard result file'));
+  }
+
+  return success({ files, output: parsed.output as string | undefined, format });
+};
+
+/**
+ * Parse the arguments of the merge-coverage command (everything after `merge-coverage`)
+ */
+export const parseMergeCoverageCli = (
+  args: string[],
+): Result<ParsedMergeCoverageArgs, AppError> => {
+  const parsed = parseArgs(args, {
+    alias: { 'o': 'output' },
+    string: ['output', 'format'],
+    default: { 'format': 'profile' },
+  });
+
+  const formats: CoverageMergeFormat[] = ['profile', ...COVERAGE_FORMATS];
+  const format = parsed.format as CoverageMergeFormat;
+  if (!formats.includes(format)) {
+    return failure(createUnexpectedError(
+      `Invalid coverage format: ${parsed.format}. Must be one of: ${formats.join(', ')}`,
+    ));
+  }
+
+  const files = (parsed._ ?? []).map(String);
+  if (files.length === 0) {
+    return failure(createUnexpectedError('merge-coverage requires at least one cover profile'));
+  }
+
+  return success({ files, output: parsed.output as string | undefined, format });
+};
+
+/**
+ * Split a comma-separated option value
+ */
+const parseList = (value: string): string[] =>
+  value.split(',').map((item) => item.trim()).filter((item) => item.length > 0);
+
+/**
+ * Normalize a string option that may be repeated
+ */
+const toList = (value: unknown): string[] =>
+  [value].flat().filter((item): item is string => typeof item === 'string' && item.length > 0);
+
 /**
  * Validate execution mode
  */
@@ -149,6 +500,17 @@ const validateLogLevel = (level: string): Result<LogLevel, string> => {
   return failure(`Invalid log level: ${level}. Must be one of: ${validLevels.join(', ')}`);
 };
 
+/**
+ * Validate log mode
+ */
+const validateLogMode = (mode: string): Result<LogMode, string> => {
+  const validModes: LogMode[] = ['normal', 'silent', 'debug', 'error-files-only'];
+  if (validModes.includes(mode as LogMode)) {
+    return success(mode as LogMode);
+  }
+  return failure(`Invalid log mode: ${mode}. Must be one of: ${validModes.join(', ')}`);
+};
+
 /**
  * Validate batch size
  */
@@ -6,18 +6,35 @@
 export type {
   ApplicationConfig,
   ApplicationState,
+  BreakdownLoggerConfig,
+  CoverageMergeFormat,
+  CoverageReportFormat,
   ExecutionMode,
   LogLevel,
+  LogMode,
+  MergeFormat,
   ParsedCliArgs,
+  ParsedMergeArgs,
+  ParsedMergeCoverageArgs,
 } from './types.ts';
 
-export { BatchSize, isValidStateTransition, Timeout, WorkingDirectory } from './types.ts';
+export {
+  BatchSize,
+  HierarchyPath,
+  isValidStateTransition,
+  Shard,
+  Timeout,
+  WorkingDirectory,
+} from './types.ts';
 
 export {
+  COVERAGE_FORMATS,
   createHelpOutput,
   createVersionOutput,
   HELP_TEXT,
   parseCli,
+  parseMergeCli,
+  parseMergeCoverageCli,
   VERSION_INFO,
 } from './cli-parser.ts';
 
@@ -10,7 +10,7 @@ import { createDomainError } from '../../shared/errors.ts';
 import type { EventBus } from '../../shared/events.ts';
 import { createEvent } from '../../shared/events.ts';
 import type { ApplicationConfig, ApplicationState, ParsedCliArgs } from './types.ts';
-import { BatchSize, Timeout, WorkingDirectory } from './types.ts';
+import { BatchSize, HierarchyPath, Shard, Timeout, WorkingDirectory } from './types.ts';
 import { isValidStateTransition } from './types.ts';
 
 /**
@@ -163,14 +163,63 @@ export const createApplicationConfig = (
     return failure(timeoutResult.error);
   }
 
+  const hierarchy: HierarchyPath[] = [];
+  for (const path of args.hierarchy) {
+    const hierarchyResult = HierarchyPath.create(path);
+    if (!hierarchyResult.ok) {
+      return failure(hierarchyResult.error);
+    }
+    hierarchy.push(hierarchyResult.data);
+  }
+
+  let shard: Shard | undefined;
+  if (args.shard !== undefined) {
+    const shardResult = Shard.create(args.shard);
+    if (!shardResult.ok) {
+      return failure(shardResult.error);
+    }
+    shard = shardResult.data;
+  }
+
   const config: ApplicationConfig = {
     workingDirectory: workingDirResult.data,
     mode: args.mode,
     batchSize: batchSizeResult.data,
     timeout: timeoutResult.data,
     logLevel: args.logLevel,
+    logMode: args.logMode,
+    breakdownLogger: args.logKey && args.logLength
+      ? { key: args.logKey, length: args.logLength }
+      : undefined,
     verbose: args.verbose,
     enableFallback: args.enableFallback,
+    vetJson: args.vetJson,
+    testJson: args.testJson,
+    retryFailed: args.retryFailed,
+    allowFlaky: args.allowFlaky,
+    race: args.race,
+    bench: args.bench,
+    benchCount: args.benchCount,
+    benchBaseline: args.benchBaseline,
+    benchSave: args.benchSave,
+    benchThreshold: args.benchThreshold,
+    fuzz: args.fuzz,
+    fuzzTime: args.fuzzTime,
+    coverage: args.coverage,
+    coverPackages: args.coverPackages,
+    coverageFormats: args.coverageFormats,
+    coverageOutput: args.coverageOutput,
+    coverageThreshold: args.coverageThreshold,
+    fix: args.fix,
+    stages: args.stages,
+    skipStages: args.skipStages,
+    hierarchy,
+    testFilter: args.testFilter,
+    changedSince: args.changedSince,
+    stopOnFirstError: args.stopOnFirstError,
+    shard,
+    shardOutput: args.shardOutput,
+    shardTimings: args.shardTimings,
   };
 
   return success(config);
@@ -26,6 +26,19 @@ export type ExecutionMode = 'all' | 'batch' | 'single-package';
  */
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
 
+/**
+ * Log mode - output style of a run
+ */
+export type LogMode = 'normal' | 'silent' | 'debug' | 'error-files-only';
+
+/**
+ * BreakdownLogger settings, required by debug log mode
+ */
+export interface BreakdownLoggerConfig {
+  readonly key: string;
+  readonly length: 'W' | 'M' | 'L';
+}
+
 /**
  * Application configuration with validation
  */
@@ -35,8 +48,37 @@ export interface ApplicationConfig {
   readonly batchSize: BatchSize;
   readonly timeout: Timeout;
   readonly logLevel: LogLevel;
+  readonly logMode: LogMode;
+  readonly breakdownLogger?: BreakdownLoggerConfig;
   readonly verbose: boolean;
   readonly enableFallback: boolean;
+  readonly vetJson: boolean;
+  readonly testJson: boolean;
+  readonly retryFailed: number; // re-runs of failing tests before they count as failed
+  readonly allowFlaky: boolean;
+  readonly race: boolean; // go test -race, with data races reported apart from test failures
+  readonly bench?: string; // -bench pattern; enables the bench stage
+  readonly benchCount: number; // runs of each benchmark, the samples of the comparison
+  readonly benchBaseline?: string; // baseline file to compare with; must exist when given
+  readonly benchSave?: string; // where the run's results are saved as the next baseline
+  readonly benchThreshold: number; // percent slowdown a significant change may reach
+  readonly fuzz?: string; // pattern over Fuzz* target names; enables the fuzz stage
+  readonly fuzzTime: number; // seconds of fuzzing shared by all targets
+  readonly coverage: boolean; // go test -coverprofile; enables the coverage stage
+  readonly coverPackages?: string[]; // -coverpkg patterns; by default each package covers itself
+  readonly coverageFormats: CoverageReportFormat[]; // reports written by the coverage stage
+  readonly coverageOutput?: string; // directory of the coverage reports
+  readonly coverageThreshold?: number; // percent of statements the whole run must cover
+  readonly fix: boolean;
+  readonly stages?: string[];
+  readonly skipStages: string[];
+  readonly hierarchy: HierarchyPath[]; // empty targets the whole project
+  readonly testFilter?: string;
+  readonly changedSince?: string; // git ref; only packages affected by changes since it run
+  readonly stopOnFirstError: boolean;
+  readonly shard?: Shard; // run only this part of the selected packages
+  readonly shardOutput?: string; // partial result file written by a sharded run
+  readonly shardTimings?: string; // result file whose package durations balance the shards
 }
 
 /**
@@ -75,6 +117,38 @@ export class WorkingDirectory {
   }
 }
 
+/**
+ * Directory hierarchy to target, relative to the working directory - Smart Constructor
+ */
+export class HierarchyPath {
+  private constructor(private readonly path: string) {}
+
+  static create(path: string): Result<HierarchyPath, ValidationError> {
+    const trimmed = path.trim();
+    if (trimmed.length === 0) {
+      return failure({
+        kind: 'EmptyInput',
+        field: 'hierarchy',
+      });
+    }
+
+    if (trimmed.split('/').includes('..')) {
+      return failure({
+        kind: 'InvalidFormat',
+        field: 'hierarchy',
+        expected: 'directory inside the working directory',
+        actual: trimmed,
+      });
+    }
+
+    return success(new HierarchyPath(trimmed));
+  }
+
+  get value(): string {
+    return this.path;
+  }
+}
+
 /**
  * Batch size - Smart Constructor with constraints
  */
@@ -113,6 +187,52 @@ export class BatchSize {
   }
 }
 
+/**
+ * Shard i of n, counted from 1 - Smart Constructor
+ */
+export class Shard {
+  private constructor(
+    private readonly shardIndex: number,
+    private readonly shardTotal: number,
+  ) {}
+
+  static create(value: string): Result<Shard, ValidationError> {
+    const match = value.trim().match(/^(\d+)\/(\d+)$/);
+    if (!match) {
+      return failure({
+        kind: 'InvalidFormat',
+        field: 'shard',
+        expected: 'i/n, e.g. 2/4',
+        actual: value,
+      });
+    }
+
+    const total = parseInt(match[2], 10);
+    if (total < 1 || total > 256) {
+      return failure({ kind: 'OutOfRange', field: 'shard', min: 1, max: 256, value: total });
+    }
+
+    const index = parseInt(match[1], 10);
+    if (index < 1 || index > total) {
+      return failure({ kind: 'OutOfRange', field: 'shard', min: 1, max: total, value: index });
+    }
+
+    return success(new Shard(index, total));
+  }
+
+  get index(): number {
+    return this.shardIndex;
+  }
+
+  get total(): number {
+    return this.shardTotal;
+  }
+
+  toString(): string {
+    return `${this.shardIndex}/${this.shardTotal}`;
+  }
+}
+
 /**
  * Timeout in seconds - Smart Constructor
  */
@@ -159,18 +279,81 @@ export class Timeout {
  * CLI arguments after parsing
  */
 export interface ParsedCliArgs {
-  readonly command?: string;
   readonly workingDirectory: string;
   readonly mode: ExecutionMode;
   readonly batchSize: number;
   readonly timeout: number;
   readonly logLevel: LogLevel;
+  readonly logMode: LogMode;
+  readonly logKey?: string;
+  readonly logLength?: 'W' | 'M' | 'L';
   readonly verbose: boolean;
   readonly enableFallback: boolean;
+  readonly vetJson: boolean;
+  readonly testJson: boolean;
+  readonly retryFailed: number;
+  readonly allowFlaky: boolean;
+  readonly race: boolean;
+  readonly bench?: string;
+  readonly benchCount: number;
+  readonly benchBaseline?: string;
+  readonly benchSave?: string;
+  readonly benchThreshold: number;
+  readonly fuzz?: string;
+  readonly fuzzTime: number;
+  readonly coverage: boolean;
+  readonly coverPackages?: string[];
+  readonly coverageFormats: CoverageReportFormat[];
+  readonly coverageOutput?: string;
+  readonly coverageThreshold?: number;
+  readonly fix: boolean;
+  readonly stages?: string[]; // stage names in preferred order; undefined runs the default set
+  readonly skipStages: string[];
+  readonly hierarchy: string[]; // --hierarchy, --dir and positional directories
+  readonly testFilter?: string; // glob over test package paths
+  readonly changedSince?: string;
+  readonly stopOnFirstError: boolean;
+  readonly shard?: string; // i/n
+  readonly shardOutput?: string;
+  readonly shardTimings?: string;
+  readonly configPath?: string;
   readonly help: boolean;
   readonly version: boolean;
 }
 
+/**
+ * Report formats written by the merge command
+ */
+export type MergeFormat = 'json' | 'junit-xml' | 'tap' | 'markdown' | 'html';
+
+/**
+ * Arguments of the merge command after parsing
+ */
+export interface ParsedMergeArgs {
+  readonly files: string[]; // shard result files
+  readonly output?: string; // printed to stdout when omitted
+  readonly format: MergeFormat;
+}
+
+/**
+ * Coverage report formats
+ */
+export type CoverageReportFormat = 'text' | 'html' | 'json' | 'cobertura' | 'lcov';
+
+/**
+ * Outputs of the merge-coverage command: a cover profile or one of the coverage reports
+ */
+export type CoverageMergeFormat = 'profile' | CoverageReportFormat;
+
+/**
+ * Arguments of the merge-coverage command after parsing
+ */
+export interface ParsedMergeCoverageArgs {
+  readonly files: string[]; // cover profiles
+  readonly output?: string; // printed to stdout when omitted
+  readonly format: CoverageMergeFormat;
+}
+
 /**
  * State transition rules
  */
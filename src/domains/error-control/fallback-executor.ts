@@ -40,6 +40,13 @@ export class FallbackExecutor {
     private readonly eventBus?: EventBus,
   ) {}
 
+  /**
+   * Create an executor for one run with project configuration and event reporting
+   */
+  withConfig(config: FallbackConfig, eventBus: EventBus): FallbackExecutor {
+    return new FallbackExecutor(config, eventBus);
+  }
+
   /**
    * Initialize fallback state
    */
@@ -89,8 +96,8 @@ export class FallbackExecutor {
     if (this.eventBus) {
       await this.eventBus.emit(createEvent({
         type: 'error:fallback-triggered',
-        from: this.strategyToString(previousStrategy),
-        to: this.strategyToString(newStrategy),
+        from: FallbackExecutor.strategyToString(previousStrategy),
+        to: FallbackExecutor.strategyToString(newStrategy),
       }));
     }
 
@@ -136,7 +143,7 @@ export class FallbackExecutor {
   /**
    * Convert strategy to string for logging
    */
-  private strategyToString(strategy: ExecutionStrategy): string {
+  static strategyToString(strategy: ExecutionStrategy): string {
     switch (strategy.type) {
       case 'all-at-once':
         return `all-at-once (parallel: ${strategy.parallel})`;
@@ -164,6 +171,10 @@ export class FallbackExecutor {
         return `Execution time ${trigger.duration}ms exceeded limit of ${trigger.limit}ms`;
       case 'first-error-detected':
         return `First error detected in ${this.targetToString(trigger.target)}`;
+      case 'consecutive-failures':
+        return `${trigger.count} consecutive failures reached limit of ${trigger.limit}`;
+      case 'failures-detected':
+        return `${trigger.failed} failing target(s) detected`;
     }
   }
 
@@ -180,6 +191,8 @@ export class FallbackExecutor {
         return `file ${target.path.getValue()}`;
       case 'package':
         return `package ${target.importPath.getValue()}`;
+      case 'packages':
+        return `packages ${target.importPaths.map((path) => path.getValue()).join(', ')}`;
     }
   }
 }
@@ -191,6 +204,10 @@ export const createDefaultFallbackConfig = (): FallbackConfig => ({
   enabled: true,
   maxRetries: 3,
   strategies: [
+    {
+      trigger: { type: 'timeout', duration: 300000 }, // 5 minutes
+      action: { type: 'stop-execution' },
+    },
     {
       trigger: { type: 'any-failure' },
       action: {
@@ -203,8 +220,11 @@ export const createDefaultFallbackConfig = (): FallbackConfig => ({
       action: { type: 'reduce-concurrency', factor: 0.5 },
     },
     {
-      trigger: { type: 'timeout', duration: 300000 }, // 5 minutes
-      action: { type: 'stop-execution' },
+      trigger: { type: 'any-failure' },
+      action: {
+        type: 'switch-strategy',
+        strategy: { type: 'file-by-file', stopOnFirstError: false },
+      },
     },
   ],
 });
@@ -0,0 +1,152 @@
+/**
+ * Fallback Rules - Evaluates configured trigger/action rules against the running error context
+ * Stateless, following Totality principle
+ */
+
+import type {
+  ErrorContext,
+  ExecutionStrategy,
+  FallbackAction,
+  FallbackConfig,
+  FallbackTrigger,
+  FallbackTriggerConfig,
+  StrategyDecision,
+} from './types.ts';
+
+/**
+ * Strategies from coarsest to finest; switch-strategy only ever moves down this list
+ */
+const GRANULARITY: Record<ExecutionStrategy['type'], number> = {
+  'all-at-once': 0,
+  'batch': 1,
+  'directory-by-directory': 2,
+  'file-by-file': 3,
+};
+
+/**
+ * Fallback rule engine
+ */
+export class FallbackRuleEngine {
+  /**
+   * Decide with the first rule whose trigger fires and whose action changes the execution.
+   * Returns undefined when no rule applies.
+   */
+  static evaluate(context: ErrorContext, config: FallbackConfig): StrategyDecision | undefined {
+    for (const rule of config.strategies) {
+      const trigger = FallbackRuleEngine.matchTrigger(rule.trigger, context);
+      const decision = trigger && FallbackRuleEngine.applyAction(rule.action, trigger, context);
+      if (decision) {
+        return decision;
+      }
+    }
+    return undefined;
+  }
+
+  private static matchTrigger(
+    trigger: FallbackTriggerConfig,
+    context: ErrorContext,
+  ): FallbackTrigger | undefined {
+    switch (trigger.type) {
+      case 'error-rate': {
+        const errorRate = context.targetsExecuted > 0
+          ? context.targetsFailed / context.targetsExecuted
+          : 0;
+        return errorRate > trigger.threshold
+          ? { type: 'error-threshold-exceeded', errorRate, threshold: trigger.threshold }
+          : undefined;
+      }
+
+      // The loop ends on the first passing run, so every recorded error is part of the streak
+      case 'consecutive-failures':
+        return context.errorHistory.length >= trigger.count
+          ? {
+            type: 'consecutive-failures',
+            count: context.errorHistory.length,
+            limit: trigger.count,
+          }
+          : undefined;
+
+      case 'timeout':
+        return context.duration >= trigger.duration
+          ? { type: 'timeout-exceeded', duration: context.duration, limit: trigger.duration }
+          : undefined;
+
+      case 'any-failure':
+        return context.targetsFailed > 0
+          ? { type: 'failures-detected', failed: context.targetsFailed }
+          : undefined;
+    }
+  }
+
+  private static applyAction(
+    action: FallbackAction,
+    trigger: FallbackTrigger,
+    context: ErrorContext,
+  ): StrategyDecision | undefined {
+    const current = context.executionStrategy;
+
+    switch (action.type) {
+      case 'switch-strategy':
+        return GRANULARITY[action.strategy.type] > GRANULARITY[current.type]
+          ? { action: 'fallback', newStrategy: action.strategy, trigger }
+          : undefined;
+
+      case 'reduce-concurrency': {
+        const newStrategy = FallbackRuleEngine.reduceConcurrency(
+          current,
+          action.factor,
+          context.totalTargets,
+        );
+        return newStrategy ? { action: 'fallback', newStrategy, trigger } : undefined;
+      }
+
+      case 'enable-debug':
+        return context.debug ? undefined : {
+          action: 'fallback',
+          newStrategy: current,
+          trigger,
+          debug: true,
+        };
+
+      case 'stop-execution':
+        return {
+          action: 'stop',
+          reason: `Fallback rule stopped execution on ${trigger.type}`,
+          exitCode: 1,
+        };
+    }
+  }
+
+  /**
+   * Scale down the concurrency of a strategy; undefined when that would not change how
+   * the targets run
+   */
+  private static reduceConcurrency(
+    strategy: ExecutionStrategy,
+    factor: number,
+    targets: number,
+  ): ExecutionStrategy | undefined {
+    switch (strategy.type) {
+      case 'directory-by-directory': {
+        const maxConcurrency = Math.max(1, Math.floor(strategy.maxConcurrency * factor));
+        return maxConcurrency < Math.min(strategy.maxConcurrency, targets)
+          ? { ...strategy, maxConcurrency }
+          : undefined;
+      }
+
+      case 'batch': {
+        if (strategy.parallel && targets > strategy.batchSize) {
+          return { ...strategy, parallel: false };
+        }
+        const batchSize = Math.max(1, Math.floor(strategy.batchSize * factor));
+        return batchSize < Math.min(strategy.batchSize, targets)
+          ? { ...strategy, batchSize }
+          : undefined;
+      }
+
+      case 'all-at-once':
+      case 'file-by-file':
+        return undefined;
+    }
+  }
+}
@@ -8,6 +8,7 @@ export type {
   ErrorRecord,
   ExecutionStrategy,
   FallbackAction,
+  FallbackAttempt,
   FallbackConfig,
   FallbackStrategyConfig,
   FallbackTrigger,
@@ -18,6 +19,8 @@ export type {
 
 export { StrategyController } from './strategy-controller.ts';
 
+export { FallbackRuleEngine } from './fallback-rules.ts';
+
 export {
   createDefaultFallbackConfig,
   FallbackExecutor,
@@ -10,11 +10,11 @@ import type {
   ErrorRecord,
   ExecutionStrategy,
   FallbackConfig,
-  FallbackTrigger,
   StrategyDecision,
   StrategySelectionCriteria,
 } from './types.ts';
 import type { ExitCodeClassification } from '../test-execution/types.ts';
+import { FallbackRuleEngine } from './fallback-rules.ts';
 
 /**
  * Strategy Controller - Makes decisions about execution strategies
@@ -69,29 +69,31 @@ export class StrategyController {
       });
     }
 
-    // Build error - stop immediately
-    if (classification.type === 'build-error') {
+    // Build, setup and vet errors - stop immediately; no strategy makes the code compile
+    if (
+      classification.type === 'build-error' || classification.type === 'setup-error' ||
+      classification.type === 'vet-error'
+    ) {
+      const packages = classification.packages.map((pkg) => pkg.package);
+      const reasons = {
+        'build-error': 'Build error detected',
+        'setup-error': 'Package setup failed',
+        'vet-error': 'go vet check failed',
+      };
       return success({
         action: 'stop',
-        reason: 'Build error detected',
+        reason: packages.length > 0
+          ? `${reasons[classification.type]} in ${packages.join(', ')}`
+          : reasons[classification.type],
         exitCode: 2,
       });
     }
 
-    // Timeout - check if we should retry with different strategy
+    // Timeout - check if a configured rule retries with a different strategy
     if (classification.type === 'timeout') {
-      if (config.enabled && context.executionStrategy.type === 'all-at-once') {
-        const trigger: FallbackTrigger = {
-          type: 'timeout-exceeded',
-          duration: context.duration,
-          limit: 0, // Would be set from config
-        };
-
-        return success({
-          action: 'fallback',
-          newStrategy: { type: 'directory-by-directory', maxConcurrency: 3 },
-          trigger,
-        });
+      const decision = this.checkFallbackConditions(context, config);
+      if (decision) {
+        return success(decision);
       }
 
       return success({
@@ -135,7 +137,7 @@ export class StrategyController {
   }
 
   /**
-   * Check if fallback conditions are met
+   * Check if fallback conditions are met, using the configured trigger/action rules
    */
   private static checkFallbackConditions(
     context: ErrorContext,
@@ -145,66 +147,7 @@ export class StrategyController {
       return null;
     }
 
-    // Check error rate
-    const errorRate = context.targetsFailed / context.targetsExecuted;
-    if (errorRate === 1 && context.executionStrategy.type === 'all-at-once') {
-      const trigger: FallbackTrigger = {
-        type: 'all-tests-failed',
-        totalPackages: context.totalTargets,
-      };
-
-      return {
-        action: 'fallback',
-        newStrategy: { type: 'directory-by-directory', maxConcurrency: 5 },
-        trigger,
-      };
-    }
-
-    // Check error threshold
-    if (errorRate > 0.5 && context.targetsExecuted >= 3) {
-      const trigger: FallbackTrigger = {
-        type: 'error-threshold-exceeded',
-        errorRate,
-        threshold: 0.5,
-      };
-
-      const newStrategy = this.determineNextStrategy(context.executionStrategy);
-      if (newStrategy) {
-        return {
-          action: 'fallback',
-          newStrategy,
-          trigger,
-        };
-      }
-    }
-
-    return null;
-  }
-
-  /**
-   * Determine next strategy in fallback chain
-   */
-  private static determineNextStrategy(current: ExecutionStrategy): ExecutionStrategy | null {
-    switch (current.type) {
-      case 'all-at-once':
-        return { type: 'directory-by-directory', maxConcurrency: 5 };
-
-      case 'batch':
-        return {
-          type: 'batch',
-          batchSize: Math.max(1, Math.floor(current.batchSize / 2)),
-          parallel: false,
-        };
-
-      case 'directory-by-directory':
-        return { type: 'file-by-file', stopOnFirstError: true };
-
-      case 'file-by-file':
-        return null; // No further fallback
-
-      default:
-        return null;
-    }
+    return FallbackRuleEngine.evaluate(context, config) ?? null;
   }
 
   /**
@@ -236,8 +179,10 @@ export class StrategyController {
       return false;
     }
 
-    // Don't retry build errors
-    const hasBuildError = errorHistory.some((record) => record.errorType === 'build-error');
+    // Don't retry build, setup or vet errors
+    const hasBuildError = errorHistory.some((record) =>
+      ['build-error', 'setup-error', 'vet-error'].includes(record.errorType)
+    );
 
     return !hasBuildError;
   }
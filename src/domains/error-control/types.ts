@@ -14,6 +14,16 @@ export type ExecutionStrategy =
   | { type: 'file-by-file'; stopOnFirstError: boolean }
   | { type: 'batch'; batchSize: number; parallel: boolean };
 
+/**
+ * One pass of the fallback loop: the strategy used, its scope, and what made it hand over
+ */
+export interface FallbackAttempt {
+  readonly strategy: ExecutionStrategy;
+  readonly targets: number; // packages in scope
+  readonly failed: number; // failing packages
+  readonly trigger?: FallbackTrigger; // set when this attempt fell back to the next one
+}
+
 /**
  * Fallback trigger conditions
  */
@@ -21,7 +31,9 @@ export type FallbackTrigger =
   | { type: 'all-tests-failed'; totalPackages: number }
   | { type: 'error-threshold-exceeded'; errorRate: number; threshold: number }
   | { type: 'timeout-exceeded'; duration: number; limit: number }
-  | { type: 'first-error-detected'; target: ExecutionTarget };
+  | { type: 'first-error-detected'; target: ExecutionTarget }
+  | { type: 'consecutive-failures'; count: number; limit: number }
+  | { type: 'failures-detected'; failed: number };
 
 /**
  * Strategy decision
@@ -29,7 +41,12 @@ export type FallbackTrigger =
 export type StrategyDecision =
   | { action: 'continue'; reason: string }
   | { action: 'stop'; reason: string; exitCode: number }
-  | { action: 'fallback'; newStrategy: ExecutionStrategy; trigger: FallbackTrigger };
+  | {
+    action: 'fallback';
+    newStrategy: ExecutionStrategy;
+    trigger: FallbackTrigger;
+    debug?: boolean; // re-run with verbose output
+  };
 
 /**
  * Error analysis context
@@ -41,6 +58,7 @@ export interface ErrorContext {
   readonly totalTargets: number;
   readonly duration: number;
   readonly errorHistory: ErrorRecord[];
+  readonly debug?: boolean; // verbose re-run already requested
 }
 
 /**
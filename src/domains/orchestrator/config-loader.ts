@@ -0,0 +1,959 @@
+/**
+ * Config Loader - Project configuration from .go-ci.yml / go-ci.json and GO_CI_* variables
+ * Parsing and validation are pure; only ConfigLoader touches the file system
+ */
+
+import { parseYaml } from '../../deps.ts';
+import type { Result } from '../../shared/result.ts';
+import { failure, success } from '../../shared/result.ts';
+import type { DomainError, LocatedValidationError, ValidationError } from '../../shared/errors.ts';
+import { createDomainError } from '../../shared/errors.ts';
+import type { ParsedCliArgs } from '../application-control/types.ts';
+import { HierarchyPath } from '../application-control/types.ts';
+import { COVERAGE_FORMATS } from '../application-control/cli-parser.ts';
+import type { FileSystem } from '../resource-management/project-scanner.ts';
+import type { ScanOptions } from '../resource-management/types.ts';
+import type {
+  ExecutionStrategy,
+  FallbackAction,
+  FallbackConfig,
+  FallbackStrategyConfig,
+  FallbackTriggerConfig,
+} from '../error-control/types.ts';
+import type { GoTestOptions } from '../test-execution/types.ts';
+import type { PackageCoverageThreshold } from '../search-integration/types.ts';
+import type { SystemEnvironment } from '../environment-control/environment-manager.ts';
+import type { OrchestratorConfig } from './domain-orchestrator.ts';
+import type { CustomStageConfig, PipelineConfig, StageOverride } from './stage-graph.ts';
+import { DEFAULT_STAGES } from './stage-graph.ts';
+
+/**
+ * Config file names, in lookup order
+ */
+export const CONFIG_FILE_NAMES = ['.go-ci.yml', '.go-ci.yaml', 'go-ci.json'] as const;
+
+/**
+ * Prefix of environment variables that override config file settings
+ */
+export const ENV_PREFIX = 'GO_CI_';
+
+/**
+ * Project configuration, one partial layer per target type
+ */
+export interface ProjectConfig {
+  readonly source?: string; // config file path; undefined when no file was found
+  readonly cli: Partial<ParsedCliArgs>;
+  readonly orchestrator: Partial<OrchestratorConfig>;
+  readonly scan: Partial<ScanOptions>;
+  readonly fallback: Partial<FallbackConfig>;
+  readonly test: Partial<GoTestOptions>;
+  readonly coverageThresholds: PackageCoverageThreshold[]; // per package pattern
+}
+
+/**
+ * Field value specification
+ */
+type FieldSpec =
+  | { type: 'boolean' }
+  | { type: 'string' }
+  | { type: 'string-list' }
+  | { type: 'enum-list'; values: readonly string[] }
+  | { type: 'directory-list' }
+  | { type: 'integer'; min?: number; max?: number }
+  | { type: 'number'; min?: number; max?: number }
+  | { type: 'enum'; values: readonly string[] };
+
+/**
+ * Field of a config section: its spec and a reader of the value it validated
+ */
+interface Field<T> {
+  readonly spec: FieldSpec;
+  readonly read: (value: unknown) => T | undefined;
+}
+
+/**
+ * Configurable fields of a target type
+ */
+type FieldTable<T> = { readonly [K in keyof T]?: Field<NonNullable<T[K]>> };
+
+/**
+ * Target type built from validated fields
+ */
+type Section<T> = { -readonly [K in keyof T]?: T[K] };
+
+const readNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' ? value : undefined;
+
+const readStrings = (value: unknown): string[] | undefined =>
+  Array.isArray(value) && value.every((item): item is string => typeof item === 'string')
+    ? value
+    : undefined;
+
+const booleanField: Field<boolean> = {
+  spec: { type: 'boolean' },
+  read: (value) => typeof value === 'boolean' ? value : undefined,
+};
+
+const stringField: Field<string> = {
+  spec: { type: 'string' },
+  read: (value) => typeof value === 'string' ? value : undefined,
+};
+
+const stringListField: Field<string[]> = { spec: { type: 'string-list' }, read: readStrings };
+
+const directoryListField: Field<string[]> = { spec: { type: 'directory-list' }, read: readStrings };
+
+const integerField = (min?: number, max?: number): Field<number> => ({
+  spec: { type: 'integer', min, max },
+  read: readNumber,
+});
+
+const numberField = (min?: number, max?: number): Field<number> => ({
+  spec: { type: 'number', min, max },
+  read: readNumber,
+});
+
+const enumField = <T extends string>(values: readonly T[]): Field<T> => ({
+  spec: { type: 'enum', values },
+  read: (value) => values.find((item) => item === value),
+});
+
+const enumListField = <T extends string>(values: readonly T[]): Field<T[]> => ({
+  spec: { type: 'enum-list', values },
+  read: (value) => readStrings(value)?.flatMap((item) => values.filter((known) => known === item)),
+});
+
+/**
+ * Top-level keys - the settings that can also be given on the command line
+ */
+const CLI_FIELDS: FieldTable<ParsedCliArgs> = {
+  mode: enumField(['all', 'batch', 'single-package']),
+  batchSize: integerField(1, 100),
+  timeout: integerField(1, 3600),
+  logLevel: enumField(['debug', 'info', 'warn', 'error', 'silent']),
+  logMode: enumField(['normal', 'silent', 'error-files-only']),
+  verbose: booleanField,
+  enableFallback: booleanField,
+  vetJson: booleanField,
+  testJson: booleanField,
+  retryFailed: integerField(0, 10),
+  allowFlaky: booleanField,
+  race: booleanField,
+  bench: stringField,
+  benchCount: integerField(1, 100),
+  benchBaseline: stringField,
+  benchSave: stringField,
+  benchThreshold: numberField(0, 1000),
+  fuzz: stringField,
+  fuzzTime: integerField(1, 86400),
+  coverage: booleanField,
+  coverPackages: stringListField,
+  coverageFormats: enumListField(COVERAGE_FORMATS),
+  coverageOutput: stringField,
+  coverageThreshold: numberField(0, 100),
+  fix: booleanField,
+  stages: stringListField,
+  skipStages: stringListField,
+  hierarchy: directoryListField,
+  testFilter: stringField,
+  changedSince: stringField,
+  stopOnFirstError: booleanField,
+  shardTimings: stringField,
+};
+
+/**
+ * Stage names stages and skipStages accept besides the custom stages of the pipeline
+ */
+const BUILTIN_STAGES = DEFAULT_STAGES.map((stage) => stage.name);
+
+const ORCHESTRATOR_FIELDS: FieldTable<OrchestratorConfig> = {
+  enableFallback: booleanField,
+  enableDocker: booleanField,
+  enableCoverage: booleanField,
+  maxConcurrency: integerField(1, 256),
+};
+
+const PIPELINE_FIELDS: FieldTable<PipelineConfig> = {
+  order: stringListField,
+  disabled: stringListField,
+};
+
+const STAGE_OVERRIDE_FIELDS: FieldTable<StageOverride> = {
+  name: stringField,
+  dependsOn: stringListField,
+  blocking: booleanField,
+  concurrent: booleanField,
+  enabled: booleanField,
+};
+
+const CUSTOM_STAGE_FIELDS: FieldTable<CustomStageConfig> = {
+  name: stringField,
+  command: stringListField,
+  dependsOn: stringListField,
+  blocking: booleanField,
+  concurrent: booleanField,
+};
+
+const SCAN_FIELDS: FieldTable<ScanOptions> = {
+  maxDepth: integerField(1, 100),
+  includeVendor: booleanField,
+  includeHidden: booleanField,
+  followSymlinks: booleanField,
+  excludePatterns: stringListField,
+};
+
+const FALLBACK_FIELDS: FieldTable<FallbackConfig> = {
+  enabled: booleanField,
+  maxRetries: integerField(0, 10),
+};
+
+const TEST_FIELDS: FieldTable<GoTestOptions> = {
+  race: booleanField,
+  cover: booleanField,
+  short: booleanField,
+  failFast: booleanField,
+  parallel: integerField(1, 256),
+  tags: stringListField,
+  buildFlags: stringListField,
+};
+
+/**
+ * Trigger and action variants with their fields
+ */
+const TRIGGER_FIELDS: Record<FallbackTriggerConfig['type'], Record<string, FieldSpec>> = {
+  'error-rate': { threshold: { type: 'number', min: 0, max: 1 } },
+  'consecutive-failures': { count: { type: 'integer', min: 1 } },
+  'timeout': { duration: { type: 'integer', min: 1 } },
+  'any-failure': {},
+};
+
+const ACTION_FIELDS: Record<FallbackAction['type'], Record<string, FieldSpec>> = {
+  'switch-strategy': {},
+  'reduce-concurrency': { factor: { type: 'number', min: 0, max: 1 } },
+  'enable-debug': { logLevel: { type: 'enum', values: ['debug'] } },
+  'stop-execution': {},
+};
+
+const STRATEGY_FIELDS: Record<ExecutionStrategy['type'], Record<string, FieldSpec>> = {
+  'all-at-once': { parallel: { type: 'boolean' } },
+  'directory-by-directory': { maxConcurrency: { type: 'integer', min: 1 } },
+  'file-by-file': { stopOnFirstError: { type: 'boolean' } },
+  'batch': { batchSize: { type: 'integer', min: 1 }, parallel: { type: 'boolean' } },
+};
+
+/**
+ * Collects validation errors with their source location
+ */
+class ConfigValidator {
+  readonly errors: LocatedValidationError[] = [];
+
+  constructor(
+    private readonly file: string,
+    private readonly locate: (path: Array<string | number>) => number | undefined,
+  ) {}
+
+  report(error: ValidationError, path: Array<string | number>): void {
+    this.errors.push({ ...error, file: this.file, line: this.locate(path) });
+  }
+
+  /**
+   * Read an optional nested object
+   */
+  object(value: unknown, path: Array<string | number>): Record<string, unknown> | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    if (!isMapping(value)) {
+      this.report({
+        kind: 'InvalidFormat',
+        field: fieldName(path),
+        expected: 'mapping',
+        actual: describe(value),
+      }, path);
+      return undefined;
+    }
+    return value;
+  }
+
+  /**
+   * Read an optional list of nested objects
+   */
+  list(value: unknown, path: Array<string | number>): Record<string, unknown>[] {
+    if (value === undefined || value === null) {
+      return [];
+    }
+    if (!Array.isArray(value)) {
+      this.report({
+        kind: 'InvalidFormat',
+        field: fieldName(path),
+        expected: 'list',
+        actual: describe(value),
+      }, path);
+      return [];
+    }
+    return value
+      .map((item, index) => this.object(item, [...path, index]))
+      .filter((item): item is Record<string, unknown> => item !== undefined);
+  }
+
+  /**
+   * Read every known field of a section, reporting unknown keys
+   */
+  fields(
+    section: Record<string, unknown>,
+    specs: Record<string, FieldSpec>,
+    path: Array<string | number>,
+    nested: string[] = [],
+  ): Record<string, unknown> {
+    const values: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(section)) {
+      if (nested.includes(key)) {
+        continue;
+      }
+
+      const spec = specs[key];
+      if (!spec) {
+        this.report({
+          kind: 'InvalidFormat',
+          field: fieldName([...path, key]),
+          expected: `one of: ${[...Object.keys(specs), ...nested].join(', ')}`,
+          actual: key,
+        }, [...path, key]);
+        continue;
+      }
+
+      const converted = this.value(value, spec, [...path, key]);
+      if (converted !== undefined) {
+        values[key] = converted;
+      }
+    }
+
+    return values;
+  }
+
+  /**
+   * Read the fields of a section into its target type, reporting unknown keys
+   */
+  section<T>(
+    section: Record<string, unknown>,
+    table: FieldTable<T>,
+    path: Array<string | number>,
+    nested: string[] = [],
+  ): Section<T> {
+    return buildSection(table, this.fields(section, specsOf(table), path, nested));
+  }
+
+  /**
+   * Validate a single value against its spec
+   */
+  value(value: unknown, spec: FieldSpec, path: Array<string | number>): unknown {
+    const field = fieldName(path);
+    const invalid = (expected: string) => {
+      this.report({ kind: 'InvalidFormat', field, expected, actual: describe(value) }, path);
+      return undefined;
+    };
+
+    switch (spec.type) {
+      case 'boolean':
+        return typeof value === 'boolean' ? value : invalid('boolean');
+      case 'string':
+        if (typeof value !== 'string') {
+          return invalid('string');
+        }
+        if (value.trim().length === 0) {
+          this.report({ kind: 'EmptyValue', field }, path);
+          return undefined;
+        }
+        return value;
+      case 'string-list':
+        return this.stringList(value, path);
+      case 'enum-list': {
+        const items = this.stringList(value, path);
+        const unknown = items?.find((item) => !spec.values.includes(item));
+        if (unknown !== undefined) {
+          this.report({
+            kind: 'InvalidFormat',
+            field,
+            expected: spec.values.join(' | '),
+            actual: unknown,
+          }, path);
+          return undefined;
+        }
+        return items;
+      }
+      case 'directory-list': {
+        const items = this.stringList(value, path);
+        for (const item of items ?? []) {
+          const directory = HierarchyPath.create(item);
+          if (!directory.ok) {
+            this.report({ ...directory.error, field }, path);
+            return undefined;
+          }
+        }
+        return items;
+      }
+      case 'integer':
+      case 'number':
+        if (typeof value !== 'number' || (spec.type === 'integer' && !Number.isInteger(value))) {
+          return invalid(spec.type);
+        }
+        if (
+          (spec.min !== undefined && value < spec.min) ||
+          (spec.max !== undefined && value > spec.max)
+        ) {
+          this.report({ kind: 'OutOfRange', field, min: spec.min, max: spec.max, value }, path);
+          return undefined;
+        }
+        return value;
+      case 'enum':
+        return typeof value === 'string' && spec.values.includes(value)
+          ? value
+          : invalid(spec.values.join(' | '));
+    }
+  }
+
+  /**
+   * Read a list of strings; a single string is split at commas and whitespace, the same in
+   * config files and GO_CI_* variables
+   */
+  private stringList(value: unknown, path: Array<string | number>): string[] | undefined {
+    if (typeof value === 'string') {
+      return value.split(/[\s,]+/).filter((item) => item.length > 0);
+    }
+    if (!Array.isArray(value) || !value.every((item): item is string => typeof item === 'string')) {
+      this.report({
+        kind: 'InvalidFormat',
+        field: fieldName(path),
+        expected: 'list of strings',
+        actual: describe(value),
+      }, path);
+      return undefined;
+    }
+    return value;
+  }
+
+  /**
+   * Read a discriminated { type, ...fields } mapping
+   */
+  variant(
+    value: unknown,
+    variants: Record<string, Record<string, FieldSpec>>,
+    path: Array<string | number>,
+    nested: string[] = [],
+  ): Record<string, unknown> | undefined {
+    const section = this.object(value, path);
+    if (!section) {
+      if (value === undefined) {
+        this.report({ kind: 'EmptyInput', field: fieldName(path) }, path);
+      }
+      return undefined;
+    }
+
+    const type = this.value(section.type, { type: 'enum', values: Object.keys(variants) }, [
+      ...path,
+      'type',
+    ]);
+    if (typeof type !== 'string') {
+      return undefined;
+    }
+
+    const specs = variants[type];
+    const values = this.fields(section, { type: { type: 'string' }, ...specs }, path, nested);
+    const missing = Object.keys(specs).find((key) => values[key] === undefined);
+    if (missing) {
+      if (section[missing] === undefined) {
+        this.report({ kind: 'EmptyInput', field: fieldName([...path, missing]) }, path);
+      }
+      return undefined;
+    }
+    return values;
+  }
+}
+
+/**
+ * Parse and validate config file content
+ */
+export const parseConfigContent = (
+  content: string,
+  file: string,
+): Result<ProjectConfig, LocatedValidationError[]> => {
+  const isJson = file.endsWith('.json');
+
+  let raw: unknown;
+  try {
+    raw = isJson ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return failure([{
+      kind: 'InvalidFormat',
+      field: '(file)',
+      expected: isJson ? 'valid JSON' : 'valid YAML',
+      actual: message.split('\n')[0],
+      file,
+      line: errorLine(message, content),
+    }]);
+  }
+
+  const validator = new ConfigValidator(file, (path) => locateKey(content, path, isJson));
+  const root = raw === null || raw === undefined ? {} : validator.object(raw, []);
+  if (!root) {
+    return failure(validator.errors);
+  }
+
+  const sections = ['orchestrator', 'scan', 'fallback', 'test', 'coverageThresholds'];
+  const cliValues = validator.fields(root, specsOf(CLI_FIELDS), [], sections);
+
+  const orchestratorSection = validator.object(root.orchestrator, ['orchestrator']) ?? {};
+  const orchestrator = validator.section(
+    orchestratorSection,
+    ORCHESTRATOR_FIELDS,
+    ['orchestrator'],
+    ['pipeline'],
+  );
+  const pipeline = parsePipeline(validator, orchestratorSection.pipeline);
+  if (pipeline) {
+    orchestrator.pipeline = pipeline;
+  }
+  checkStageNames(validator, cliValues, stageNames(pipeline), (key) => [key]);
+
+  const scan = validator.section(
+    validator.object(root.scan, ['scan']) ?? {},
+    SCAN_FIELDS,
+    ['scan'],
+  );
+
+  const fallbackSection = validator.object(root.fallback, ['fallback']) ?? {};
+  const fallback = validator.section(
+    fallbackSection,
+    FALLBACK_FIELDS,
+    ['fallback'],
+    ['strategies'],
+  );
+  if (fallbackSection.strategies !== undefined) {
+    fallback.strategies = parseStrategies(validator, fallbackSection.strategies);
+  }
+
+  const test = validator.section(
+    validator.object(root.test, ['test']) ?? {},
+    TEST_FIELDS,
+    ['test'],
+  );
+
+  // coverageThresholds maps package patterns to percentages
+  const thresholdSection = validator.object(root.coverageThresholds, ['coverageThresholds']) ?? {};
+  const coverageThresholds = Object.entries(thresholdSection).flatMap(([pattern, value]) => {
+    const statements = validator.value(value, { type: 'number', min: 0, max: 100 }, [
+      'coverageThresholds',
+      pattern,
+    ]);
+    return typeof statements === 'number' ? [{ pattern, statements }] : [];
+  });
+
+  if (validator.errors.length > 0) {
+    return failure(validator.errors);
+  }
+
+  return success({
+    source: file,
+    cli: buildSection(CLI_FIELDS, cliValues),
+    orchestrator,
+    scan,
+    fallback,
+    test,
+    coverageThresholds,
+  });
+};
+
+/**
+ * Parse GO_CI_* environment variables into CLI-level settings; stages and skipStages may
+ * name the custom stages of the config file's pipeline
+ */
+export const parseEnvConfig = (
+  env: Record<string, string>,
+  pipeline?: PipelineConfig,
+): Result<Partial<ParsedCliArgs>, LocatedValidationError[]> => {
+  const validator = new ConfigValidator('environment', () => undefined);
+  const values = readEnvFields(validator, env, specsOf(CLI_FIELDS));
+  checkStageNames(validator, values, stageNames(pipeline), (key) => [envName(key)]);
+  return validator.errors.length > 0
+    ? failure(validator.errors)
+    : success(buildSection(CLI_FIELDS, values));
+};
+
+/**
+ * Parse GO_CI_<SECTION>_<FIELD> environment variables, e.g. GO_CI_SCAN_MAX_DEPTH, into the
+ * config file sections. Lists of mappings - orchestrator.pipeline, fallback.strategies and
+ * coverageThresholds - can only be set in the config file.
+ */
+export const parseEnvSections = (
+  env: Record<string, string>,
+): Result<
+  Pick<ProjectConfig, 'orchestrator' | 'scan' | 'fallback' | 'test'>,
+  LocatedValidationError[]
+> => {
+  const validator = new ConfigValidator('environment', () => undefined);
+  const read = <T>(table: FieldTable<T>, prefix: string) =>
+    buildSection(table, readEnvFields(validator, env, specsOf(table), prefix));
+  const orchestrator = read(ORCHESTRATOR_FIELDS, 'orchestrator');
+  const scan = read(SCAN_FIELDS, 'scan');
+  const fallback = read(FALLBACK_FIELDS, 'fallback');
+  const test = read(TEST_FIELDS, 'test');
+
+  return validator.errors.length > 0
+    ? failure(validator.errors)
+    : success({ orchestrator, scan, fallback, test });
+};
+
+/**
+ * Config loader - finds the project config file and layers GO_CI_* variables on top
+ */
+export class ConfigLoader {
+  constructor(
+    private readonly fs: FileSystem,
+    private readonly system: SystemEnvironment,
+  ) {}
+
+  /**
+   * Load configuration for a working directory; an explicit path must exist
+   */
+  async load(
+    workingDirectory: string,
+    explicitPath?: string,
+  ): Promise<Result<ProjectConfig, DomainError>> {
+    let config: ProjectConfig = {
+      cli: {},
+      orchestrator: {},
+      scan: {},
+      fallback: {},
+      test: {},
+      coverageThresholds: [],
+    };
+
+    if (explicitPath && !(await this.fs.exists(explicitPath))) {
+      return failure(createDomainError({
+        domain: 'resource',
+        kind: 'FileNotFound',
+        details: { path: explicitPath },
+      }));
+    }
+
+    const path = explicitPath ?? await this.findConfigFile(workingDirectory);
+
+    if (path) {
+      let content: string;
+      try {
+        content = await this.fs.readFile(path);
+      } catch (error) {
+        return failure(createDomainError({
+          domain: 'resource',
+          kind: 'AccessDenied',
+          details: { path, error: error instanceof Error ? error.message : String(error) },
+        }));
+      }
+
+      const parsed = parseConfigContent(content, path);
+      if (!parsed.ok) {
+        return failure(createDomainError({
+          domain: 'application',
+          kind: 'ConfigInvalid',
+          details: { errors: parsed.error },
+        }));
+      }
+      config = parsed.data;
+    }
+
+    const variables = this.system.getAllEnv();
+    const env = parseEnvConfig(variables, config.orchestrator.pipeline);
+    const sections = parseEnvSections(variables);
+    if (!env.ok || !sections.ok) {
+      return failure(createDomainError({
+        domain: 'application',
+        kind: 'ConfigInvalid',
+        details: {
+          errors: [...(env.ok ? [] : env.error), ...(sections.ok ? [] : sections.error)],
+        },
+      }));
+    }
+
+    return success({
+      ...config,
+      cli: { ...config.cli, ...env.data },
+      orchestrator: { ...config.orchestrator, ...sections.data.orchestrator },
+      scan: { ...config.scan, ...sections.data.scan },
+      fallback: { ...config.fallback, ...sections.data.fallback },
+      test: { ...config.test, ...sections.data.test },
+    });
+  }
+
+  private async findConfigFile(workingDirectory: string): Promise<string | undefined> {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = this.fs.joinPath(workingDirectory, name);
+      if (await this.fs.exists(candidate)) {
+        return candidate;
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Validate orchestrator.pipeline
+ */
+const parsePipeline = (
+  validator: ConfigValidator,
+  value: unknown,
+): PipelineConfig | undefined => {
+  const path = ['orchestrator', 'pipeline'];
+  const section = validator.object(value, path);
+  if (!section) {
+    return undefined;
+  }
+
+  const pipeline = validator.section(section, PIPELINE_FIELDS, path, ['overrides', 'custom']);
+
+  const readItems = <T>(key: string, table: FieldTable<T>, required: string[]): Section<T>[] =>
+    validator.list(section[key], [...path, key]).map((item, index) => {
+      const itemPath = [...path, key, index];
+      const values = validator.section(item, table, itemPath);
+      const missing = required.find((field) => item[field] === undefined);
+      if (missing) {
+        validator.report(
+          { kind: 'EmptyInput', field: fieldName([...itemPath, missing]) },
+          itemPath,
+        );
+      }
+      return values;
+    });
+
+  if (section.overrides !== undefined) {
+    pipeline.overrides = readItems('overrides', STAGE_OVERRIDE_FIELDS, ['name'])
+      .flatMap(({ name, ...override }) => name === undefined ? [] : [{ ...override, name }]);
+  }
+  if (section.custom !== undefined) {
+    pipeline.custom = readItems('custom', CUSTOM_STAGE_FIELDS, ['name', 'command'])
+      .flatMap(({ name, command, ...stage }) =>
+        name === undefined || command === undefined ? [] : [{ ...stage, name, command }]
+      );
+  }
+
+  return pipeline;
+};
+
+/**
+ * Validate fallback.strategies
+ */
+const parseStrategies = (validator: ConfigValidator, value: unknown): FallbackStrategyConfig[] =>
+  validator.list(value, ['fallback', 'strategies']).flatMap((item, index) => {
+    const path = ['fallback', 'strategies', index];
+    validator.fields(item, {}, path, ['trigger', 'action']);
+
+    const trigger = validator.variant(item.trigger, TRIGGER_FIELDS, [...path, 'trigger']);
+    const action = validator.variant(item.action, ACTION_FIELDS, [...path, 'action'], [
+      'strategy',
+    ]);
+    if (!trigger || !action) {
+      return [];
+    }
+
+    if (action.type === 'switch-strategy') {
+      const strategy = validator.variant(
+        isMapping(item.action) ? item.action.strategy : undefined,
+        STRATEGY_FIELDS,
+        [...path, 'action', 'strategy'],
+      );
+      if (!strategy || !isVariant<ExecutionStrategy>(strategy, STRATEGY_FIELDS)) {
+        return [];
+      }
+      action.strategy = strategy;
+    }
+
+    return isVariant<FallbackTriggerConfig>(trigger, TRIGGER_FIELDS) &&
+        isVariant<FallbackAction>(action, ACTION_FIELDS)
+      ? [{ trigger, action }]
+      : [];
+  });
+
+/**
+ * Specs of the fields of a table, as ConfigValidator.fields reads them
+ */
+const specsOf = <T>(table: FieldTable<T>): Record<string, FieldSpec> =>
+  Object.fromEntries(
+    Object.entries<Field<unknown> | undefined>(table).flatMap(([key, field]) =>
+      field ? [[key, field.spec]] : []
+    ),
+  );
+
+/**
+ * Target type of the fields a table validated; fields that failed validation are left out
+ */
+const buildSection = <T>(table: FieldTable<T>, values: Record<string, unknown>): Section<T> => {
+  const section: Section<T> = {};
+  for (const key in table) {
+    const value = table[key]?.read(values[key]);
+    if (value !== undefined) {
+      section[key] = value;
+    }
+  }
+  return section;
+};
+
+/**
+ * Whether a parsed value is a mapping
+ */
+const isMapping = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Whether values read by ConfigValidator.variant hold every field of their variant
+ */
+const isVariant = <T extends { type: string }>(
+  values: Record<string, unknown>,
+  variants: Record<T['type'], Record<string, FieldSpec>>,
+): values is Record<string, unknown> & T =>
+  Object.entries<Record<string, FieldSpec>>(variants).some(([type, specs]) =>
+    values.type === type && Object.keys(specs).every((key) => values[key] !== undefined)
+  );
+
+/**
+ * Read the fields of a spec from GO_CI_* variables, GO_CI_<PREFIX>_<FIELD> with a prefix
+ */
+const readEnvFields = (
+  validator: ConfigValidator,
+  env: Record<string, string>,
+  specs: Record<string, FieldSpec>,
+  prefix?: string,
+): Record<string, unknown> => {
+  const values: Record<string, unknown> = {};
+  for (const [key, spec] of Object.entries(specs)) {
+    const name = envName(key, prefix);
+    const raw = env[name];
+    if (raw === undefined) {
+      continue;
+    }
+
+    const converted = validator.value(fromEnvString(raw, spec), spec, [name]);
+    if (converted !== undefined) {
+      values[key] = converted;
+    }
+  }
+  return values;
+};
+
+/**
+ * Variable of a field: GO_CI_BATCH_SIZE, or GO_CI_SCAN_MAX_DEPTH with the scan prefix
+ */
+const envName = (key: string, prefix?: string): string =>
+  ENV_PREFIX + [prefix, key]
+    .filter((part) => part !== undefined)
+    .map((part) => part.replace(/[A-Z]/g, (c) => `_${c}`).toUpperCase())
+    .join('_');
+
+/**
+ * Built-in stages and the custom stages of a pipeline
+ */
+const stageNames = (pipeline?: PipelineConfig): string[] => [
+  ...BUILTIN_STAGES,
+  ...(pipeline?.custom ?? []).map((stage) => stage.name),
+];
+
+/**
+ * Check stages and skipStages once the custom stages are known; invalid lists are dropped
+ */
+const checkStageNames = (
+  validator: ConfigValidator,
+  values: Record<string, unknown>,
+  names: readonly string[],
+  path: (key: string) => Array<string | number>,
+): void => {
+  for (const key of ['stages', 'skipStages']) {
+    if (
+      values[key] !== undefined &&
+      validator.value(values[key], { type: 'enum-list', values: names }, path(key)) === undefined
+    ) {
+      delete values[key];
+    }
+  }
+};
+
+/**
+ * Convert an environment variable string for its field spec
+ */
+const fromEnvString = (raw: string, spec: FieldSpec): unknown => {
+  switch (spec.type) {
+    case 'boolean':
+      return raw === 'true' || raw === '1' ? true : raw === 'false' || raw === '0' ? false : raw;
+    case 'integer':
+    case 'number':
+      return raw.trim() !== '' && !Number.isNaN(Number(raw)) ? Number(raw) : raw;
+    default:
+      return raw;
+  }
+};
+
+/**
+ * Dotted field name: fallback.strategies[0].trigger
+ */
+const fieldName = (path: Array<string | number>): string =>
+  path.reduce<string>(
+    (name, segment) =>
+      typeof segment === 'number' ? `${name}[${segment}]` : name ? `${name}.${segment}` : segment,
+    '',
+  ) || '(root)';
+
+const describe = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return 'list';
+  }
+  if (value === null) {
+    return 'null';
+  }
+  return typeof value === 'object' ? 'mapping' : JSON.stringify(value);
+};
+
+/**
+ * Best-effort line of a key path: each key is searched after the line of its parent
+ */
+const locateKey = (
+  content: string,
+  path: Array<string | number>,
+  isJson: boolean,
+): number | undefined => {
+  const lines = content.split('\n');
+  let line = 0;
+  let found: number | undefined;
+
+  for (const segment of path) {
+    if (typeof segment === 'number') {
+      continue;
+    }
+    const escaped = segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = isJson
+      ? new RegExp(`"${escaped}"\\s*:`)
+      : new RegExp(`^\\s*(?:-\\s+)?["']?${escaped}["']?\\s*:`);
+
+    const index = lines.findIndex((text, i) => i >= line && pattern.test(text));
+    if (index === -1) {
+      break;
+    }
+    found = index + 1;
+    line = index + 1;
+  }
+
+  return found;
+};
+
+/**
+ * Line number from a JSON/YAML parser error message
+ */
+const errorLine = (message: string, content: string): number | undefined => {
+  const lineMatch = message.match(/line (\d+)/);
+  if (lineMatch) {
+    return parseInt(lineMatch[1], 10);
+  }
+  const positionMatch = message.match(/position (\d+)/);
+  if (positionMatch) {
+    return content.slice(0, parseInt(positionMatch[1], 10)).split('\n').length;
+  }
+  return undefined;
+};
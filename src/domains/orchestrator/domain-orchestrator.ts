@@ -5,36 +5,115 @@
 
 import type { Result } from '../../shared/result.ts';
 import { failure, success } from '../../shared/result.ts';
-import type { DomainError } from '../../shared/errors.ts';
+import type { DomainError, ValidationError } from '../../shared/errors.ts';
 import { createDomainError } from '../../shared/errors.ts';
 import type { EventBus } from '../../shared/events.ts';
+import { createEvent } from '../../shared/events.ts';
+import type {
+  PipelineConfig,
+  StageDefinition,
+  StageOverride,
+  StageReport,
+  StageStatus,
+} from './stage-graph.ts';
+import { DEFAULT_STAGES, StageGraph, StageScheduler } from './stage-graph.ts';
+import type { ConfigLoader, ProjectConfig } from './config-loader.ts';
 
 // Application Control
 import { createApplicationConfig, parseCli } from '../application-control/index.ts';
-import type { ApplicationStateManager } from '../application-control/index.ts';
+import type {
+  ApplicationConfig,
+  ApplicationStateManager,
+  ExecutionMode,
+} from '../application-control/index.ts';
 
 // Test Execution
-import type { TestExecutor } from '../test-execution/index.ts';
-import type { GoTestOptions, TestExecutionResult } from '../test-execution/types.ts';
+import type { FuzzRunner, TestExecutor } from '../test-execution/index.ts';
+import {
+  classifyExitCode,
+  FlakyTestDetector,
+  ParallelTestExecutor,
+  RaceDetector,
+  splitByPackage,
+} from '../test-execution/index.ts';
+import type {
+  FuzzTargetResult,
+  GoTestOptions,
+  RaceReport,
+  TestEventAction,
+  TestEventListener,
+  TestExecutionResult,
+  TestStatus,
+} from '../test-execution/types.ts';
 
 // Resource Management
-import type { GoProjectScanner } from '../resource-management/index.ts';
+import {
+  DEFAULT_HISTORY_PATH,
+  FileFilter,
+  GoProjectScanner,
+  ShardPlanner,
+  TestHistoryStore,
+} from '../resource-management/index.ts';
+import type {
+  AffectedPackageResolver,
+  AffectedPackages,
+  PackageTimings,
+  TestHistoryEntry,
+} from '../resource-management/index.ts';
 import type { GoPackageInfo, ProjectStructure } from '../resource-management/types.ts';
 
 // Error Control
-import type { FallbackExecutor, StrategyController } from '../error-control/index.ts';
+import { createDefaultFallbackConfig, StrategyController } from '../error-control/index.ts';
+import type {
+  ErrorContext,
+  ErrorRecord,
+  ExecutionStrategy,
+  FallbackAttempt,
+  FallbackConfig,
+  FallbackExecutor,
+} from '../error-control/index.ts';
 
 // Search Integration
+import {
+  BenchmarkAnalyzer,
+  COVERAGE_REPORT_FILES,
+  CoverageGate,
+  DEFAULT_BASELINE_PATH,
+  DEFAULT_PROFILE_DIRECTORY,
+  ShardReportMerger,
+} from '../search-integration/index.ts';
 import type {
   CoverageAnalyzer,
   ReportGenerator,
   SearchService,
 } from '../search-integration/index.ts';
-import type { CoverageData } from '../search-integration/types.ts';
+import type {
+  BenchmarkComparison,
+  BenchmarkDelta,
+  BenchmarkResult,
+  CoverageData,
+  CoverageThresholdFailure,
+  PackageCoverageThreshold,
+  ShardReport,
+} from '../search-integration/types.ts';
 
 // Environment Control
 import type { DockerController, EnvironmentManager } from '../environment-control/index.ts';
 
+// Static Analysis
+import type {
+  BuildChecker,
+  BuildResult,
+  CustomCheckResult,
+  CustomCheckRunner,
+  FormatChecker,
+  FormatResult,
+  LintResult,
+  LintRunner,
+  VetAnalyzer,
+  VetResult,
+} from '../static-analysis/index.ts';
+
 /**
  * Orchestrator Configuration
  */
@@ -43,6 +122,18 @@ export interface OrchestratorConfig {
   readonly enableDocker: boolean;
   readonly enableCoverage: boolean;
   readonly maxConcurrency: number;
+  readonly pipeline?: PipelineConfig;
+}
+
+/**
+ * Benchmarks of the bench stage
+ */
+export interface BenchmarkRun {
+  readonly results: BenchmarkResult[];
+  readonly comparison?: BenchmarkComparison; // absent when there was no baseline yet
+  readonly regressions: BenchmarkDelta[]; // significant slowdowns above --bench-threshold
+  readonly baselinePath?: string; // baseline the results were compared with
+  readonly savedPath?: string; // baseline file written with the results
 }
 
 /**
@@ -50,10 +141,94 @@ export interface OrchestratorConfig {
  */
 export interface OrchestrationResult {
   readonly errors: DomainError[];
+  readonly stages: StageReport[];
+  readonly build?: BuildResult;
   readonly testResults?: TestExecutionResult[];
+  readonly vetResults?: VetResult[];
+  readonly format?: FormatResult;
+  readonly lint?: LintResult;
+  readonly customResults?: CustomCheckResult[];
   readonly coverage?: CoverageData;
+  readonly coverageReports?: string[]; // files written by --coverage-format
+  readonly coverageThresholdFailures?: CoverageThresholdFailure[]; // missed coverage thresholds
+  readonly missingCoverProfiles?: string[]; // profiles go test did not write, so not in coverage
+  readonly fallback?: FallbackAttempt[]; // test strategies tried, in order, when fallback is enabled
+  readonly races?: RaceReport[]; // data races found with --race, deduplicated by location
+  readonly benchmarks?: BenchmarkRun;
+  readonly fuzz?: FuzzTargetResult[]; // fuzz targets run by --fuzz, in order
+  readonly changes?: AffectedPackages & { ref: string }; // package selection of --changed-since
+  readonly shard?: { report: ShardReport; path: string }; // partial result file of a sharded run
 }
 
+/**
+ * Mutable outputs collected while stages run
+ */
+interface StageOutputs {
+  build?: BuildResult;
+  testResults?: TestExecutionResult[];
+  vetResults?: VetResult[];
+  format?: FormatResult;
+  lint?: LintResult;
+  customResults?: CustomCheckResult[];
+  coverage?: CoverageData;
+  coverageReports?: string[];
+  coverageThresholdFailures?: CoverageThresholdFailure[];
+  missingCoverProfiles?: string[];
+  fallback?: FallbackAttempt[];
+  races?: RaceReport[];
+  benchmarks?: BenchmarkRun;
+  fuzz?: FuzzTargetResult[];
+}
+
+/**
+ * Inputs shared by every stage of one run
+ */
+interface StageContext {
+  readonly config: ApplicationConfig;
+  readonly orchestrator: OrchestratorConfig;
+  readonly test: Partial<GoTestOptions>;
+  readonly fallback: FallbackConfig; // consumed by the fallback loop
+  readonly packages: GoPackageInfo[]; // packages under the selected hierarchy
+  readonly patterns: string[]; // patterns covering the selection, e.g. ./cmd/..., or explicit packages
+  readonly timings: PackageTimings; // package durations from the test history
+  readonly coverage: boolean; // the coverage stage runs, so tests write cover profiles
+  readonly modulePath?: string; // module path of go.mod; undefined outside a single module
+  readonly coverageThresholds: PackageCoverageThreshold[]; // checked by the coverage stage
+  readonly coverProfiles: string[]; // cover profiles handed to go test invocations, in order
+  readonly errors: DomainError[];
+  readonly outputs: StageOutputs;
+}
+
+/**
+ * Outcome returned by a stage implementation
+ */
+type StageOutcome = { status: StageStatus; reason?: string };
+
+/**
+ * Built-in stages run by the static analysis checkers
+ */
+const STATIC_ANALYSIS_STAGES = ['build', 'vet', 'fmt', 'lint'];
+
+/**
+ * Checkers run by the build, vet, fmt, lint and custom stages
+ */
+type StaticAnalysis = {
+  buildChecker: BuildChecker;
+  vetAnalyzer: VetAnalyzer;
+  formatChecker: FormatChecker;
+  lintRunner: LintRunner;
+  customCheckRunner: CustomCheckRunner;
+};
+
+/**
+ * Package-level test events that mark a package as finished
+ */
+const PACKAGE_STATUS: Partial<Record<TestEventAction, Exclude<TestStatus, 'flaky'>>> = {
+  pass: 'passed',
+  fail: 'failed',
+  skip: 'skipped',
+};
+
 /**
  * Domain Orchestrator - Simplified version
  */
@@ -62,28 +237,35 @@ export class DomainOrchestrator {
     private readonly appControl: {
       parser: { parse: typeof parseCli };
       stateManager: ApplicationStateManager;
+      configLoader: ConfigLoader;
     },
     private readonly testExecution: {
       executor: TestExecutor;
+      fuzzRunner: FuzzRunner;
     },
-    private readonly __errorControl: {
+    private readonly errorControl: {
       strategyController: StrategyController;
       fallbackExecutor: FallbackExecutor;
     },
     private readonly resourceManagement: {
       scanner: GoProjectScanner;
+      shardPlanner: ShardPlanner;
+      affectedPackages: AffectedPackageResolver;
+      testHistory: TestHistoryStore;
     },
-    private readonly __searchIntegration: {
+    private readonly searchIntegration: {
       searchService: SearchService;
       coverageAnalyzer: CoverageAnalyzer;
       reportGenerator: ReportGenerator;
+      benchmarkAnalyzer: BenchmarkAnalyzer;
     },
     private readonly __environmentControl: {
       environmentManager: EnvironmentManager;
       dockerController?: DockerController;
     },
     private readonly config: OrchestratorConfig,
-    private readonly __eventBus: EventBus,
+    private readonly eventBus: EventBus,
+    private readonly staticAnalysis?: StaticAnalysis,
   ) {
     // Reference reserved properties to suppress unused warnings
     this._useReservedProperties();
@@ -94,12 +276,35 @@ export class DomainOrchestrator {
    */
   async orchestrate(args: string[]): Promise<Result<OrchestrationResult, DomainError>> {
     const errors: DomainError[] = [];
-    let testResults: TestExecutionResult[] | undefined;
-    let coverage: CoverageData | undefined;
+    const startedAt = new Date();
 
     try {
       // 1. Parse CLI arguments
-      const parseResult = this.appControl.parser.parse(args);
+      const cliResult = this.appControl.parser.parse(args);
+      if (!cliResult.ok) {
+        return failure(createDomainError({
+          domain: 'orchestrator',
+          kind: 'CliParseFailed',
+          details: { error: cliResult.error },
+        }));
+      }
+
+      // 2. Load project configuration - CLI > GO_CI_* env > config file > defaults
+      const projectConfigResult = await this.appControl.configLoader.load(
+        cliResult.data.workingDirectory,
+        cliResult.data.configPath,
+      );
+      if (!projectConfigResult.ok) {
+        return failure(createDomainError({
+          domain: 'orchestrator',
+          kind: 'ConfigurationFailed',
+          details: { error: projectConfigResult.error },
+        }));
+      }
+
+      const projectConfig = projectConfigResult.data;
+      const orchestratorConfig = this.resolveOrchestratorConfig(projectConfig);
+      const parseResult = this.appControl.parser.parse(args, projectConfig.cli);
       if (!parseResult.ok) {
         return failure(createDomainError({
           domain: 'orchestrator',
@@ -108,7 +313,7 @@ export class DomainOrchestrator {
         }));
       }
 
-      // 2. Create application configuration
+      // 3. Create application configuration
       const configResult = await createApplicationConfig(parseResult.data);
       if (!configResult.ok) {
         return failure(createDomainError({
@@ -118,7 +323,7 @@ export class DomainOrchestrator {
         }));
       }
 
-      // 3. Initialize application state
+      // 4. Initialize application state
       const initResult = await this.appControl.stateManager.initialize(configResult.data);
       if (!initResult.ok) {
         return failure(createDomainError({
@@ -128,8 +333,18 @@ export class DomainOrchestrator {
         }));
       }
 
-      // 4. Scan project structure
-      const scanResult = await this.resourceManagement.scanner.identifyProjectStructure(
+      // 5. Resolve the stage graph - CLI order and skips take precedence over config
+      const graphResult = StageGraph.create(
+        DEFAULT_STAGES,
+        this.resolvePipeline(orchestratorConfig, configResult.data),
+      );
+      if (!graphResult.ok) {
+        return failure(graphResult.error);
+      }
+
+      // 6. Scan project structure
+      const scanner = this.resourceManagement.scanner.withOptions(projectConfig.scan);
+      const scanResult = await scanner.identifyProjectStructure(
         configResult.data.workingDirectory.value,
       );
       if (!scanResult.ok) {
@@ -138,115 +353,73 @@ export class DomainOrchestrator {
           kind: 'ProjectScanFailed',
           details: { error: scanResult.error },
         }));
+        return success({ errors, stages: [] });
       }
 
-      // 5. Execute tests
-      if (scanResult.ok) {
-        const packages = this.extractPackages(scanResult.data);
-        if (packages.length > 0) {
-          const testOptions: GoTestOptions = {
-            verbose: configResult.data.verbose,
-            timeout: configResult.data.timeout.value,
-            race: false,
-            cover: false,
-            short: false,
-            failFast: false,
-          };
-
-          testResults = [];
-
-          // Execute tests based on mode
-          if (configResult.data.mode === 'all') {
-            // Run all tests in one command
-            const execResult = await this.testExecution.executor.test(
-              './...',
-              testOptions,
-              configResult.data.workingDirectory.value,
-            );
-
-            if (execResult.ok) {
-              testResults = [execResult.data];
-            } else {
-              errors.push(createDomainError({
-                domain: 'orchestrator',
-                kind: 'TestExecutionFailed',
-                details: { error: execResult.error },
-              }));
-            }
-          } else if (configResult.data.mode === 'batch') {
-            // Use parallel executor for batch mode
-            const filteredPackages = packages
-              .filter((pkg: GoPackageInfo) => pkg.hasTestFiles)
-              .map((pkg: GoPackageInfo) => pkg.importPath);
-
-            if (filteredPackages.length > 0) {
-              // TODO: Use parallel executor when integrated
-              // For now, execute sequentially
-              for (const pkg of filteredPackages) {
-                const execResult = await this.testExecution.executor.test(
-                  pkg,
-                  testOptions,
-                  configResult.data.workingDirectory.value,
-                );
-
-                if (execResult.ok) {
-                  testResults.push(execResult.data);
-                } else {
-                  errors.push(createDomainError({
-                    domain: 'orchestrator',
-                    kind: 'TestExecutionFailed',
-                    details: { error: execResult.error, package: pkg },
-                  }));
-
-                  // Continue with other packages unless fail-fast is enabled
-                  if (this.config.enableFallback) {
-                    continue;
-                  }
-                  break;
-                }
-              }
-            }
-          } else {
-            // single-package mode - execute each package individually
-            const singlePackages = packages
-              .filter((pkg: GoPackageInfo) => pkg.hasTestFiles)
-              .map((pkg: GoPackageInfo) => pkg.importPath);
-
-            for (const pkg of singlePackages) {
-              const execResult = await this.testExecution.executor.test(
-                pkg,
-                testOptions,
-                configResult.data.workingDirectory.value,
-              );
-
-              if (execResult.ok) {
-                testResults.push(execResult.data);
-              } else {
-                errors.push(createDomainError({
-                  domain: 'orchestrator',
-                  kind: 'TestExecutionFailed',
-                  details: { error: execResult.error, package: pkg },
-                }));
-              }
-            }
-          }
-        } else if (packages.length === 0) {
-          // No packages found, but scan succeeded
-          testResults = [];
-        }
+      // 7. Narrow the project to the requested hierarchy
+      const selectionResult = this.selectHierarchy(
+        this.extractPackages(scanResult.data),
+        configResult.data,
+      );
+      if (!selectionResult.ok) {
+        return failure(selectionResult.error);
+      }
+
+      // 8. Keep the packages affected by changes since --changed-since
+      const changedResult = await this.selectChanged(
+        selectionResult.data,
+        scanResult.data,
+        configResult.data,
+      );
+      if (!changedResult.ok) {
+        return failure(changedResult.error);
       }
 
-      // 6. Analyze coverage if enabled
-      if (this.config.enableCoverage && testResults) {
-        // Coverage analysis would go here
-        // For now, we'll skip it
+      // 9. Keep only this machine's shard of the selection
+      const shardResult = await this.selectShard(changedResult.data.selection, configResult.data);
+      if (!shardResult.ok) {
+        return failure(shardResult.error);
       }
 
-      // 7. Complete orchestration
+      // 10. Run stages in dependency order, scheduling tests by their recorded durations
+      const context: StageContext = {
+        config: configResult.data,
+        orchestrator: orchestratorConfig,
+        test: projectConfig.test,
+        fallback: { ...createDefaultFallbackConfig(), ...projectConfig.fallback },
+        ...shardResult.data,
+        timings: await this.loadHistoryTimings(configResult.data, errors),
+        coverage: graphResult.data.has('coverage'),
+        modulePath: scanResult.data.type === 'module'
+          ? scanResult.data.module.moduleName
+          : undefined,
+        coverageThresholds: [
+          ...(configResult.data.coverageThreshold !== undefined
+            ? [{ statements: configResult.data.coverageThreshold }]
+            : []),
+          ...projectConfig.coverageThresholds,
+        ],
+        coverProfiles: [],
+        errors,
+        outputs: {},
+      };
+
+      const scheduler = new StageScheduler(this.eventBus, orchestratorConfig.maxConcurrency);
+      const stages = await scheduler.run(
+        graphResult.data,
+        (stage) => this.executeStage(stage, context),
+      );
+
+      // 11. Record test durations and outcomes for the next run
+      await this.recordHistory(context, startedAt);
+
+      // 12. Complete orchestration
       return success({
         errors,
-        testResults,
-        coverage,
+        stages,
+        ...context.outputs,
+        changes: changedResult.data.changes,
+        shard: await this.writeShardReport(context),
       });
     } catch (error) {
       return failure(createDomainError({
@@ -257,6 +430,1344 @@ export class DomainOrchestrator {
     }
   }
 
+  /**
+   * Apply the config file's orchestrator section over the constructor configuration.
+   * Coverage is only ever switched on by the --coverage flag, so either source can enable it.
+   */
+  private resolveOrchestratorConfig(projectConfig: ProjectConfig): OrchestratorConfig {
+    return {
+      ...this.config,
+      ...projectConfig.orchestrator,
+      enableCoverage: this.config.enableCoverage ||
+        (projectConfig.orchestrator.enableCoverage ?? false),
+    };
+  }
+
+  /**
+   * Combine the configured pipeline with the CLI stage selection.
+   * With --stop-on-first-error every stage blocks the stages after it. Without static
+   * analysis checkers the stages that need them are left out, so tests do not wait on build.
+   */
+  private resolvePipeline(
+    orchestrator: OrchestratorConfig,
+    config: ApplicationConfig,
+  ): PipelineConfig {
+    const pipeline = orchestrator.pipeline ?? {};
+    const overrides = new Map<string, StageOverride>([
+      ['coverage', {
+        name: 'coverage',
+        enabled: orchestrator.enableCoverage || config.coverage ||
+          config.coverageFormats.length > 0 || config.coverageThreshold !== undefined,
+      }],
+      ['bench', { name: 'bench', enabled: config.bench !== undefined }],
+      ['fuzz', { name: 'fuzz', enabled: config.fuzz !== undefined }],
+    ]);
+    for (const override of pipeline.overrides ?? []) {
+      overrides.set(override.name, { ...overrides.get(override.name), ...override });
+    }
+
+    if (config.stopOnFirstError) {
+      const names = [
+        ...DEFAULT_STAGES.map((stage) => stage.name),
+        ...(pipeline.custom ?? []).map((stage) => stage.name),
+      ];
+      for (const name of names) {
+        overrides.set(name, { ...overrides.get(name), name, blocking: true });
+      }
+    }
+
+    const unavailable = this.staticAnalysis ? [] : [
+      ...STATIC_ANALYSIS_STAGES,
+      ...(pipeline.custom ?? []).map((stage) => stage.name),
+    ];
+
+    return {
+      ...pipeline,
+      order: config.stages ?? pipeline.order,
+      disabled: [...(pipeline.disabled ?? []), ...config.skipStages, ...unavailable],
+      overrides: [...overrides.values()],
+    };
+  }
+
+  /**
+   * Keep the packages under the requested directories; every directory must contain one
+   */
+  private selectHierarchy(
+    packages: GoPackageInfo[],
+    config: ApplicationConfig,
+  ): Result<{ packages: GoPackageInfo[]; patterns: string[] }, DomainError> {
+    if (config.hierarchy.length === 0) {
+      return success({ packages, patterns: ['./...'] });
+    }
+
+    const root = config.workingDirectory.value;
+    const toPattern = (path: string) => GoProjectScanner.toPackagePattern(root, path);
+    const isUnder = (pattern: string, prefix: string) =>
+      prefix === '.' || pattern === prefix || pattern.startsWith(`${prefix}/`);
+
+    const selected = new Set<GoPackageInfo>();
+    const patterns: string[] = [];
+
+    for (const hierarchy of config.hierarchy) {
+      // Relative directories are resolved against the working directory
+      const relative = hierarchy.value.replace(/^(\.\/)+/, '');
+      let path = `${root}/${relative}`;
+      if (hierarchy.value.startsWith('/')) {
+        path = hierarchy.value;
+      } else if (relative === '' || relative === '.') {
+        path = root;
+      }
+      const prefix = toPattern(path);
+
+      const matching = packages.filter((pkg) => isUnder(toPattern(pkg.path), prefix));
+      if (matching.length === 0) {
+        return failure(createDomainError({
+          domain: 'orchestrator',
+          kind: 'HierarchyNotFound',
+          details: { hierarchy: hierarchy.value },
+        }));
+      }
+
+      matching.forEach((pkg) => selected.add(pkg));
+      patterns.push(prefix === '.' ? './...' : `${prefix}/...`);
+    }
+
+    return success({
+      packages: packages.filter((pkg) => selected.has(pkg)),
+      patterns: [...new Set(patterns)],
+    });
+  }
+
+  /**
+   * With --changed-since, narrow the selection to the packages affected by changes since
+   * the ref. The import graph spans the whole project, so a package importing a changed
+   * package through one outside the selection is still selected.
+   */
+  private async selectChanged(
+    selection: { packages: GoPackageInfo[]; patterns: string[] },
+    structure: ProjectStructure,
+    config: ApplicationConfig,
+  ): Promise<
+    Result<{
+      selection: { packages: GoPackageInfo[]; patterns: string[] };
+      changes?: AffectedPackages & { ref: string };
+    }, DomainError>
+  > {
+    const ref = config.changedSince;
+    if (!ref) {
+      return success({ selection });
+    }
+
+    const root = config.workingDirectory.value;
+    const affectedResult = await this.resourceManagement.affectedPackages.resolve(
+      ref,
+      this.extractPackages(structure),
+      root,
+      structure.type === 'module' ? structure.module.moduleName : undefined,
+    );
+    if (!affectedResult.ok) {
+      return failure(affectedResult.error);
+    }
+
+    const changes = { ...affectedResult.data, ref };
+    if (changes.type === 'all') {
+      return success({ selection, changes });
+    }
+
+    const toPattern = (pkg: GoPackageInfo) => GoProjectScanner.toPackagePattern(root, pkg.path);
+    const packages = selection.packages.filter((pkg) => changes.affected.includes(toPattern(pkg)));
+    return success({
+      selection: { packages, patterns: packages.map(toPattern) },
+      changes,
+    });
+  }
+
+  /**
+   * With --shard, narrow the selection to the packages of one shard. Packages are keyed by
+   * their pattern relative to the working directory so every machine partitions alike.
+   */
+  private async selectShard(
+    selection: { packages: GoPackageInfo[]; patterns: string[] },
+    config: ApplicationConfig,
+  ): Promise<Result<{ packages: GoPackageInfo[]; patterns: string[] }, DomainError>> {
+    if (!config.shard) {
+      return success(selection);
+    }
+
+    // Shard timings come from a result file or, as .jsonl, a test history file
+    let timings;
+    if (config.shardTimings?.endsWith('.jsonl')) {
+      const historyResult = await this.resourceManagement.testHistory.load(config.shardTimings);
+      if (!historyResult.ok) {
+        return failure(historyResult.error);
+      }
+      timings = TestHistoryStore.timings(historyResult.data);
+    } else if (config.shardTimings) {
+      const timingsResult = await this.resourceManagement.shardPlanner.loadTimings(
+        config.shardTimings,
+      );
+      if (!timingsResult.ok) {
+        return failure(timingsResult.error);
+      }
+      timings = timingsResult.data;
+    }
+
+    const toPattern = (pkg: GoPackageInfo) =>
+      GoProjectScanner.toPackagePattern(config.workingDirectory.value, pkg.path);
+    const patterns = ShardPlanner.select(
+      selection.packages.map(toPattern),
+      config.shard,
+      timings,
+    );
+
+    return success({
+      packages: selection.packages.filter((pkg) => patterns.includes(toPattern(pkg))),
+      patterns,
+    });
+  }
+
+  /**
+   * Write the partial result file of a sharded run, one entry per tested package
+   */
+  private async writeShardReport(
+    context: StageContext,
+  ): Promise<{ report: ShardReport; path: string } | undefined> {
+    const { config, patterns, errors, outputs } = context;
+    if (!config.shard) {
+      return undefined;
+    }
+
+    const report = ShardReportMerger.create(
+      config.shard,
+      patterns,
+      this.packageResults(context),
+      outputs.coverage,
+    );
+    const path = config.shardOutput ??
+      `${config.workingDirectory.value}/.go-ci/shards/shard-${config.shard.index}-of-${config.shard.total}.json`;
+    const writeResult = await this.searchIntegration.reportGenerator.generateShardReport(
+      report,
+      path,
+    );
+    if (!writeResult.ok) {
+      errors.push(createDomainError({
+        domain: 'orchestrator',
+        kind: 'ShardReportFailed',
+        details: { error: writeResult.error, path },
+      }));
+      return undefined;
+    }
+
+    return { report, path };
+  }
+
+  /**
+   * Test results split one per package, each with the selection pattern it belongs to
+   */
+  private packageResults(
+    context: StageContext,
+  ): { target: string; result: TestExecutionResult }[] {
+    const { config, packages, patterns, outputs } = context;
+    const targets = packages.map((pkg) =>
+      GoProjectScanner.toPackagePattern(config.workingDirectory.value, pkg.path)
+    );
+    return (outputs.testResults ?? [])
+      .flatMap((r) => r.target.type === 'package' ? [r] : splitByPackage(r, config.testJson))
+      .map((result) => {
+        const importPath = result.target.type === 'package'
+          ? result.target.importPath.getValue()
+          : undefined;
+        const target = importPath && this.findTarget(importPath, targets);
+        return { target: target ?? importPath ?? patterns.join(' '), result };
+      });
+  }
+
+  /**
+   * Package durations recorded by earlier runs; an unreadable history only costs scheduling
+   */
+  private async loadHistoryTimings(
+    config: ApplicationConfig,
+    errors: DomainError[],
+  ): Promise<PackageTimings> {
+    const path = `${config.workingDirectory.value}/${DEFAULT_HISTORY_PATH}`;
+    const historyResult = await this.resourceManagement.testHistory.load(path);
+    if (!historyResult.ok) {
+      errors.push(createDomainError({
+        domain: 'orchestrator',
+        kind: 'HistoryFailed',
+        details: { error: historyResult.error, path },
+      }));
+      return new Map();
+    }
+    return TestHistoryStore.timings(historyResult.data);
+  }
+
+  /**
+   * Append the per-package and per-test durations and outcomes of this run to the history
+   */
+  private async recordHistory(context: StageContext, startedAt: Date): Promise<void> {
+    const { config, errors } = context;
+    const timestamp = startedAt.toISOString();
+    const entries = this.packageResults(context).map(({ target, result }): TestHistoryEntry => ({
+      timestamp,
+      target,
+      status: result.status === 'flaky' ? 'flaky' : result.success ? 'passed' : 'failed',
+      duration: result.duration,
+      tests: result.packages.flatMap((pkg) => pkg.tests).map((test) => ({
+        name: test.name,
+        status: test.status ?? (test.passed ? 'passed' : 'failed'),
+        duration: test.duration,
+      })),
+    }));
+    if (entries.length === 0) {
+      return;
+    }
+
+    const path = `${config.workingDirectory.value}/${DEFAULT_HISTORY_PATH}`;
+    const recordResult = await this.resourceManagement.testHistory.record(path, entries);
+    if (!recordResult.ok) {
+      errors.push(createDomainError({
+        domain: 'orchestrator',
+        kind: 'HistoryFailed',
+        details: { error: recordResult.error, path },
+      }));
+    }
+  }
+
+  /**
+   * Dispatch a stage to its implementation. Without static analysis checkers the stages
+   * that need them are skipped.
+   */
+  private executeStage(stage: StageDefinition, context: StageContext): Promise<StageOutcome> {
+    const analysis = this.staticAnalysis;
+    const unavailable: StageOutcome = {
+      status: 'skipped',
+      reason: 'static analysis is not configured',
+    };
+    if (stage.kind === 'custom') {
+      return analysis
+        ? this.runCustomStage(stage.name, stage.command, context, analysis)
+        : Promise.resolve(unavailable);
+    }
+
+    switch (stage.name) {
+      case 'build':
+        return analysis ? this.runBuildStage(context, analysis) : Promise.resolve(unavailable);
+      case 'test':
+        return this.runTestStage(context);
+      case 'vet':
+        return analysis ? this.runVetStage(context, analysis) : Promise.resolve(unavailable);
+      case 'fmt':
+        return analysis ? this.runFormatStage(context, analysis) : Promise.resolve(unavailable);
+      case 'lint':
+        return analysis ? this.runLintStage(context, analysis) : Promise.resolve(unavailable);
+      case 'coverage':
+        return this.runCoverageStage(context);
+      case 'bench':
+        return this.runBenchStage(context);
+      case 'fuzz':
+        return this.runFuzzStage(context);
+    }
+  }
+
+  /**
+   * Build packages - compile errors fail the stage
+   */
+  private async runBuildStage(
+    context: StageContext,
+    analysis: StaticAnalysis,
+  ): Promise<StageOutcome> {
+    const { config, packages, errors, outputs } = context;
+    const buildTargets = packages
+      .filter((pkg: GoPackageInfo) => pkg.goFiles.length > 0)
+      .map((pkg: GoPackageInfo) =>
+        GoProjectScanner.toPackagePattern(config.workingDirectory.value, pkg.path)
+      );
+
+    if (buildTargets.length === 0) {
+      return { status: 'passed' };
+    }
+
+    const buildResult = await analysis.buildChecker.build(
+      buildTargets,
+      { timeout: config.timeout.value },
+      config.workingDirectory.value,
+    );
+
+    if (!buildResult.ok) {
+      errors.push(createDomainError({
+        domain: 'orchestrator',
+        kind: 'BuildExecutionFailed',
+        details: { error: buildResult.error },
+      }));
+      return { status: 'failed', reason: 'go build could not be run' };
+    }
+
+    outputs.build = buildResult.data;
+    return buildResult.data.success
+      ? { status: 'passed' }
+      : { status: 'failed', reason: `${buildResult.data.diagnostics.length} compiler error(s)` };
+  }
+
+  /**
+   * Execute tests based on mode
+   */
+  private async runTestStage(context: StageContext): Promise<StageOutcome> {
+    const { config, packages, patterns, errors, outputs } = context;
+    const testResults: TestExecutionResult[] = [];
+    outputs.testResults = testResults;
+
+    if (packages.length === 0) {
+      // No packages found, but scan succeeded
+      return { status: 'passed' };
+    }
+
+    let testOptions: GoTestOptions = {
+      cover: false,
+      short: false,
+      ...context.test,
+      failFast: (context.test.failFast ?? false) || config.stopOnFirstError,
+      race: (context.test.race ?? false) || config.race,
+      verbose: config.verbose,
+      timeout: config.timeout.value,
+      json: config.testJson,
+    };
+
+    // Each go test invocation writes its own profile for the coverage stage, named after this one
+    if (context.coverage) {
+      const directory = `${config.workingDirectory.value}/${DEFAULT_PROFILE_DIRECTORY}`;
+      const prepared = await this.searchIntegration.coverageAnalyzer.prepareProfileDirectory(
+        directory,
+      );
+      if (prepared.ok) {
+        testOptions = {
+          ...testOptions,
+          coverProfile: `${directory}/cover.out`,
+          coverPackages: config.coverPackages,
+        };
+      } else {
+        errors.push(createDomainError({
+          domain: 'orchestrator',
+          kind: 'CoverageFailed',
+          details: { error: prepared.error, path: directory },
+        }));
+      }
+    }
+
+    const testPackagesResult = this.filterTestPackages(packages, config);
+    if (!testPackagesResult.ok) {
+      errors.push(createDomainError({
+        domain: 'orchestrator',
+        kind: 'TestExecutionFailed',
+        details: { error: testPackagesResult.error },
+      }));
+      return { status: 'failed', reason: `invalid --test-filter: ${config.testFilter}` };
+    }
+
+    const testTargets = testPackagesResult.data.map((pkg: GoPackageInfo) =>
+      GoProjectScanner.toPackagePattern(config.workingDirectory.value, pkg.path)
+    );
+    if (config.testFilter && testTargets.length === 0) {
+      return { status: 'passed', reason: `no packages match --test-filter ${config.testFilter}` };
+    }
+
+    const fallbackEnabled = config.enableFallback && context.orchestrator.enableFallback &&
+      context.fallback.enabled;
+    let strategy = this.initialStrategy(context, testTargets.length, fallbackEnabled);
+
+    // go test ./... covers the whole selection, including packages without test files
+    let scope = strategy.type === 'all-at-once' && !config.testFilter ? patterns : testTargets;
+    const scopeSize = () => scope === patterns ? packages.length : scope.length;
+
+    const fallbackExecutor = this.errorControl.fallbackExecutor.withConfig(
+      context.fallback,
+      this.eventBus,
+    );
+    fallbackExecutor.initialize(strategy);
+    const attempts: FallbackAttempt[] = [];
+    const errorHistory: ErrorRecord[] = [];
+    let executionFailed = false;
+
+    while (true) {
+      const startTime = Date.now();
+      const run = await this.runStrategy(
+        strategy,
+        scope,
+        context,
+        testOptions,
+        this.trackProgress(scopeSize()),
+      );
+      executionFailed = run.executionFailed;
+
+      const failedResults = run.results.filter((r) => !r.success);
+      const attempt: FallbackAttempt = {
+        strategy,
+        targets: scopeSize(),
+        failed: failedResults
+          .flatMap((r) => splitByPackage(r, testOptions.json ?? false))
+          .filter((r) => !r.success).length,
+      };
+      if (!fallbackEnabled || executionFailed || failedResults.length === 0) {
+        testResults.push(...run.results);
+        attempts.push(attempt);
+        break;
+      }
+
+      // Classify by the first failure and let the strategy controller decide what happens next
+      const classification = classifyExitCode(failedResults[0].processResult);
+      errorHistory.push(...failedResults.map((r) =>
+        StrategyController.createErrorRecord(
+          r.target,
+          r.processResult.exitCode,
+          classifyExitCode(r.processResult),
+        )
+      ));
+      const errorContext: ErrorContext = {
+        executionStrategy: strategy,
+        targetsExecuted: run.results.length,
+        targetsFailed: failedResults.length,
+        totalTargets: scopeSize(),
+        duration: Date.now() - startTime,
+        errorHistory,
+        debug: testOptions.verbose,
+      };
+
+      const decision = StrategyController.makeDecision(
+        classification,
+        errorContext,
+        context.fallback,
+      );
+      if (!decision.ok || decision.data.action !== 'fallback') {
+        testResults.push(...run.results);
+        attempts.push(attempt);
+        break;
+      }
+
+      const fallback = await fallbackExecutor.executeFallback(
+        decision.data.trigger,
+        errorContext,
+        decision.data.newStrategy,
+      );
+      if (!fallback.ok || !fallback.data.executed || !fallback.data.newStrategy) {
+        testResults.push(...run.results);
+        attempts.push(attempt);
+        break;
+      }
+
+      attempts.push({ ...attempt, trigger: decision.data.trigger });
+      strategy = fallback.data.newStrategy;
+      if (decision.data.debug) {
+        testOptions = { ...testOptions, verbose: true };
+      }
+
+      // Keep what passed and re-run only the failing packages when they can be identified
+      const narrowed = this.narrowScope(run.results, testTargets, testOptions.json ?? false);
+      if (narrowed) {
+        testResults.push(...narrowed.passed);
+        scope = narrowed.failing;
+      } else {
+        scope = testTargets;
+      }
+    }
+
+    if (fallbackEnabled) {
+      outputs.fallback = attempts;
+    }
+
+    if (executionFailed) {
+      return { status: 'failed', reason: 'go test could not be run' };
+    }
+
+    // Races are collected before retries, which may pass and hide them
+    const races = testOptions.race ? RaceDetector.collect(testResults) : [];
+    if (testOptions.race) {
+      outputs.races = races;
+    }
+
+    if (config.retryFailed > 0) {
+      const retried = await this.retryFailedTests(testResults, testTargets, context, testOptions);
+      testResults.splice(0, testResults.length, ...retried);
+    }
+
+    const failed = testResults.filter((r) => !r.success).length;
+    const flaky = testResults.filter((r) => r.status === 'flaky').length;
+    const notes = [
+      failed > 0 ? `${failed} test run(s) failed` : '',
+      flaky > 0 ? `${flaky} package(s) with flaky tests` : '',
+      races.length > 0 ? `${races.length} data race(s)` : '',
+    ].filter((note) => note.length > 0);
+    return {
+      status: failed === 0 ? 'passed' : 'failed',
+      reason: notes.length > 0 ? notes.join(', ') : undefined,
+    };
+  }
+
+  /**
+   * Strategy for the first test run. Explicit batch and single-package modes are kept;
+   * in all mode the strategy controller chooses when fallback is enabled.
+   */
+  private initialStrategy(
+    context: StageContext,
+    packageCount: number,
+    fallbackEnabled: boolean,
+  ): ExecutionStrategy {
+    const { config, orchestrator } = context;
+
+    switch (config.mode) {
+      case 'batch':
+        return { type: 'batch', batchSize: config.batchSize.value, parallel: true };
+      case 'single-package':
+        return { type: 'file-by-file', stopOnFirstError: config.stopOnFirstError };
+      case 'all':
+        if (!fallbackEnabled) {
+          return { type: 'all-at-once', parallel: false };
+        }
+        return StrategyController.selectInitialStrategy({
+          totalPackages: packageCount,
+          hasComplexDependencies: false,
+          timeConstraints: config.timeout.value,
+          previousFailures: 0,
+          resourceConstraints: { maxConcurrency: orchestrator.maxConcurrency, memoryLimit: 0 },
+        });
+    }
+  }
+
+  /**
+   * Run go test over a scope of package patterns with one execution strategy:
+   * - all-at-once: a single invocation
+   * - batch: groups of batchSize packages per invocation, concurrently when parallel
+   * - directory-by-directory: one invocation per package directory on a worker pool
+   * - file-by-file: one package at a time, in order
+   */
+  private async runStrategy(
+    strategy: ExecutionStrategy,
+    scope: string[],
+    context: StageContext,
+    testOptions: GoTestOptions,
+    progress: (target: string) => TestEventListener,
+  ): Promise<{ results: TestExecutionResult[]; executionFailed: boolean }> {
+    const { config, orchestrator, errors } = context;
+    const workingDirectory = config.workingDirectory.value;
+    const executor = this.testExecution.executor;
+    const results: TestExecutionResult[] = [];
+    let executionFailed = false;
+    const options = () => this.invocationOptions(context, testOptions);
+
+    const record = (
+      execResult: Result<TestExecutionResult | TestExecutionResult[], DomainError>,
+      pkg?: string,
+    ) => {
+      if (execResult.ok) {
+        results.push(...[execResult.data].flat());
+        return;
+      }
+      executionFailed = true;
+      errors.push(createDomainError({
+        domain: 'orchestrator',
+        kind: 'TestExecutionFailed',
+        details: pkg ? { error: execResult.error, package: pkg } : { error: execResult.error },
+      }));
+    };
+
+    switch (strategy.type) {
+      case 'all-at-once': {
+        const onEvent = progress(scope.join(' '));
+        record(
+          scope.length === 1
+            ? await executor.test(scope[0], options(), workingDirectory, onEvent)
+            : await executor.testPackages(scope, options(), workingDirectory, onEvent),
+        );
+        break;
+      }
+
+      case 'batch':
+      case 'directory-by-directory': {
+        const parallel = new ParallelTestExecutor(executor, {
+          maxConcurrency: strategy.type === 'batch'
+            ? (strategy.parallel ? orchestrator.maxConcurrency : 1)
+            : strategy.maxConcurrency,
+          batchSize: strategy.type === 'batch' ? strategy.batchSize : 1,
+          failFast: config.stopOnFirstError,
+          historicalData: context.timings,
+          batchOptions: (batch) => this.invocationOptions(context, batch),
+        });
+        record(
+          await parallel.executeParallel(
+            scope,
+            testOptions,
+            workingDirectory,
+            progress(scope.join(' ')),
+          ),
+        );
+        break;
+      }
+
+      case 'file-by-file':
+        for (const pkg of scope) {
+          const execResult = await executor.test(pkg, options(), workingDirectory, progress(pkg));
+          record(execResult, pkg);
+
+          if (strategy.stopOnFirstError && (!execResult.ok || !execResult.data.success)) {
+            break;
+          }
+        }
+        break;
+    }
+
+    return { results, executionFailed };
+  }
+
+  /**
+   * Options of one go test invocation: its own cover profile, numbered after the one of the
+   * stage, so batches and fallback runs do not overwrite each other's profiles
+   */
+  private invocationOptions(context: StageContext, options: GoTestOptions): GoTestOptions {
+    if (!options.coverProfile) {
+      return options;
+    }
+    const coverProfile = options.coverProfile.replace(
+      /(\.[^./]*)?$/,
+      `-${context.coverProfiles.length + 1}$1`,
+    );
+    context.coverProfiles.push(coverProfile);
+    return { ...options, coverProfile };
+  }
+
+  /**
+   * Re-run only the failing tests of each failed package, up to --retry-failed times.
+   * Tests that pass on a retry are reported as flaky instead of failed.
+   */
+  private async retryFailedTests(
+    results: TestExecutionResult[],
+    targets: string[],
+    context: StageContext,
+    testOptions: GoTestOptions,
+  ): Promise<TestExecutionResult[]> {
+    const { config } = context;
+    const json = testOptions.json ?? false;
+    const retried: TestExecutionResult[] = [];
+
+    for (const result of results.flatMap((r) => r.success ? [r] : splitByPackage(r, json))) {
+      const target = result.target.type === 'package'
+        ? this.findTarget(result.target.importPath.getValue(), targets)
+        : undefined;
+      let failing = result.success ? [] : FlakyTestDetector.failedTests(result);
+      if (!target || failing.length === 0) {
+        retried.push(result);
+        continue;
+      }
+
+      const flaky: string[] = [];
+      const errorHistory: ErrorRecord[] = [];
+      while (
+        failing.length > 0 && StrategyController.shouldRetry(errorHistory, config.retryFailed)
+      ) {
+        const retry = await this.testExecution.executor.test(
+          target,
+          {
+            ...testOptions,
+            json: true,
+            failFast: false,
+            run: FlakyTestDetector.runPattern(failing),
+            coverProfile: undefined, // a subset of the tests would understate coverage
+          },
+          config.workingDirectory.value,
+        );
+        if (!retry.ok) {
+          break;
+        }
+
+        const passed = FlakyTestDetector.passedTests(retry.data);
+        flaky.push(...failing.filter((test) => passed.includes(test)));
+        failing = failing.filter((test) => !passed.includes(test));
+        if (failing.length > 0) {
+          errorHistory.push(StrategyController.createErrorRecord(
+            retry.data.target,
+            retry.data.processResult.exitCode,
+            classifyExitCode(retry.data.processResult),
+          ));
+        }
+      }
+
+      retried.push(FlakyTestDetector.markFlaky(result, flaky, config.allowFlaky));
+    }
+
+    return retried;
+  }
+
+  /**
+   * Split results per package and map failures back to the selected package patterns.
+   * Returns undefined when a failure cannot be traced to a package.
+   */
+  private narrowScope(
+    results: TestExecutionResult[],
+    targets: string[],
+    json: boolean,
+  ): { passed: TestExecutionResult[]; failing: string[] } | undefined {
+    const split = results.flatMap((result) => splitByPackage(result, json));
+    const failing = new Set<string>();
+
+    for (const result of split.filter((r) => !r.success)) {
+      const target = result.target.type === 'package'
+        ? this.findTarget(result.target.importPath.getValue(), targets)
+        : undefined;
+      if (!target) {
+        return undefined;
+      }
+      failing.add(target);
+    }
+
+    return { passed: split.filter((r) => r.success), failing: [...failing] };
+  }
+
+  /**
+   * Find the package pattern (./pkg/x) for a Go import path (example.com/mod/pkg/x)
+   */
+  private findTarget(importPath: string, targets: string[]): string | undefined {
+    if (targets.includes(importPath)) {
+      return importPath;
+    }
+
+    const [match] = targets
+      .filter((target) => {
+        const relative = target.replace(/^\.\/?/, '');
+        return relative !== '' && (importPath === relative || importPath.endsWith(`/${relative}`));
+      })
+      .sort((a, b) => b.length - a.length);
+
+    // Only the module root package is left once no subdirectory matches
+    return match ?? (targets.includes('.') ? '.' : undefined);
+  }
+
+  /**
+   * Translate streamed package-level test events into exec:progress events.
+   * Returns a listener factory per go test target; the completed count spans all targets.
+   */
+  private trackProgress(total: number): (target: string) => TestEventListener {
+    let completed = 0;
+
+    return (target) => (event) => {
+      const status = PACKAGE_STATUS[event.Action];
+      if (!status || !event.Package || event.Test) {
+        return;
+      }
+
+      completed++;
+      void this.eventBus.emit(createEvent({
+        type: 'exec:progress',
+        target,
+        package: event.Package,
+        status,
+        completed,
+        total: Math.max(total, completed),
+        percentage: Math.round((completed / Math.max(total, completed)) * 100),
+      }));
+    };
+  }
+
+  /**
+   * Packages with tests, narrowed by --test-filter over package paths and directory names
+   */
+  private filterTestPackages(
+    packages: GoPackageInfo[],
+    config: ApplicationConfig,
+  ): Result<GoPackageInfo[], ValidationError> {
+    const withTests = packages.filter((pkg: GoPackageInfo) => pkg.hasTestFiles);
+    if (!config.testFilter) {
+      return success(withTests);
+    }
+
+    const filterResult = FileFilter.create([config.testFilter], []);
+    if (!filterResult.ok) {
+      return filterResult;
+    }
+
+    return success(withTests.filter((pkg: GoPackageInfo) => {
+      const path = GoProjectScanner.toPackagePattern(config.workingDirectory.value, pkg.path)
+        .replace(/^\.\//, '');
+      return filterResult.data.matches(path) ||
+        filterResult.data.matches(path.split('/').pop() ?? path);
+    }));
+  }
+
+  /**
+   * Vet packages using the same mode semantics as testing
+   */
+  private async runVetStage(
+    context: StageContext,
+    analysis: StaticAnalysis,
+  ): Promise<StageOutcome> {
+    const { config, packages, errors, outputs } = context;
+    const vetTargets = packages.map((pkg: GoPackageInfo) =>
+      GoProjectScanner.toPackagePattern(config.workingDirectory.value, pkg.path)
+    );
+
+    if (vetTargets.length === 0) {
+      return { status: 'passed' };
+    }
+
+    const errorCount = errors.length;
+    const vetResults = await this.runVet(vetTargets, context.patterns, config, errors, analysis);
+    outputs.vetResults = vetResults;
+
+    if (errors.length > errorCount) {
+      return { status: 'failed', reason: 'go vet could not be run' };
+    }
+    const findings = vetResults.reduce((sum, r) => sum + r.diagnostics.length, 0);
+    return vetResults.every((r) => r.success)
+      ? { status: 'passed' }
+      : { status: 'failed', reason: `${findings} finding(s)` };
+  }
+
+  /**
+   * Check formatting of every Go source and test file
+   */
+  private async runFormatStage(
+    context: StageContext,
+    analysis: StaticAnalysis,
+  ): Promise<StageOutcome> {
+    const { config, packages, errors, outputs } = context;
+    const formatFiles = packages.flatMap((pkg: GoPackageInfo) => {
+      const pattern = GoProjectScanner.toPackagePattern(config.workingDirectory.value, pkg.path);
+      return [...pkg.goFiles, ...pkg.testFiles].map((file) => `${pattern}/${file}`);
+    });
+
+    if (formatFiles.length === 0) {
+      return { status: 'passed' };
+    }
+
+    const formatResult = await analysis.formatChecker.check(
+      formatFiles,
+      { timeout: config.timeout.value, fix: config.fix },
+      config.workingDirectory.value,
+    );
+
+    if (!formatResult.ok) {
+      errors.push(createDomainError({
+        domain: 'orchestrator',
+        kind: 'FormatExecutionFailed',
+        details: { error: formatResult.error },
+      }));
+      return { status: 'failed', reason: 'gofmt could not be run' };
+    }
+
+    outputs.format = formatResult.data;
+    return formatResult.data.success
+      ? { status: 'passed' }
+      : { status: 'failed', reason: `${formatResult.data.issues.length} unformatted file(s)` };
+  }
+
+  /**
+   * Lint packages with every available external linter
+   */
+  private async runLintStage(
+    context: StageContext,
+    analysis: StaticAnalysis,
+  ): Promise<StageOutcome> {
+    const { config, packages, errors, outputs } = context;
+    const lintTargets = packages.map((pkg: GoPackageInfo) =>
+      GoProjectScanner.toPackagePattern(config.workingDirectory.value, pkg.path)
+    );
+
+    if (lintTargets.length === 0) {
+      return { status: 'passed' };
+    }
+
+    const lintResult = await analysis.lintRunner.lint(
+      lintTargets,
+      { timeout: config.timeout.value },
+      config.workingDirectory.value,
+    );
+
+    if (!lintResult.ok) {
+      errors.push(createDomainError({
+        domain: 'orchestrator',
+        kind: 'LintExecutionFailed',
+        details: { error: lintResult.error },
+      }));
+      return { status: 'failed', reason: 'linters could not be run' };
+    }
+
+    outputs.lint = lintResult.data;
+    return lintResult.data.success
+      ? { status: 'passed' }
+      : { status: 'failed', reason: `${lintResult.data.issues.length} lint issue(s)` };
+  }
+
+  /**
+   * Analyze the cover profiles written by the test stage, one per go test invocation
+   */
+  private async runCoverageStage(context: StageContext): Promise<StageOutcome> {
+    const { config, errors, outputs, modulePath } = context;
+    const profiles = [
+      ...new Set((outputs.testResults ?? []).flatMap((r) => r.coverProfile ?? [])),
+    ];
+    if (profiles.length === 0) {
+      return { status: 'passed', reason: 'no cover profiles were written' };
+    }
+
+    const coverageResult = await this.searchIntegration.coverageAnalyzer.analyzeProfiles(
+      profiles,
+      modulePath,
+    );
+    if (!coverageResult.ok) {
+      errors.push(createDomainError({
+        domain: 'orchestrator',
+        kind: 'CoverageFailed',
+        details: { error: coverageResult.error, profiles },
+      }));
+      return { status: 'failed', reason: 'cover profiles could not be analyzed' };
+    }
+
+    const { coverage, missing } = coverageResult.data;
+    outputs.coverage = coverage;
+    if (missing.length > 0) {
+      outputs.missingCoverProfiles = missing;
+    }
+    const { packages, summary } = coverage;
+
+    // Write the reports requested with --coverage-format; a failed report does not skip the gate
+    const directory = config.coverageOutput ??
+      `${config.workingDirectory.value}/${DEFAULT_PROFILE_DIRECTORY}`;
+    let reportFailure: string | undefined;
+    for (const format of config.coverageFormats) {
+      const outputPath = `${directory}/${COVERAGE_REPORT_FILES[format]}`;
+      const reportResult = await this.searchIntegration.coverageAnalyzer.generateReport(
+        coverage,
+        {
+          format,
+          outputPath,
+          sourceRoot: config.workingDirectory.value,
+          includeGenerated: true,
+        },
+      );
+      if (!reportResult.ok) {
+        errors.push(createDomainError({
+          domain: 'orchestrator',
+          kind: 'CoverageFailed',
+          details: { error: reportResult.error, format, path: outputPath },
+        }));
+        reportFailure = reportFailure ?? `${format} coverage report could not be written`;
+        continue;
+      }
+      outputs.coverageReports = [...(outputs.coverageReports ?? []), outputPath];
+    }
+
+    // Check the --coverage-threshold and the per-package thresholds of the config file
+    const gateResult = CoverageGate.evaluate(
+      coverage,
+      context.coverageThresholds,
+      modulePath,
+    );
+    if (!gateResult.ok) {
+      errors.push(createDomainError({
+        domain: 'orchestrator',
+        kind: 'CoverageFailed',
+        details: { error: gateResult.error },
+      }));
+      return { status: 'failed', reason: 'invalid coverage threshold' };
+    }
+    if (gateResult.data.length > 0) {
+      outputs.coverageThresholdFailures = gateResult.data;
+      for (const failure of gateResult.data) {
+        await this.eventBus.emit(createEvent({
+          type: 'error:threshold-exceeded',
+          package: failure.package,
+          metric: failure.metric,
+          value: failure.value,
+          threshold: failure.threshold,
+        }));
+      }
+      return {
+        status: 'failed',
+        reason: `${gateResult.data.length} coverage threshold(s) missed`,
+      };
+    }
+    if (reportFailure) {
+      return { status: 'failed', reason: reportFailure };
+    }
+
+    return {
+      status: 'passed',
+      reason: `${summary.statements.percentage.toFixed(1)}% of statements in ${packages.length} ` +
+        `package(s)${missing.length > 0 ? `, ${missing.length} cover profile(s) missing` : ''}`,
+    };
+  }
+
+  /**
+   * Run benchmarks, compare them with the baseline and, without regressions, save them as
+   * the next baseline. Only the benchmarks run, so a failing test does not hide a regression.
+   */
+  private async runBenchStage(context: StageContext): Promise<StageOutcome> {
+    const { config, packages, errors, outputs } = context;
+    const workingDirectory = config.workingDirectory.value;
+    const targets = packages
+      .filter((pkg: GoPackageInfo) => pkg.hasTestFiles)
+      .map((pkg: GoPackageInfo) => GoProjectScanner.toPackagePattern(workingDirectory, pkg.path));
+
+    if (!config.bench || targets.length === 0) {
+      return { status: 'passed' };
+    }
+
+    const analyzer = this.searchIntegration.benchmarkAnalyzer;
+    const fail = (reason: string, details: Record<string, unknown>): StageOutcome => {
+      errors.push(createDomainError({ domain: 'orchestrator', kind: 'BenchmarkFailed', details }));
+      return { status: 'failed', reason };
+    };
+
+    // An explicit baseline must exist; the default one is created by the first run
+    const baselinePath = config.benchBaseline ?? `${workingDirectory}/${DEFAULT_BASELINE_PATH}`;
+    const baselineResult = await analyzer.loadBaseline(baselinePath);
+    if (!baselineResult.ok) {
+      return fail('benchmark baseline could not be read', {
+        error: baselineResult.error,
+        path: baselinePath,
+      });
+    }
+    if (!baselineResult.data && config.benchBaseline) {
+      return fail(`benchmark baseline not found: ${baselinePath}`, { path: baselinePath });
+    }
+
+    const benchOptions: GoTestOptions = {
+      cover: false,
+      short: false,
+      ...context.test,
+      race: false,
+      failFast: false,
+      verbose: false,
+      json: false,
+      timeout: config.timeout.value,
+      run: '^$',
+      bench: { pattern: config.bench, count: config.benchCount },
+    };
+    const executor = this.testExecution.executor;
+    const execResult = targets.length === 1
+      ? await executor.test(targets[0], benchOptions, workingDirectory)
+      : await executor.testPackages(targets, benchOptions, workingDirectory);
+    if (!execResult.ok) {
+      return fail('go test -bench could not be run', { error: execResult.error });
+    }
+
+    const { processResult } = execResult.data;
+    const results = BenchmarkAnalyzer.parse(processResult.stdout);
+    if (processResult.exitCode !== 0) {
+      outputs.benchmarks = { results, regressions: [] };
+      return {
+        status: 'failed',
+        reason: `go test -bench exited with code ${processResult.exitCode}`,
+      };
+    }
+
+    const comparison = baselineResult.data
+      ? BenchmarkAnalyzer.compare(baselineResult.data.results, results)
+      : undefined;
+    const regressions = comparison
+      ? BenchmarkAnalyzer.regressions(comparison, config.benchThreshold)
+      : [];
+
+    // A regressing run must not become the baseline the next run is compared with
+    const savedPath = config.benchSave ?? `${workingDirectory}/${DEFAULT_BASELINE_PATH}`;
+    const saveResult = results.length > 0 && regressions.length === 0
+      ? await analyzer.saveBaseline(savedPath, results)
+      : undefined;
+    if (saveResult && !saveResult.ok) {
+      errors.push(createDomainError({
+        domain: 'orchestrator',
+        kind: 'BenchmarkFailed',
+        details: { error: saveResult.error, path: savedPath },
+      }));
+    }
+
+    outputs.benchmarks = {
+      results,
+      comparison,
+      regressions,
+      baselinePath: baselineResult.data ? baselinePath : undefined,
+      savedPath: saveResult?.ok ? savedPath : undefined,
+    };
+
+    if (regressions.length > 0) {
+      return {
+        status: 'failed',
+        reason: `${regressions.length} benchmark(s) slower by more than ${config.benchThreshold}%`,
+      };
+    }
+    return {
+      status: 'passed',
+      reason: comparison
+        ? undefined
+        : `${results.length} benchmark(s), no baseline to compare with`,
+    };
+  }
+
+  /**
+   * Fuzz the matching targets one after another within the --fuzz-time budget.
+   * A target fails the stage when it finds a crasher or fails to run its seed corpus.
+   */
+  private async runFuzzStage(context: StageContext): Promise<StageOutcome> {
+    const { config, packages, errors, outputs } = context;
+    const workingDirectory = config.workingDirectory.value;
+    if (!config.fuzz) {
+      return { status: 'passed' };
+    }
+
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(config.fuzz);
+    } catch {
+      return { status: 'failed', reason: `invalid --fuzz pattern: ${config.fuzz}` };
+    }
+
+    const fuzzRunner = this.testExecution.fuzzRunner;
+    const targetsResult = await fuzzRunner.discover(
+      packages.filter((pkg: GoPackageInfo) => pkg.hasTestFiles).map((pkg: GoPackageInfo) => ({
+        pattern: GoProjectScanner.toPackagePattern(workingDirectory, pkg.path),
+        path: pkg.path,
+        testFiles: pkg.testFiles,
+      })),
+      pattern,
+    );
+    if (!targetsResult.ok) {
+      errors.push(createDomainError({
+        domain: 'orchestrator',
+        kind: 'FuzzFailed',
+        details: { error: targetsResult.error },
+      }));
+      return { status: 'failed', reason: 'fuzz targets could not be read' };
+    }
+    if (targetsResult.data.length === 0) {
+      return { status: 'passed', reason: `no fuzz targets match ${config.fuzz}` };
+    }
+
+    const fuzzOptions: GoTestOptions = {
+      cover: false,
+      short: false,
+      ...context.test,
+      race: false,
+      failFast: false,
+      verbose: false,
+      timeout: config.timeout.value,
+    };
+    const runResult = await fuzzRunner.run(
+      targetsResult.data,
+      config.fuzzTime,
+      fuzzOptions,
+      workingDirectory,
+    );
+    if (!runResult.ok) {
+      errors.push(createDomainError({
+        domain: 'orchestrator',
+        kind: 'FuzzFailed',
+        details: { error: runResult.error },
+      }));
+      return { status: 'failed', reason: 'go test -fuzz could not be run' };
+    }
+
+    outputs.fuzz = runResult.data;
+    const failed = runResult.data.filter((result) => result.status === 'failed');
+    const crashers = failed.filter((result) => result.crasher?.new).length;
+    const notes = [
+      crashers > 0 ? `${crashers} new crasher(s)` : '',
+      failed.length > crashers ? `${failed.length - crashers} target(s) failed` : '',
+    ].filter((note) => note.length > 0);
+    return {
+      status: failed.length === 0 ? 'passed' : 'failed',
+      reason: notes.length > 0
+        ? notes.join(', ')
+        : `${runResult.data.length} target(s) fuzzed for ${config.fuzzTime}s`,
+    };
+  }
+
+  /**
+   * Run a user-defined command stage
+   */
+  private async runCustomStage(
+    name: string,
+    command: string[],
+    context: StageContext,
+    analysis: StaticAnalysis,
+  ): Promise<StageOutcome> {
+    const { config, errors, outputs } = context;
+    const checkResult = await analysis.customCheckRunner.run(
+      name,
+      command,
+      { timeout: config.timeout.value },
+      config.workingDirectory.value,
+    );
+
+    if (!checkResult.ok) {
+      errors.push(createDomainError({
+        domain: 'orchestrator',
+        kind: 'CustomStageFailed',
+        details: { error: checkResult.error, stage: name },
+      }));
+      return { status: 'failed', reason: `${command[0]} could not be run` };
+    }
+
+    outputs.customResults = [...(outputs.customResults ?? []), checkResult.data];
+    return checkResult.data.success
+      ? { status: 'passed' }
+      : { status: 'failed', reason: `exited with code ${checkResult.data.processResult.exitCode}` };
+  }
+
+  /**
+   * Run go vet over package patterns grouped by execution mode
+   */
+  private async runVet(
+    targets: string[],
+    patterns: string[],
+    config: ApplicationConfig,
+    errors: DomainError[],
+    analysis: StaticAnalysis,
+  ): Promise<VetResult[]> {
+    const results: VetResult[] = [];
+    const groups = this.groupTargets(targets, patterns, config.mode, config.batchSize.value);
+
+    for (const group of groups) {
+      const vetResult = await analysis.vetAnalyzer.vet(
+        group,
+        { timeout: config.timeout.value, json: config.vetJson },
+        config.workingDirectory.value,
+      );
+
+      if (vetResult.ok) {
+        results.push(vetResult.data);
+      } else {
+        errors.push(createDomainError({
+          domain: 'orchestrator',
+          kind: 'VetExecutionFailed',
+          details: { error: vetResult.error, targets: group },
+        }));
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Group package patterns into invocations for the given execution mode
+   */
+  private groupTargets(
+    targets: string[],
+    patterns: string[],
+    mode: ExecutionMode,
+    batchSize: number,
+  ): string[][] {
+    switch (mode) {
+      case 'all':
+        return [patterns];
+      case 'batch': {
+        const groups: string[][] = [];
+        for (let i = 0; i < targets.length; i += batchSize) {
+          groups.push(targets.slice(i, i + batchSize));
+        }
+        return groups;
+      }
+      case 'single-package':
+        return targets.map((target) => [target]);
+    }
+  }
+
   /**
    * Extract packages from ProjectStructure regardless of variant
    */
@@ -280,9 +1791,6 @@ export class DomainOrchestrator {
    */
   private _useReservedProperties(): void {
     // These properties are reserved for future domain integration
-    void this.__errorControl;
-    void this.__searchIntegration;
     void this.__environmentControl;
-    void this.__eventBus;
   }
 }
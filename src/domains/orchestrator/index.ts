@@ -8,3 +8,27 @@ export {
   type OrchestrationResult,
   type OrchestratorConfig,
 } from './domain-orchestrator.ts';
+
+export type {
+  BuiltinStageName,
+  CustomStageConfig,
+  PipelineConfig,
+  StageDefinition,
+  StageExecutor,
+  StageOverride,
+  StageReport,
+  StageSettings,
+  StageStatus,
+} from './stage-graph.ts';
+
+export { DEFAULT_STAGES, StageGraph, StageScheduler } from './stage-graph.ts';
+
+export type { ProjectConfig } from './config-loader.ts';
+export {
+  CONFIG_FILE_NAMES,
+  ConfigLoader,
+  ENV_PREFIX,
+  parseConfigContent,
+  parseEnvConfig,
+  parseEnvSections,
+} from './config-loader.ts';
@@ -0,0 +1,406 @@
+/**
+ * Stage Graph - Declarative pipeline stages with dependencies
+ * Following Totality principle with Smart Constructors
+ */
+
+import type { Result } from '../../shared/result.ts';
+import { failure, success } from '../../shared/result.ts';
+import type { DomainError } from '../../shared/errors.ts';
+import { createDomainError } from '../../shared/errors.ts';
+import type { EventBus } from '../../shared/events.ts';
+import { createEvent } from '../../shared/events.ts';
+
+/**
+ * Stages implemented by the orchestrator itself
+ */
+export type BuiltinStageName =
+  | 'build'
+  | 'test'
+  | 'vet'
+  | 'fmt'
+  | 'lint'
+  | 'coverage'
+  | 'bench'
+  | 'fuzz';
+
+/**
+ * Scheduling settings shared by every stage
+ */
+export interface StageSettings {
+  readonly name: string;
+  readonly dependsOn: string[];
+  readonly blocking: boolean; // failure skips every stage that has not started yet
+  readonly concurrent: boolean; // may run alongside other ready concurrent stages
+  readonly enabled: boolean;
+}
+
+/**
+ * Stage definition - discriminated union
+ */
+export type StageDefinition =
+  | StageSettings & { readonly kind: 'builtin'; readonly name: BuiltinStageName }
+  | StageSettings & { readonly kind: 'custom'; readonly command: string[] };
+
+/**
+ * Partial settings applied on top of a stage definition
+ */
+export interface StageOverride {
+  readonly name: string;
+  readonly dependsOn?: string[];
+  readonly blocking?: boolean;
+  readonly concurrent?: boolean;
+  readonly enabled?: boolean;
+}
+
+/**
+ * Custom command stage
+ */
+export interface CustomStageConfig {
+  readonly name: string;
+  readonly command: string[];
+  readonly dependsOn?: string[];
+  readonly blocking?: boolean;
+  readonly concurrent?: boolean;
+}
+
+/**
+ * Pipeline configuration
+ */
+export interface PipelineConfig {
+  readonly order?: string[]; // only these stages run, preferring this order
+  readonly disabled?: string[];
+  readonly overrides?: StageOverride[];
+  readonly custom?: CustomStageConfig[];
+}
+
+/**
+ * Stage outcome
+ */
+export type StageStatus = 'passed' | 'failed' | 'skipped';
+
+/**
+ * Stage report
+ */
+export interface StageReport {
+  readonly name: string;
+  readonly status: StageStatus;
+  readonly duration: number; // milliseconds
+  readonly reason?: string;
+}
+
+/**
+ * Default pipeline: Build → Test → Vet → Format → Lint → Coverage → Bench → Fuzz
+ */
+export const DEFAULT_STAGES: ReadonlyArray<StageDefinition> = [
+  {
+    kind: 'builtin',
+    name: 'build',
+    dependsOn: [],
+    blocking: true,
+    concurrent: false,
+    enabled: true,
+  },
+  {
+    kind: 'builtin',
+    name: 'test',
+    dependsOn: ['build'],
+    blocking: false,
+    concurrent: false,
+    enabled: true,
+  },
+  {
+    kind: 'builtin',
+    name: 'vet',
+    dependsOn: ['build'],
+    blocking: false,
+    concurrent: true,
+    enabled: true,
+  },
+  {
+    kind: 'builtin',
+    name: 'fmt',
+    dependsOn: [],
+    blocking: false,
+    concurrent: true,
+    enabled: true,
+  },
+  {
+    kind: 'builtin',
+    name: 'lint',
+    dependsOn: ['build'],
+    blocking: false,
+    concurrent: true,
+    enabled: true,
+  },
+  {
+    kind: 'builtin',
+    name: 'coverage',
+    dependsOn: ['build'], // runs after test, whose profiles are written even when tests fail
+    blocking: false,
+    concurrent: false,
+    enabled: false,
+  },
+  {
+    kind: 'builtin',
+    name: 'bench',
+    dependsOn: ['build'],
+    blocking: false,
+    concurrent: false,
+    enabled: false,
+  },
+  {
+    kind: 'builtin',
+    name: 'fuzz',
+    dependsOn: ['build'],
+    blocking: false,
+    concurrent: false,
+    enabled: false,
+  },
+];
+
+/**
+ * Stage graph - validated, ordered set of enabled stages
+ */
+export class StageGraph {
+  private constructor(readonly stages: ReadonlyArray<StageDefinition>) {}
+
+  /**
+   * Build a graph from definitions and pipeline configuration.
+   * Dependencies always win over the requested order; disabled dependencies count as satisfied.
+   */
+  static create(
+    definitions: ReadonlyArray<StageDefinition>,
+    config: PipelineConfig = {},
+  ): Result<StageGraph, DomainError> {
+    const all: StageDefinition[] = [...definitions];
+
+    for (const custom of config.custom ?? []) {
+      all.push({
+        kind: 'custom',
+        name: custom.name,
+        command: custom.command,
+        dependsOn: custom.dependsOn ?? [],
+        blocking: custom.blocking ?? false,
+        concurrent: custom.concurrent ?? false,
+        enabled: true,
+      });
+    }
+
+    const names = new Set<string>();
+    for (const stage of all) {
+      if (names.has(stage.name)) {
+        return StageGraph.invalid(`Duplicate stage: ${stage.name}`);
+      }
+      if (stage.kind === 'custom' && stage.command.length === 0) {
+        return StageGraph.invalid(`Custom stage has no command: ${stage.name}`);
+      }
+      names.add(stage.name);
+    }
+
+    const referenced = [
+      ...(config.order ?? []),
+      ...(config.disabled ?? []),
+      ...(config.overrides ?? []).map((override) => override.name),
+    ];
+    const unknown = referenced.find((name) => !names.has(name));
+    if (unknown) {
+      return StageGraph.invalid(`Unknown stage: ${unknown}`);
+    }
+
+    const overrides = new Map((config.overrides ?? []).map((o) => [o.name, o]));
+    const resolved = all.map((stage): StageDefinition => {
+      const override = overrides.get(stage.name);
+      let enabled = override?.enabled ?? stage.enabled;
+      if (config.order) {
+        enabled = config.order.includes(stage.name);
+      }
+      if (config.disabled?.includes(stage.name)) {
+        enabled = false;
+      }
+      return {
+        ...stage,
+        dependsOn: override?.dependsOn ?? stage.dependsOn,
+        blocking: override?.blocking ?? stage.blocking,
+        concurrent: override?.concurrent ?? stage.concurrent,
+        enabled,
+      };
+    });
+
+    const missing = resolved
+      .flatMap((stage) => stage.dependsOn.map((dep) => ({ stage: stage.name, dep })))
+      .find(({ dep }) => !names.has(dep));
+    if (missing) {
+      return StageGraph.invalid(`Stage ${missing.stage} depends on unknown stage ${missing.dep}`);
+    }
+
+    const cycle = StageGraph.findCycle(resolved);
+    if (cycle) {
+      return StageGraph.invalid(`Dependency cycle: ${cycle.join(' → ')}`);
+    }
+
+    const order = config.order ?? [];
+    const rank = (name: string) => {
+      const index = order.indexOf(name);
+      return index === -1 ? order.length : index;
+    };
+
+    const enabled = resolved
+      .map((stage, index) => ({ stage, index }))
+      .filter(({ stage }) => stage.enabled)
+      .sort((a, b) => rank(a.stage.name) - rank(b.stage.name) || a.index - b.index)
+      .map(({ stage }) => stage);
+
+    return success(new StageGraph(enabled));
+  }
+
+  /**
+   * Check whether a stage is part of this run
+   */
+  has(name: string): boolean {
+    return this.stages.some((stage) => stage.name === name);
+  }
+
+  private static findCycle(stages: StageDefinition[]): string[] | undefined {
+    const byName = new Map(stages.map((stage) => [stage.name, stage]));
+    const visiting: string[] = [];
+    const done = new Set<string>();
+
+    const visit = (name: string): string[] | undefined => {
+      const start = visiting.indexOf(name);
+      if (start !== -1) {
+        return [...visiting.slice(start), name];
+      }
+      if (done.has(name)) {
+        return undefined;
+      }
+
+      visiting.push(name);
+      for (const dep of byName.get(name)?.dependsOn ?? []) {
+        const cycle = visit(dep);
+        if (cycle) {
+          return cycle;
+        }
+      }
+      visiting.pop();
+      done.add(name);
+      return undefined;
+    };
+
+    for (const stage of stages) {
+      const cycle = visit(stage.name);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    return undefined;
+  }
+
+  private static invalid(reason: string): Result<StageGraph, DomainError> {
+    return failure(createDomainError({
+      domain: 'orchestrator',
+      kind: 'StageGraphInvalid',
+      details: { reason },
+    }));
+  }
+}
+
+/**
+ * Stage executor callback - returns the outcome of a single stage
+ */
+export type StageExecutor = (
+  stage: StageDefinition,
+) => Promise<{ status: StageStatus; reason?: string }>;
+
+/**
+ * Stage scheduler - runs a graph in dependency order, emitting stage events
+ */
+export class StageScheduler {
+  constructor(
+    private readonly eventBus: EventBus,
+    private readonly maxConcurrency: number,
+  ) {}
+
+  /**
+   * Run every stage of the graph and report its outcome
+   */
+  async run(graph: StageGraph, execute: StageExecutor): Promise<StageReport[]> {
+    const reports = new Map<string, StageReport>();
+    let pending = [...graph.stages];
+    let blockedBy: string | undefined;
+
+    while (pending.length > 0) {
+      if (blockedBy) {
+        for (const stage of pending) {
+          reports.set(stage.name, await this.skip(stage, `blocked by failed stage ${blockedBy}`));
+        }
+        break;
+      }
+
+      const ready = pending.filter((stage) =>
+        stage.dependsOn.every((dep) => !graph.has(dep) || reports.has(dep))
+      );
+
+      // The graph is acyclic, so the first pending stage always has something ready
+      const [first] = ready;
+      const batch = first.concurrent
+        ? ready.filter((stage) => stage.concurrent).slice(0, Math.max(1, this.maxConcurrency))
+        : [first];
+      pending = pending.filter((stage) => !batch.includes(stage));
+
+      const batchReports = await Promise.all(batch.map((stage) => {
+        const failedDep = stage.dependsOn.find((dep) =>
+          reports.has(dep) && reports.get(dep)!.status !== 'passed'
+        );
+        return failedDep
+          ? this.skip(stage, `dependency ${failedDep} did not pass`)
+          : this.execute(stage, execute);
+      }));
+
+      batchReports.forEach((report) => reports.set(report.name, report));
+
+      const blocking = batch.find((stage) =>
+        stage.blocking && reports.get(stage.name)!.status === 'failed'
+      );
+      if (blocking) {
+        blockedBy = blocking.name;
+      }
+    }
+
+    return graph.stages.map((stage) => reports.get(stage.name)!);
+  }
+
+  private async execute(stage: StageDefinition, execute: StageExecutor): Promise<StageReport> {
+    await this.eventBus.emit(createEvent({ type: 'stage:started', stage: stage.name }));
+
+    const startTime = Date.now();
+    let outcome: { status: StageStatus; reason?: string };
+    try {
+      outcome = await execute(stage);
+    } catch (error) {
+      outcome = {
+        status: 'failed',
+        reason: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+
+    const report = { name: stage.name, duration: Date.now() - startTime, ...outcome };
+    await this.emitFinished(report);
+    return report;
+  }
+
+  private async skip(stage: StageDefinition, reason: string): Promise<StageReport> {
+    const report: StageReport = { name: stage.name, status: 'skipped', duration: 0, reason };
+    await this.emitFinished(report);
+    return report;
+  }
+
+  private async emitFinished(report: StageReport): Promise<void> {
+    await this.eventBus.emit(createEvent({
+      type: 'stage:finished',
+      stage: report.name,
+      status: report.status,
+      duration: report.duration,
+      reason: report.reason,
+    }));
+  }
+}
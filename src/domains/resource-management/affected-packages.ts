@@ -0,0 +1,222 @@
+/**
+ * Affected Packages - Selects the packages impacted by git changes
+ * Changed packages are expanded through a reverse import graph
+ */
+
+import type { Result } from '../../shared/result.ts';
+import { failure, success } from '../../shared/result.ts';
+import type { DomainError } from '../../shared/errors.ts';
+import { createDomainError } from '../../shared/errors.ts';
+import type { ProcessExecutor } from '../test-execution/test-executor.ts';
+import type { GoFileParser } from '../search-integration/search-service.ts';
+import type { FileSystem } from './project-scanner.ts';
+import { GoProjectScanner } from './project-scanner.ts';
+import type { GoPackageInfo } from './types.ts';
+
+/**
+ * Files whose changes can affect every package of the module
+ */
+const MODULE_FILES = ['go.mod', 'go.sum', 'go.work', 'go.work.sum'];
+
+/**
+ * Packages selected by --changed-since
+ */
+export type AffectedPackages =
+  | { type: 'all'; changedFiles: string[]; reason: string }
+  | {
+    type: 'packages';
+    changedFiles: string[];
+    changed: string[]; // packages containing changed files
+    affected: string[]; // changed packages and every package importing them, transitively
+  };
+
+/**
+ * Package patterns (./pkg/x) mapped to the patterns of the packages importing them
+ */
+export type ReverseImportGraph = ReadonlyMap<string, ReadonlySet<string>>;
+
+/**
+ * Affected package resolver
+ */
+export class AffectedPackageResolver {
+  constructor(
+    private readonly fs: Pick<FileSystem, 'readFile' | 'joinPath'>,
+    private readonly parser: Pick<GoFileParser, 'parseDependencies'>,
+    private readonly processExecutor: ProcessExecutor,
+  ) {}
+
+  /**
+   * Packages affected by the changes between a git ref and the working tree,
+   * including untracked files
+   */
+  async resolve(
+    ref: string,
+    packages: GoPackageInfo[],
+    workingDirectory: string,
+    moduleName?: string,
+  ): Promise<Result<AffectedPackages, DomainError>> {
+    const changedFiles = await this.changedFiles(ref, workingDirectory);
+    if (!changedFiles.ok) {
+      return changedFiles;
+    }
+
+    const moduleFile = changedFiles.data.find((file) =>
+      MODULE_FILES.includes(file.split('/').pop() ?? file)
+    );
+    if (moduleFile) {
+      return success({
+        type: 'all',
+        changedFiles: changedFiles.data,
+        reason: `${moduleFile} changed`,
+      });
+    }
+
+    if (!moduleName) {
+      return success({
+        type: 'all',
+        changedFiles: changedFiles.data,
+        reason: 'imports cannot be resolved without a go.mod module path',
+      });
+    }
+
+    const patterns = packages.map((pkg) =>
+      GoProjectScanner.toPackagePattern(workingDirectory, pkg.path)
+    );
+    const changed = AffectedPackageResolver.changedPackages(changedFiles.data, patterns);
+    const graph = await this.buildGraph(packages, workingDirectory, moduleName);
+
+    return success({
+      type: 'packages',
+      changedFiles: changedFiles.data,
+      changed,
+      affected: AffectedPackageResolver.expand(changed, graph),
+    });
+  }
+
+  /**
+   * Build the reverse import graph of the module's packages from their Go files,
+   * test files included
+   */
+  async buildGraph(
+    packages: GoPackageInfo[],
+    workingDirectory: string,
+    moduleName: string,
+  ): Promise<ReverseImportGraph> {
+    const graph = new Map<string, Set<string>>();
+
+    for (const pkg of packages) {
+      const pattern = GoProjectScanner.toPackagePattern(workingDirectory, pkg.path);
+      const imports = new Set<string>();
+      for (const file of [...pkg.goFiles, ...pkg.testFiles]) {
+        try {
+          const content = await this.fs.readFile(this.fs.joinPath(pkg.path, file));
+          this.parser.parseDependencies(content).forEach((dep) => imports.add(dep));
+        } catch {
+          // Unreadable files contribute no edges
+        }
+      }
+
+      for (const importPath of imports) {
+        const imported = AffectedPackageResolver.toPattern(importPath, moduleName);
+        if (imported && imported !== pattern) {
+          const importers = graph.get(imported) ?? new Set<string>();
+          importers.add(pattern);
+          graph.set(imported, importers);
+        }
+      }
+    }
+
+    return graph;
+  }
+
+  /**
+   * Map changed files (relative to the working directory) to the packages containing them.
+   * Non-Go files count for the nearest enclosing package, e.g. testdata or embedded files.
+   */
+  static changedPackages(files: string[], patterns: string[]): string[] {
+    const known = new Set(patterns);
+    const changed = new Set<string>();
+
+    for (const file of files) {
+      const segments = file.split('/').slice(0, -1);
+      do {
+        const pattern = segments.length === 0 ? '.' : `./${segments.join('/')}`;
+        if (known.has(pattern)) {
+          changed.add(pattern);
+          break;
+        }
+      } while (!file.endsWith('.go') && segments.pop() !== undefined);
+    }
+
+    return [...changed].sort();
+  }
+
+  /**
+   * Changed packages plus every package that transitively imports one of them
+   */
+  static expand(changed: string[], graph: ReverseImportGraph): string[] {
+    const affected = new Set(changed);
+    const queue = [...changed];
+
+    while (queue.length > 0) {
+      for (const importer of graph.get(queue.shift()!) ?? []) {
+        if (!affected.has(importer)) {
+          affected.add(importer);
+          queue.push(importer);
+        }
+      }
+    }
+
+    return [...affected].sort();
+  }
+
+  /**
+   * Package pattern of a module-local import path; undefined for other modules
+   */
+  private static toPattern(importPath: string, moduleName: string): string | undefined {
+    if (importPath === moduleName) {
+      return '.';
+    }
+    return importPath.startsWith(`${moduleName}/`)
+      ? `./${importPath.slice(moduleName.length + 1)}`
+      : undefined;
+  }
+
+  /**
+   * Files changed since a ref - committed, staged, unstaged and untracked
+   */
+  private async changedFiles(
+    ref: string,
+    workingDirectory: string,
+  ): Promise<Result<string[], DomainError>> {
+    const commands = [
+      ['git', 'diff', '--name-only', '--relative', ref, '--'],
+      ['git', 'ls-files', '--others', '--exclude-standard'],
+    ];
+
+    const files = new Set<string>();
+    for (const command of commands) {
+      const result = await this.processExecutor.execute(command, {
+        cwd: workingDirectory,
+        timeout: 60000,
+      });
+      if (!result.ok || result.data.exitCode !== 0) {
+        return failure(createDomainError({
+          domain: 'resource',
+          kind: 'ChangeDetectionFailed',
+          details: {
+            command: command.join(' '),
+            error: result.ok ? result.data.stderr.trim() : result.error.message,
+          },
+        }));
+      }
+
+      result.data.stdout.split('\n')
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0)
+        .forEach((file) => files.add(file));
+    }
+
+    return success([...files].sort());
+  }
+}
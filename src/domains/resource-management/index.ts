@@ -19,3 +19,13 @@ export type {
 export { FileFilter, MaxDepth } from './types.ts';
 
 export { type FileSystem, GoProjectScanner } from './project-scanner.ts';
+
+export { type PackageTimings, ShardPlanner, type ShardSpec } from './shard-planner.ts';
+
+export { DEFAULT_HISTORY_PATH, type TestHistoryEntry, TestHistoryStore } from './test-history.ts';
+
+export {
+  AffectedPackageResolver,
+  type AffectedPackages,
+  type ReverseImportGraph,
+} from './affected-packages.ts';
@@ -40,6 +40,13 @@ export class GoProjectScanner {
     private readonly options: ScanOptions,
   ) {}
 
+  /**
+   * Create a scanner sharing this file system with some options replaced
+   */
+  withOptions(options: Partial<ScanOptions>): GoProjectScanner {
+    return new GoProjectScanner(this.fs, { ...this.options, ...options });
+  }
+
   /**
    * Scan project starting from root path
    */
@@ -382,6 +389,29 @@ export class GoProjectScanner {
     };
   }
 
+  /**
+   * Convert a scanned package path into a go package pattern relative to the root
+   */
+  static toPackagePattern(rootPath: string, packagePath: string): string {
+    const normalize = (path: string): string => path.replace(/^\.\//, '').replace(/\/+$/, '');
+    const root = normalize(rootPath);
+    const path = normalize(packagePath);
+
+    if (path === root || path === '' || path === '.') {
+      return '.';
+    }
+
+    if (root === '.' || root === '') {
+      return path.startsWith('/') ? path : `./${path}`;
+    }
+
+    if (path.startsWith(`${root}/`)) {
+      return `./${path.substring(root.length + 1)}`;
+    }
+
+    return path;
+  }
+
   /**
    * Classify Go file type
    */
@@ -0,0 +1,109 @@
+/**
+ * Shard Planner - Partitions packages across CI machines deterministically
+ * Every machine computes the same partition from the same inputs
+ */
+
+import type { Result } from '../../shared/result.ts';
+import { failure, success } from '../../shared/result.ts';
+import type { DomainError } from '../../shared/errors.ts';
+import { createDomainError } from '../../shared/errors.ts';
+import type { FileSystem } from './project-scanner.ts';
+
+/**
+ * Shard to run, counted from 1
+ */
+export interface ShardSpec {
+  readonly index: number;
+  readonly total: number;
+}
+
+/**
+ * Package durations in milliseconds, keyed by package pattern (./pkg/x)
+ */
+export type PackageTimings = ReadonlyMap<string, number>;
+
+/**
+ * 32-bit FNV-1a hash; stable across machines and runtimes
+ */
+const fnv1a = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Shard Planner
+ */
+export class ShardPlanner {
+  constructor(private readonly fs: Pick<FileSystem, 'exists' | 'readFile'>) {}
+
+  /**
+   * Read package durations from a shard or merged result file
+   * (`results[].target` and `results[].duration`)
+   */
+  async loadTimings(path: string): Promise<Result<PackageTimings, DomainError>> {
+    if (!(await this.fs.exists(path))) {
+      return failure(createDomainError({
+        domain: 'resource',
+        kind: 'FileNotFound',
+        details: { path },
+      }));
+    }
+
+    try {
+      const content = JSON.parse(await this.fs.readFile(path));
+      const timings = new Map<string, number>();
+      for (const result of Array.isArray(content?.results) ? content.results : []) {
+        if (typeof result?.target === 'string' && typeof result?.duration === 'number') {
+          timings.set(result.target, (timings.get(result.target) ?? 0) + result.duration);
+        }
+      }
+      return success(timings);
+    } catch (error) {
+      return failure(createDomainError({
+        domain: 'resource',
+        kind: 'ParseFailed',
+        details: { path, error: error instanceof Error ? error.message : String(error) },
+      }));
+    }
+  }
+
+  /**
+   * Split packages into `total` shards. With timings, packages are assigned longest first
+   * to the least loaded shard; packages without a timing count as the average one.
+   * Without timings each package goes to the shard picked by the hash of its pattern.
+   */
+  static partition(packages: string[], total: number, timings?: PackageTimings): string[][] {
+    const shards: string[][] = Array.from({ length: total }, () => []);
+    const known = packages.filter((pkg) => timings?.has(pkg));
+
+    if (!timings || known.length === 0) {
+      for (const pkg of [...packages].sort()) {
+        shards[fnv1a(pkg) % total].push(pkg);
+      }
+      return shards;
+    }
+
+    const average = known.reduce((sum, pkg) => sum + timings.get(pkg)!, 0) / known.length;
+    const duration = (pkg: string) => timings.get(pkg) ?? average;
+    const load = new Array<number>(total).fill(0);
+
+    const ordered = [...packages].sort((a, b) => duration(b) - duration(a) || a.localeCompare(b));
+    for (const pkg of ordered) {
+      const lightest = load.indexOf(Math.min(...load));
+      shards[lightest].push(pkg);
+      load[lightest] += duration(pkg);
+    }
+    return shards.map((shard) => shard.sort());
+  }
+
+  /**
+   * Packages of one shard
+   */
+  static select(packages: string[], shard: ShardSpec, timings?: PackageTimings): string[] {
+    return ShardPlanner.partition(packages, shard.total, timings)[shard.index - 1];
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Test History - Durations and outcomes of earlier runs, one JSON line per package per run
+ * Feeds longest-first scheduling of batches and shards
+ */
+
+import type { Result } from '../../shared/result.ts';
+import { failure, success } from '../../shared/result.ts';
+import type { DomainError } from '../../shared/errors.ts';
+import { createDomainError } from '../../shared/errors.ts';
+import type { FileWriter } from '../search-integration/report-generator.ts';
+import type { TestStatus } from '../test-execution/types.ts';
+import type { FileSystem } from './project-scanner.ts';
+import type { PackageTimings } from './shard-planner.ts';
+
+/**
+ * Default history file, relative to the working directory
+ */
+export const DEFAULT_HISTORY_PATH = '.go-ci/history.jsonl';
+
+/**
+ * Runs kept per package; older entries are dropped when the history is written
+ */
+const RUNS_KEPT = 10;
+
+/**
+ * Recent runs averaged into a package timing
+ */
+const RUNS_AVERAGED = 5;
+
+/**
+ * One package of one run
+ */
+export interface TestHistoryEntry {
+  readonly timestamp: string; // ISO 8601 start of the run
+  readonly target: string; // package pattern relative to the working directory, e.g. ./pkg/x
+  readonly status: TestStatus;
+  readonly duration: number; // milliseconds; 0 for cached results
+  readonly tests: { name: string; status: TestStatus; duration?: number }[];
+}
+
+/**
+ * Test history store
+ */
+export class TestHistoryStore {
+  constructor(
+    private readonly fs: Pick<FileSystem, 'exists' | 'readFile'>,
+    private readonly writer: FileWriter,
+  ) {}
+
+  /**
+   * Read the history; a missing file is an empty history and malformed lines are skipped
+   */
+  async load(path: string): Promise<Result<TestHistoryEntry[], DomainError>> {
+    if (!(await this.fs.exists(path))) {
+      return success([]);
+    }
+
+    let content: string;
+    try {
+      content = await this.fs.readFile(path);
+    } catch (error) {
+      return failure(createDomainError({
+        domain: 'resource',
+        kind: 'AccessDenied',
+        details: { path, error: error instanceof Error ? error.message : String(error) },
+      }));
+    }
+
+    const entries: TestHistoryEntry[] = [];
+    for (const line of content.split('\n')) {
+      try {
+        const entry = JSON.parse(line);
+        if (typeof entry?.target === 'string' && typeof entry?.duration === 'number') {
+          entries.push({ ...entry, tests: Array.isArray(entry.tests) ? entry.tests : [] });
+        }
+      } catch {
+        // Partially written or foreign lines carry no timing
+      }
+    }
+    return success(entries);
+  }
+
+  /**
+   * Add the entries of a run, keeping the latest runs of each package
+   */
+  async record(path: string, run: TestHistoryEntry[]): Promise<Result<void, DomainError>> {
+    const existing = await this.load(path);
+    if (!existing.ok) {
+      return existing;
+    }
+
+    const entries = TestHistoryStore.trim([...existing.data, ...run], RUNS_KEPT);
+    const content = entries.map((entry) => JSON.stringify(entry)).join('\n');
+    const writeResult = await this.writer.write(path, `${content}\n`);
+    if (!writeResult.ok) {
+      return failure(createDomainError({
+        domain: 'resource',
+        kind: 'AccessDenied',
+        details: { path, error: writeResult.error.message },
+      }));
+    }
+    return success(undefined);
+  }
+
+  /**
+   * Average duration of each package's latest runs. Cached runs (0ms) do not reflect
+   * the cost of the package and are left out.
+   */
+  static timings(entries: TestHistoryEntry[]): PackageTimings {
+    const durations = new Map<string, number[]>();
+    for (const entry of entries) {
+      if (entry.duration > 0) {
+        const values = durations.get(entry.target) ?? [];
+        values.push(entry.duration);
+        durations.set(entry.target, values);
+      }
+    }
+
+    const timings = new Map<string, number>();
+    for (const [target, values] of durations) {
+      const recent = values.slice(-RUNS_AVERAGED);
+      timings.set(target, recent.reduce((sum, value) => sum + value, 0) / recent.length);
+    }
+    return timings;
+  }
+
+  /**
+   * Latest `runs` entries per package, in their original order
+   */
+  private static trim(entries: TestHistoryEntry[], runs: number): TestHistoryEntry[] {
+    const counts = new Map<string, number>();
+    const kept: TestHistoryEntry[] = [];
+    for (let i = entries.length - 1; i >= 0; i--) {
+      const count = counts.get(entries[i].target) ?? 0;
+      counts.set(entries[i].target, count + 1);
+      if (count < runs) {
+        kept.push(entries[i]);
+      }
+    }
+    return kept.reverse();
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Benchmark Analyzer - Parses go test -bench output and compares it with a baseline
+ * Following Totality principle
+ */
+
+import type { Result } from '../../shared/result.ts';
+import { failure, success } from '../../shared/result.ts';
+import type { DomainError } from '../../shared/errors.ts';
+import { createDomainError } from '../../shared/errors.ts';
+import type { FileSystem } from '../resource-management/project-scanner.ts';
+import type { FileWriter } from './report-generator.ts';
+import type {
+  BenchmarkBaseline,
+  BenchmarkComparison,
+  BenchmarkDelta,
+  BenchmarkResult,
+} from './types.ts';
+import { mannWhitneyU, median, medianInterval } from './benchmark-statistics.ts';
+
+/**
+ * Default baseline file, relative to the working directory
+ */
+export const DEFAULT_BASELINE_PATH = '.go-ci/bench.json';
+
+/**
+ * Lines of go test -bench -benchmem output
+ */
+const PATTERNS = {
+  // pkg: example.com/module/pkg
+  package: /^pkg:\s+(\S+)/,
+  // BenchmarkFib/n=10-8   	  300000	      4045 ns/op	      16 B/op	       1 allocs/op
+  benchmark: /^(Benchmark\S+?)(?:-\d+)?\s+(\d+)\s+([\d.]+) ns\/op(.*)$/,
+  bytes: /([\d.]+) B\/op/,
+  allocs: /([\d.]+) allocs\/op/,
+};
+
+/**
+ * Differences below this p-value are significant
+ */
+const ALPHA = 0.05;
+
+/**
+ * One run of one benchmark
+ */
+interface BenchmarkSample {
+  readonly iterations: number;
+  readonly nsPerOp: number;
+  readonly bytesPerOp: number;
+  readonly allocsPerOp: number;
+}
+
+/**
+ * Benchmark Analyzer
+ */
+export class BenchmarkAnalyzer {
+  constructor(
+    private readonly fs: Pick<FileSystem, 'exists' | 'readFile'>,
+    private readonly writer: FileWriter,
+  ) {}
+
+  /**
+   * Read a baseline file; undefined when it does not exist
+   */
+  async loadBaseline(path: string): Promise<Result<BenchmarkBaseline | undefined, DomainError>> {
+    if (!(await this.fs.exists(path))) {
+      return success(undefined);
+    }
+
+    try {
+      const baseline = JSON.parse(await this.fs.readFile(path)) as Partial<BenchmarkBaseline>;
+      if (baseline?.version !== 1 || !Array.isArray(baseline.results)) {
+        return failure(createDomainError({
+          domain: 'search',
+          kind: 'ParseFailed',
+          details: { source: path, reason: 'not a go-ci benchmark baseline' },
+        }));
+      }
+      return success(baseline as BenchmarkBaseline);
+    } catch (error) {
+      return failure(createDomainError({
+        domain: 'search',
+        kind: 'ParseFailed',
+        details: { source: path, reason: error instanceof Error ? error.message : String(error) },
+      }));
+    }
+  }
+
+  /**
+   * Write the results of a run as a baseline file
+   */
+  async saveBaseline(
+    path: string,
+    results: BenchmarkResult[],
+  ): Promise<Result<BenchmarkBaseline, DomainError>> {
+    const baseline: BenchmarkBaseline = {
+      version: 1,
+      created: new Date().toISOString(),
+      results,
+    };
+    const writeResult = await this.writer.write(path, JSON.stringify(baseline, null, 2));
+    if (!writeResult.ok) {
+      return failure(createDomainError({
+        domain: 'search',
+        kind: 'FileWriteFailed',
+        details: { path, error: writeResult.error.message },
+      }));
+    }
+    return success(baseline);
+  }
+
+  /**
+   * Parse benchmark output into one result per benchmark, summarizing its runs.
+   * Results keep the order in which benchmarks first appear.
+   */
+  static parse(output: string, packageName = ''): BenchmarkResult[] {
+    const samples = new Map<string, { name: string; package: string; runs: BenchmarkSample[] }>();
+    let pkg = packageName;
+
+    for (const line of output.split('\n')) {
+      const header = line.match(PATTERNS.package);
+      if (header) {
+        pkg = header[1];
+        continue;
+      }
+
+      const match = line.trim().match(PATTERNS.benchmark);
+      if (!match) {
+        continue;
+      }
+
+      const key = `${pkg} ${match[1]}`;
+      const entry = samples.get(key) ?? { name: match[1], package: pkg, runs: [] };
+      entry.runs.push({
+        iterations: parseInt(match[2], 10),
+        nsPerOp: parseFloat(match[3]),
+        bytesPerOp: parseFloat(match[4].match(PATTERNS.bytes)?.[1] ?? '0'),
+        allocsPerOp: parseFloat(match[4].match(PATTERNS.allocs)?.[1] ?? '0'),
+      });
+      samples.set(key, entry);
+    }
+
+    return [...samples.values()].map(({ name, package: pkgName, runs }): BenchmarkResult => ({
+      name,
+      package: pkgName,
+      iterations: Math.round(median(runs.map((run) => run.iterations))),
+      nsPerOp: median(runs.map((run) => run.nsPerOp)),
+      bytesPerOp: median(runs.map((run) => run.bytesPerOp)),
+      allocsPerOp: median(runs.map((run) => run.allocsPerOp)),
+      samples: runs.map((run) => run.nsPerOp),
+      interval: medianInterval(runs.map((run) => run.nsPerOp)),
+    }));
+  }
+
+  /**
+   * Compare the benchmarks present in both runs. A change is significant when the
+   * Mann-Whitney U test rejects that both runs have the same distribution.
+   */
+  static compare(baseline: BenchmarkResult[], current: BenchmarkResult[]): BenchmarkComparison {
+    const previous = new Map(
+      baseline.map((result) => [`${result.package} ${result.name}`, result]),
+    );
+
+    const comparison = current.flatMap((result): BenchmarkDelta[] => {
+      const before = previous.get(`${result.package} ${result.name}`);
+      if (!before) {
+        return [];
+      }
+
+      const pValue = mannWhitneyU(before.samples, result.samples);
+      return [{
+        name: result.name,
+        package: result.package,
+        speedChange: percentChange(before.nsPerOp, result.nsPerOp),
+        allocChange: percentChange(before.allocsPerOp, result.allocsPerOp),
+        pValue,
+        significant: pValue < ALPHA,
+      }];
+    });
+
+    return { baseline, current, comparison };
+  }
+
+  /**
+   * Significant slowdowns of more than `threshold` percent
+   */
+  static regressions(comparison: BenchmarkComparison, threshold: number): BenchmarkDelta[] {
+    return comparison.comparison.filter((delta) =>
+      delta.significant && delta.speedChange > threshold
+    );
+  }
+}
+
+/**
+ * Percentage change; growth from zero counts as +100%
+ */
+function percentChange(before: number, after: number): number {
+  if (before === 0) {
+    return after === 0 ? 0 : 100;
+  }
+  return ((after - before) / before) * 100;
+}
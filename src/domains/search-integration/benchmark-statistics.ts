@@ -0,0 +1,150 @@
+/**
+ * Benchmark Statistics - Distribution-free summaries and tests, as benchstat uses them
+ * Pure functions over samples
+ */
+
+/**
+ * Sample sizes up to which the exact distribution of U is computed
+ */
+const EXACT_LIMIT = 50;
+
+/**
+ * Median of a non-empty sample
+ */
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Distribution-free confidence interval of the median from order statistics.
+ * Undefined when the sample is too small to reach the confidence level.
+ */
+export function medianInterval(
+  values: number[],
+  confidence = 0.95,
+): [number, number] | undefined {
+  const sorted = [...values].sort((a, b) => a - b);
+  const n = sorted.length;
+
+  // The interval between the k-th smallest and k-th largest value covers the median with
+  // probability 1 - 2 * P(Binomial(n, 1/2) < k)
+  const coverage = (k: number) => 1 - 2 * binomialCdf(k - 1, n);
+  if (n === 0 || coverage(1) < confidence) {
+    return undefined;
+  }
+
+  let k = 1;
+  while (k + 1 <= Math.floor(n / 2) && coverage(k + 1) >= confidence) {
+    k++;
+  }
+  return [sorted[k - 1], sorted[n - k]];
+}
+
+/**
+ * Two-sided p-value of the Mann-Whitney U test that both samples come from the same
+ * distribution. Exact for small samples without ties, normal approximation otherwise.
+ */
+export function mannWhitneyU(a: number[], b: number[]): number {
+  const n1 = a.length;
+  const n2 = b.length;
+  if (n1 === 0 || n2 === 0) {
+    return 1;
+  }
+
+  let u = 0;
+  for (const x of a) {
+    for (const y of b) {
+      u += x > y ? 1 : x === y ? 0.5 : 0;
+    }
+  }
+
+  const all = [...a, ...b].sort((x, y) => x - y);
+  const ties = tieSizes(all);
+
+  if (ties.length === 0 && n1 + n2 <= EXACT_LIMIT) {
+    const counts = uDistribution(n1, n2);
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    const below = counts.slice(0, u + 1).reduce((sum, count) => sum + count, 0) / total;
+    const above = counts.slice(u).reduce((sum, count) => sum + count, 0) / total;
+    return Math.min(1, 2 * Math.min(below, above));
+  }
+
+  const n = n1 + n2;
+  const tieCorrection = ties.reduce((sum, t) => sum + t ** 3 - t, 0) / (n * (n - 1));
+  const sigma = Math.sqrt((n1 * n2 / 12) * (n + 1 - tieCorrection));
+  if (sigma === 0) {
+    return 1;
+  }
+
+  // Continuity correction
+  const z = Math.max(0, Math.abs(u - n1 * n2 / 2) - 0.5) / sigma;
+  return Math.min(1, 2 * (1 - normalCdf(z)));
+}
+
+/**
+ * P(X <= k) for X ~ Binomial(n, 1/2)
+ */
+function binomialCdf(k: number, n: number): number {
+  let coefficient = 1;
+  let sum = 0;
+  for (let i = 0; i <= k; i++) {
+    sum += coefficient;
+    coefficient = coefficient * (n - i) / (i + 1);
+  }
+  return sum / 2 ** n;
+}
+
+/**
+ * Sizes of the groups of equal values in a sorted sample
+ */
+function tieSizes(sorted: number[]): number[] {
+  const sizes: number[] = [];
+  let run = 1;
+  for (let i = 1; i <= sorted.length; i++) {
+    if (i < sorted.length && sorted[i] === sorted[i - 1]) {
+      run++;
+    } else {
+      if (run > 1) {
+        sizes.push(run);
+      }
+      run = 1;
+    }
+  }
+  return sizes;
+}
+
+/**
+ * Number of orderings of two samples of sizes n1 and n2 giving each U from 0 to n1 * n2
+ */
+function uDistribution(n1: number, n2: number): number[] {
+  // counts[j] holds the distribution for (i, j) while i grows
+  let counts: number[][] = Array.from({ length: n2 + 1 }, () => [1]);
+  for (let i = 1; i <= n1; i++) {
+    const next: number[][] = [[1]];
+    for (let j = 1; j <= n2; j++) {
+      // The largest value belongs to the first sample (adding j to U) or to the second
+      const withFirst = counts[j];
+      const withSecond = next[j - 1];
+      const merged = new Array<number>(i * j + 1).fill(0);
+      withFirst.forEach((count, u) => merged[u + j] += count);
+      withSecond.forEach((count, u) => merged[u] += count);
+      next.push(merged);
+    }
+    counts = next;
+  }
+  return counts[n2];
+}
+
+/**
+ * Standard normal cumulative distribution (Abramowitz and Stegun 7.1.26)
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 +
+            t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) *
+      Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
@@ -7,6 +7,8 @@ import type { Result } from '../../shared/result.ts';
 import { failure, success } from '../../shared/result.ts';
 import type { DomainError } from '../../shared/errors.ts';
 import { createDomainError } from '../../shared/errors.ts';
+import type { FileSystem } from '../resource-management/project-scanner.ts';
+import type { FileRemover, FileWriter } from './report-generator.ts';
 import type {
   CoverageData,
   CoverageFormat,
@@ -17,22 +19,55 @@ import type {
   PackageCoverage,
 } from './types.ts';
 import { CoverageThresholdValue } from './types.ts';
+import { CoverageProfile } from './coverage-profile.ts';
+
+/**
+ * Default directory of the cover profiles written by go test, relative to the working directory
+ */
+export const DEFAULT_PROFILE_DIRECTORY = '.go-ci/coverage';
+
+/**
+ * File name of each coverage report in the report directory
+ */
+export const COVERAGE_REPORT_FILES: Readonly<Record<CoverageFormat, string>> = {
+  text: 'coverage.txt',
+  html: 'coverage.html',
+  json: 'coverage.json',
+  cobertura: 'cobertura.xml',
+  lcov: 'lcov.info',
+};
+
+/**
+ * Coverage of the cover profiles of one run
+ */
+export interface ProfileAnalysis {
+  readonly coverage: CoverageData;
+  readonly missing: string[]; // profiles that were not written, e.g. by packages that did not build
+}
 
 /**
  * Coverage data parser interface
  */
 export interface CoverageParser {
-  parse(output: string): Result<CoverageData, Error>;
+  /**
+   * Parse a cover profile; file paths under the module path also get a path relative to it
+   */
+  parse(output: string, modulePath?: string): Result<CoverageData, Error>;
 }
 
 /**
  * Coverage report generator interface
  */
 export interface CoverageReportGenerator {
+  /**
+   * Render a report, writing it to outputPath when given. Reports with source read
+   * module-relative file paths from sourceRoot.
+   */
   generate(
     data: CoverageData,
     format: CoverageFormat,
     outputPath?: string,
+    sourceRoot?: string,
   ): Promise<Result<string, Error>>;
 }
 
@@ -43,13 +78,97 @@ export class CoverageAnalyzer {
   constructor(
     private readonly parser: CoverageParser,
     private readonly generator: CoverageReportGenerator,
+    private readonly fs: Pick<FileSystem, 'exists' | 'readFile' | 'readDirectory'>,
+    private readonly writer: FileWriter & FileRemover,
   ) {}
 
+  /**
+   * Create the directory go test writes cover profiles to; go test does not create it.
+   * Its .gitignore keeps the profiles out of version control. Profiles of earlier runs are
+   * removed, so that one whose invocation writes none this time cannot be taken for it.
+   */
+  async prepareProfileDirectory(directory: string): Promise<Result<void, DomainError>> {
+    const path = `${directory}/.gitignore`;
+    const writeResult = await this.writer.write(path, '*\n');
+    if (!writeResult.ok) {
+      return failure(createDomainError({
+        domain: 'search',
+        kind: 'FileWriteFailed',
+        details: { path, error: writeResult.error.message },
+      }));
+    }
+
+    let names: string[];
+    try {
+      names = await this.fs.readDirectory(directory);
+    } catch (error) {
+      return failure(createDomainError({
+        domain: 'search',
+        kind: 'FileWriteFailed',
+        details: { path: directory, error: error instanceof Error ? error.message : String(error) },
+      }));
+    }
+
+    for (const name of names.filter((name) => name.endsWith('.out'))) {
+      const removeResult = await this.writer.remove(`${directory}/${name}`);
+      if (!removeResult.ok) {
+        return failure(createDomainError({
+          domain: 'search',
+          kind: 'FileWriteFailed',
+          details: { path: `${directory}/${name}`, error: removeResult.error.message },
+        }));
+      }
+    }
+    return success(undefined);
+  }
+
+  /**
+   * Analyze the cover profiles of several go test invocations as one run.
+   * A package whose tests did not build writes no profile; such files are returned as
+   * missing, as the coverage leaves out what they would have covered.
+   */
+  async analyzeProfiles(
+    paths: string[],
+    modulePath?: string,
+  ): Promise<Result<ProfileAnalysis, DomainError>> {
+    const data: CoverageData[] = [];
+    const missing: string[] = [];
+    for (const path of paths) {
+      if (!(await this.fs.exists(path))) {
+        missing.push(path);
+        continue;
+      }
+
+      let profile: string;
+      try {
+        profile = await this.fs.readFile(path);
+      } catch (error) {
+        return failure(createDomainError({
+          domain: 'search',
+          kind: 'ParseFailed',
+          details: { source: path, reason: error instanceof Error ? error.message : String(error) },
+        }));
+      }
+
+      const analyzed = this.analyzeCoverage(profile, modulePath);
+      if (!analyzed.ok) {
+        return analyzed;
+      }
+      data.push(analyzed.data);
+    }
+
+    const merged = this.mergeCoverage(data);
+    return merged.ok ? success({ coverage: merged.data, missing }) : merged;
+  }
+
   /**
    * Analyze coverage output
    */
-  analyzeCoverage(coverageOutput: string): Result<CoverageData, DomainError> {
-    const parseResult = this.parser.parse(coverageOutput);
+  analyzeCoverage(
+    coverageOutput: string,
+    modulePath?: string,
+  ): Result<CoverageData, DomainError> {
+    const parseResult = this.parser.parse(coverageOutput, modulePath);
 
     if (!parseResult.ok) {
       return failure(createDomainError({
@@ -97,6 +216,7 @@ export class CoverageAnalyzer {
       data,
       request.format,
       request.outputPath,
+      request.sourceRoot,
     );
 
     if (!result.ok) {
@@ -140,6 +260,14 @@ export class CoverageAnalyzer {
     };
   }
 
+  /**
+   * Combine coverage of several runs, e.g. of batches or shards: block counts of a package
+   * covered more than once add up, or are OR-ed in set mode. Runs of different modes fail.
+   */
+  mergeCoverage(data: CoverageData[]): Result<CoverageData, DomainError> {
+    return CoverageProfile.merge(data);
+  }
+
   /**
    * Compare coverage data
    */
@@ -182,7 +310,7 @@ export class CoverageAnalyzer {
     // Recalculate summary
     const summary = this.calculateSummary(packages);
 
-    return { packages, summary };
+    return { mode: data.mode, packages, summary };
   }
 
   /**
@@ -201,7 +329,7 @@ export class CoverageAnalyzer {
     // Ensure overall summary
     const summary = data.summary || this.calculateSummary(packages);
 
-    return { packages, summary };
+    return { ...data, packages, summary };
   }
 
   /**
@@ -0,0 +1,104 @@
+/**
+ * Coverage Gate - Checks coverage against global and per-package thresholds
+ * Following Totality principle
+ */
+
+import type { Result } from '../../shared/result.ts';
+import { success } from '../../shared/result.ts';
+import type { ValidationError } from '../../shared/errors.ts';
+import type {
+  CoverageData,
+  CoverageSummary,
+  CoverageThresholdFailure,
+  PackageCoverageThreshold,
+} from './types.ts';
+import { CoverageThresholdValue } from './types.ts';
+
+/**
+ * Coverage Gate - pure functions
+ */
+export class CoverageGate {
+  /**
+   * Thresholds missed by the run. A threshold without pattern applies to the total
+   * coverage; otherwise every package matching its pattern, by its path relative to the
+   * module or its full import path, must reach it on its own.
+   */
+  static evaluate(
+    data: CoverageData,
+    thresholds: PackageCoverageThreshold[],
+    modulePath?: string,
+  ): Result<CoverageThresholdFailure[], ValidationError> {
+    const failures: CoverageThresholdFailure[] = [];
+    for (const { pattern, statements } of thresholds) {
+      const threshold = CoverageThresholdValue.create({ statements });
+      if (!threshold.ok) {
+        return threshold;
+      }
+
+      const targets: { package?: string; summary: CoverageSummary }[] = pattern === undefined
+        ? [{ summary: data.summary }]
+        : data.packages
+          .filter((pkg) =>
+            CoverageGate.matches(pattern, CoverageGate.relativePackage(pkg.package, modulePath)) ||
+            CoverageGate.matches(pattern, pkg.package)
+          )
+          .map((pkg) => ({ package: pkg.package, summary: pkg.summary }));
+
+      for (const target of targets) {
+        for (const message of threshold.data.getFailures(target.summary)) {
+          failures.push({
+            package: target.package,
+            pattern,
+            metric: 'statements',
+            value: target.summary.statements.percentage,
+            threshold: statements,
+            message,
+          });
+        }
+      }
+    }
+    return success(failures);
+  }
+
+  /**
+   * Whether a package path relative to the module matches a threshold pattern: `dir/...`
+   * matches dir and the packages below it, other patterns are globs where `*` stays
+   * within a path element and `**` crosses them. A leading `./` is ignored.
+   */
+  static matches(pattern: string, packagePath: string): boolean {
+    const normalized = pattern.replace(/^\.\/(?=.)/, '');
+    if (normalized === '...') {
+      return true;
+    }
+    if (normalized.endsWith('/...')) {
+      const directory = normalized.slice(0, -'/...'.length);
+      return packagePath === directory || packagePath.startsWith(`${directory}/`);
+    }
+
+    const regex = normalized
+      .split('**')
+      .map((part) =>
+        part
+          .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+          .replace(/\*/g, '[^/]*')
+          .replace(/\?/g, '[^/]')
+      )
+      .join('.*');
+    return new RegExp(`^${regex}$`).test(packagePath);
+  }
+
+  /**
+   * Import path of a package relative to the module root; `.` for the root package
+   */
+  private static relativePackage(importPath: string, modulePath?: string): string {
+    if (!modulePath) {
+      return importPath;
+    }
+    if (importPath === modulePath) {
+      return '.';
+    }
+    return importPath.startsWith(`${modulePath}/`)
+      ? importPath.slice(modulePath.length + 1)
+      : importPath;
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Coverage Profile - Block-level rules of Go cover profiles
+ * Following Totality principle
+ */
+
+import type { Result } from '../../shared/result.ts';
+import { failure, success } from '../../shared/result.ts';
+import type { DomainError } from '../../shared/errors.ts';
+import { createDomainError } from '../../shared/errors.ts';
+import type {
+  CoverageBlock,
+  CoverageData,
+  CoverageMetric,
+  CoverageMode,
+  CoverageSummary,
+  FileCoverage,
+  PackageCoverage,
+} from './types.ts';
+
+/**
+ * Blocks of one source file
+ */
+export interface ProfileFile {
+  readonly file: string; // import path of the package and file name
+  readonly path?: string; // relative to the module root
+  readonly blocks: CoverageBlock[];
+}
+
+/**
+ * Coverage Profile - pure functions
+ */
+export class CoverageProfile {
+  /**
+   * Coverage data of the blocks of a profile, one package per directory of the files
+   */
+  static build(mode: CoverageMode | undefined, files: ProfileFile[]): CoverageData {
+    return CoverageProfile.group(
+      mode,
+      files.map((file) => ({
+        package: CoverageProfile.packageOf(file.file),
+        coverage: CoverageProfile.fileCoverage(file),
+      })),
+    );
+  }
+
+  /**
+   * Combine the coverage of several test runs, e.g. of batches or of shards run on separate
+   * machines. Blocks are combined with combineCounts, so a package covered by several runs
+   * adds up. Runs must share their mode. Files without blocks, from reports written before
+   * blocks were kept, are taken from the last run that has them.
+   */
+  static merge(data: CoverageData[]): Result<CoverageData, DomainError> {
+    const modes = [...new Set(data.flatMap((entry) => entry.mode ?? []))];
+    if (modes.length > 1) {
+      return failure(createDomainError({
+        domain: 'search',
+        kind: 'MergeFailed',
+        details: { reason: 'cover profiles of different modes cannot be merged', modes },
+      }));
+    }
+    const mode = modes[0];
+
+    const files = new Map<
+      string,
+      { package: string; path?: string; blocks?: Map<string, CoverageBlock>; file: FileCoverage }
+    >();
+    for (const pkg of data.flatMap((entry) => entry.packages)) {
+      for (const file of pkg.files) {
+        if (!file.blocks) {
+          files.set(file.file, { package: pkg.package, file });
+          continue;
+        }
+
+        const entry = files.get(file.file);
+        const blocks = entry?.blocks ?? new Map<string, CoverageBlock>();
+        for (const block of file.blocks) {
+          const key = CoverageProfile.blockKey(block);
+          const previous = blocks.get(key);
+          blocks.set(
+            key,
+            previous
+              ? {
+                ...block,
+                count: CoverageProfile.combineCounts(mode ?? 'set', previous.count, block.count),
+              }
+              : block,
+          );
+        }
+        files.set(file.file, {
+          package: pkg.package,
+          path: file.path ?? entry?.path,
+          blocks,
+          file,
+        });
+      }
+    }
+
+    return success(CoverageProfile.group(
+      mode,
+      [...files.values()].map((entry) => ({
+        package: entry.package,
+        coverage: entry.blocks
+          ? CoverageProfile.fileCoverage({
+            file: entry.file.file,
+            path: entry.path,
+            blocks: [...entry.blocks.values()],
+          })
+          : entry.file,
+      })),
+    ));
+  }
+
+  /**
+   * Cover profile text as go test writes it, readable by go tool cover.
+   * Files without blocks cannot be written and are left out.
+   */
+  static format(data: CoverageData): string {
+    const lines = [`mode: ${data.mode ?? 'set'}`];
+    for (const file of data.packages.flatMap((pkg) => pkg.files)) {
+      for (const block of file.blocks ?? []) {
+        lines.push(
+          `${file.file}:${CoverageProfile.blockKey(block)} ${block.statements} ${block.count}`,
+        );
+      }
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Executions of a block reported more than once, e.g. by every test binary built with
+   * -coverpkg: in set mode a block ran if any report says so, otherwise counts add up
+   */
+  static combineCounts(mode: CoverageMode, a: number, b: number): number {
+    return mode === 'set' ? Math.max(a, b) : a + b;
+  }
+
+  /**
+   * Identity of a block within its file
+   */
+  static blockKey(block: CoverageBlock): string {
+    return `${block.startLine}.${block.startColumn},${block.endLine}.${block.endColumn}`;
+  }
+
+  /**
+   * Executions of each source line spanned by a block. A line shared by several blocks,
+   * like `if n < 0 {` with the body starting at its brace, counts the most executed one.
+   */
+  static lineHits(blocks: CoverageBlock[]): Map<number, number> {
+    const hits = new Map<number, number>();
+    for (const block of blocks) {
+      for (let line = block.startLine; line <= block.endLine; line++) {
+        hits.set(line, Math.max(hits.get(line) ?? 0, block.count));
+      }
+    }
+    return new Map([...hits.entries()].sort(([a], [b]) => a - b));
+  }
+
+  /**
+   * Package of a profile file: the import path of its directory
+   */
+  private static packageOf(file: string): string {
+    return file.includes('/') ? file.slice(0, file.lastIndexOf('/')) : '.';
+  }
+
+  /**
+   * Coverage of one file: statements weighted by block, lines covered when a block on
+   * them ran
+   */
+  private static fileCoverage({ file, path, blocks }: ProfileFile): FileCoverage {
+    const sorted = [...blocks].sort((a, b) =>
+      a.startLine - b.startLine || a.startColumn - b.startColumn
+    );
+    const statements = sorted.reduce((total, block) => total + block.statements, 0);
+    const coveredStatements = sorted
+      .filter((block) => block.count > 0)
+      .reduce((total, block) => total + block.statements, 0);
+    const hits = [...CoverageProfile.lineHits(sorted).values()];
+
+    return {
+      file,
+      path,
+      statements: metric(coveredStatements, statements),
+      // Go profiles have no branch or function data
+      branches: metric(0, 0),
+      functions: metric(0, 0),
+      lines: metric(hits.filter((count) => count > 0).length, hits.length),
+      blocks: sorted,
+    };
+  }
+
+  /**
+   * Group file coverage by package, with package and overall summaries
+   */
+  private static group(
+    mode: CoverageMode | undefined,
+    files: { package: string; coverage: FileCoverage }[],
+  ): CoverageData {
+    const packages = new Map<string, FileCoverage[]>();
+    for (const { package: name, coverage } of files) {
+      packages.set(name, [...(packages.get(name) ?? []), coverage]);
+    }
+
+    const packageArray = [...packages.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, packageFiles]): PackageCoverage => ({
+        package: name,
+        files: packageFiles.sort((a, b) => a.file.localeCompare(b.file)),
+        summary: summarize(packageFiles),
+      }));
+
+    return {
+      mode,
+      packages: packageArray,
+      summary: summarize(packageArray.map((pkg) => pkg.summary)),
+    };
+  }
+}
+
+/**
+ * Coverage metric with its percentage
+ */
+function metric(covered: number, total: number): CoverageMetric {
+  return { total, covered, percentage: total > 0 ? (covered / total) * 100 : 0 };
+}
+
+/**
+ * Sum of several file or package summaries
+ */
+function summarize(parts: CoverageSummary[]): CoverageSummary {
+  const sum = (key: keyof CoverageSummary) =>
+    metric(
+      parts.reduce((total, part) => total + part[key].covered, 0),
+      parts.reduce((total, part) => total + part[key].total, 0),
+    );
+  return {
+    statements: sum('statements'),
+    branches: sum('branches'),
+    functions: sum('functions'),
+    lines: sum('lines'),
+  };
+}
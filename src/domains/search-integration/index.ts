@@ -4,22 +4,29 @@
  */
 
 export type {
+  BenchmarkBaseline,
   BenchmarkComparison,
   BenchmarkDelta,
   BenchmarkResult,
+  CoverageBlock,
   CoverageData,
   CoverageFormat,
   CoverageMetric,
+  CoverageMode,
   CoverageReportRequest,
   CoverageSummary,
   CoverageThreshold,
+  CoverageThresholdFailure,
   FileCoverage,
   PackageCoverage,
+  PackageCoverageThreshold,
   ReportFormat,
   ReportGenerationRequest,
   SearchMatch,
   SearchQuery,
   SearchResult,
+  ShardPackageResult,
+  ShardReport,
 } from './types.ts';
 
 export { CoverageThresholdValue, SearchPattern } from './types.ts';
@@ -32,9 +39,25 @@ export {
 } from './search-service.ts';
 
 export {
+  COVERAGE_REPORT_FILES,
   CoverageAnalyzer,
   type CoverageParser,
   type CoverageReportGenerator,
+  DEFAULT_PROFILE_DIRECTORY,
+  type ProfileAnalysis,
 } from './coverage-analyzer.ts';
 
-export { type FileWriter, ReportGenerator, type TemplateRenderer } from './report-generator.ts';
+export {
+  type FileRemover,
+  type FileWriter,
+  ReportGenerator,
+  type TemplateRenderer,
+} from './report-generator.ts';
+
+export { CoverageProfile, type ProfileFile } from './coverage-profile.ts';
+
+export { CoverageGate } from './coverage-gate.ts';
+
+export { ShardReportMerger } from './shard-report.ts';
+
+export { BenchmarkAnalyzer, DEFAULT_BASELINE_PATH } from './benchmark-analyzer.ts';
@@ -7,8 +7,27 @@ import type { Result } from '../../shared/result.ts';
 import { failure, success } from '../../shared/result.ts';
 import type { DomainError } from '../../shared/errors.ts';
 import { createDomainError } from '../../shared/errors.ts';
-import type { BenchmarkComparison, ReportGenerationRequest } from './types.ts';
-import type { TestExecutionResult } from '../test-execution/types.ts';
+import type {
+  BenchmarkComparison,
+  BenchmarkDelta,
+  BenchmarkResult,
+  ReportGenerationRequest,
+  ShardReport,
+} from './types.ts';
+import type {
+  PackageDiagnostics,
+  RaceReport,
+  TestExecutionResult,
+  TestResult,
+} from '../test-execution/types.ts';
+import { RaceDetector } from '../test-execution/race-detector.ts';
+import { TestDiagnosticParser } from '../test-execution/test-diagnostic-parser.ts';
+import { CompilerDiagnosticParser } from '../static-analysis/diagnostic-parser.ts';
+
+/**
+ * Tests that failed and then passed on retry are reported apart from plain passes
+ */
+const isFlaky = (test: TestResult): boolean => test.status === 'flaky';
 
 /**
  * File writer interface
@@ -17,6 +36,13 @@ export interface FileWriter {
   write(path: string, content: string): Promise<Result<void, Error>>;
 }
 
+/**
+ * File remover interface
+ */
+export interface FileRemover {
+  remove(path: string): Promise<Result<void, Error>>;
+}
+
 /**
  * Template renderer interface
  */
@@ -41,14 +67,21 @@ export class ReportGenerator {
     request: ReportGenerationRequest,
   ): Promise<Result<string, DomainError>> {
     let content: string;
+    const races = RaceDetector.collect(results);
+    const buildFailures = TestDiagnosticParser.collect(results);
 
     switch (request.format.type) {
       case 'json':
-        content = this.generateJsonReport(results, request.format.pretty);
+        content = this.generateJsonReport(results, races, buildFailures, request.format.pretty);
         break;
 
       case 'junit-xml': {
-        const xmlResult = this.generateJunitReport(results, request.format.suiteName);
+        const xmlResult = this.generateJunitReport(
+          results,
+          races,
+          buildFailures,
+          request.format.suiteName,
+        );
         if (!xmlResult.ok) {
           return xmlResult;
         }
@@ -57,16 +90,23 @@ export class ReportGenerator {
       }
 
       case 'tap':
-        content = this.generateTapReport(results, request.format.version);
+        content = this.generateTapReport(results, races, buildFailures, request.format.version);
         break;
 
       case 'markdown':
-        content = this.generateMarkdownReport(results, request.format.includeDetails);
+        content = this.generateMarkdownReport(
+          results,
+          races,
+          buildFailures,
+          request.format.includeDetails,
+        );
         break;
 
       case 'html': {
         const htmlResult = await this.generateHtmlReport(
           results,
+          races,
+          buildFailures,
           request.format.template,
         );
         if (!htmlResult.ok) {
@@ -77,14 +117,33 @@ export class ReportGenerator {
       }
     }
 
-    // Write to file if path provided
-    if (request.outputPath) {
-      const writeResult = await this.writer.write(request.outputPath, content);
+    return this.writeContent(content, request.outputPath);
+  }
+
+  /**
+   * Generate a shard result file
+   */
+  generateShardReport(
+    report: ShardReport,
+    outputPath?: string,
+  ): Promise<Result<string, DomainError>> {
+    return this.writeContent(JSON.stringify(report, null, 2), outputPath);
+  }
+
+  /**
+   * Write report content to a file if a path is provided
+   */
+  private async writeContent(
+    content: string,
+    outputPath?: string,
+  ): Promise<Result<string, DomainError>> {
+    if (outputPath) {
+      const writeResult = await this.writer.write(outputPath, content);
       if (!writeResult.ok) {
         return failure(createDomainError({
           domain: 'search',
           kind: 'FileWriteFailed',
-          details: { path: request.outputPath, error: writeResult.error.message },
+          details: { path: outputPath, error: writeResult.error.message },
         }));
       }
     }
@@ -114,10 +173,12 @@ export class ReportGenerator {
    */
   private generateJsonReport(
     results: TestExecutionResult[],
+    races: RaceReport[],
+    buildFailures: PackageDiagnostics[],
     pretty: boolean,
   ): string {
     const report = {
-      summary: this.generateSummary(results),
+      summary: this.generateSummary(results, races),
       results: results.map((r) => ({
         target: r.target,
         status: r.status,
@@ -125,10 +186,13 @@ export class ReportGenerator {
         packages: r.packages.map((p) => ({
           name: p.name,
           passed: p.passed || false,
+          status: p.status,
           duration: p.duration || 0,
           tests: p.tests,
         })),
       })),
+      races,
+      buildFailures,
       timestamp: new Date().toISOString(),
     };
 
@@ -140,16 +204,20 @@ export class ReportGenerator {
    */
   private generateJunitReport(
     results: TestExecutionResult[],
+    races: RaceReport[],
+    buildFailures: PackageDiagnostics[],
     suiteName: string,
   ): Result<string, DomainError> {
     try {
-      const summary = this.generateSummary(results);
+      const summary = this.generateSummary(results, races);
 
+      // Data races are a suite of their own, one failing case per race; packages that
+      // could not be built are one erroring suite each
       let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
       xml += `<testsuites name="${this.escapeXml(suiteName)}" `;
-      xml += `tests="${summary.totalTests}" `;
-      xml += `failures="${summary.failedTests}" `;
-      xml += `errors="0" `;
+      xml += `tests="${summary.totalTests + races.length + buildFailures.length}" `;
+      xml += `failures="${summary.failedTests + races.length}" `;
+      xml += `errors="${buildFailures.length}" `;
       xml += `time="${(summary.totalDuration / 1000).toFixed(3)}">\n`;
 
       for (const result of results) {
@@ -163,7 +231,13 @@ export class ReportGenerator {
             xml += `    <testcase name="${this.escapeXml(test.name)}" `;
             xml += `time="${((test.duration || 0) / 1000).toFixed(3)}"`;
 
-            if (test.passed) {
+            if (isFlaky(test)) {
+              xml += '>\n';
+              xml += `      <flakyFailure message="${
+                this.escapeXml(test.output || 'Test failed before passing on retry')
+              }"/>\n`;
+              xml += '    </testcase>\n';
+            } else if (test.passed) {
               xml += '/>\n';
             } else {
               xml += '>\n';
@@ -176,6 +250,30 @@ export class ReportGenerator {
         }
       }
 
+      for (const pkg of buildFailures) {
+        xml += `  <testsuite name="${this.escapeXml(pkg.package)}" tests="1" failures="0" `;
+        xml += `errors="1" time="0.000">\n`;
+        xml += `    <testcase name="${pkg.kind}" time="0.000">\n`;
+        xml += `      <error type="${pkg.kind}" message="${
+          this.escapeXml(this.describeBuildFailure(pkg))
+        }">${this.escapeXml(pkg.output)}</error>\n`;
+        xml += '    </testcase>\n';
+        xml += '  </testsuite>\n';
+      }
+
+      if (races.length > 0) {
+        xml += `  <testsuite name="data races" tests="${races.length}" `;
+        xml += `failures="${races.length}" time="0.000">\n`;
+        for (const race of races) {
+          xml += `    <testcase name="${this.escapeXml(race.location)}" time="0.000">\n`;
+          xml += `      <failure type="DataRace" message="${
+            this.escapeXml(`Data race in ${race.packages.join(', ') || 'unknown package'}`)
+          }">${this.escapeXml(this.formatRace(race))}</failure>\n`;
+          xml += '    </testcase>\n';
+        }
+        xml += '  </testsuite>\n';
+      }
+
       xml += '</testsuites>\n';
       return success(xml);
     } catch (error) {
@@ -192,19 +290,23 @@ export class ReportGenerator {
    */
   private generateTapReport(
     results: TestExecutionResult[],
+    races: RaceReport[],
+    buildFailures: PackageDiagnostics[],
     version: number,
   ): string {
     let tap = `TAP version ${version}\n`;
     let testNumber = 0;
-    const summary = this.generateSummary(results);
+    const summary = this.generateSummary(results, races);
 
-    tap += `1..${summary.totalTests}\n`;
+    tap += `1..${summary.totalTests + races.length + buildFailures.length}\n`;
 
     for (const result of results) {
       for (const pkg of result.packages) {
         for (const test of pkg.tests) {
           testNumber++;
-          if (test.passed) {
+          if (isFlaky(test)) {
+            tap += `ok ${testNumber} ${pkg.name}/${test.name} # flaky\n`;
+          } else if (test.passed) {
             tap += `ok ${testNumber} ${pkg.name}/${test.name}\n`;
           } else {
             tap += `not ok ${testNumber} ${pkg.name}/${test.name}\n`;
@@ -218,6 +320,24 @@ export class ReportGenerator {
       }
     }
 
+    for (const pkg of buildFailures) {
+      testNumber++;
+      tap += `not ok ${testNumber} ${pkg.package} [${pkg.kind}]\n`;
+      tap += `  ---\n`;
+      tap += `  message: ${this.describeBuildFailure(pkg)}\n`;
+      tap += `  ---\n`;
+    }
+
+    for (const race of races) {
+      testNumber++;
+      tap += `not ok ${testNumber} data race ${race.location}\n`;
+      tap += `  ---\n`;
+      tap += `  packages: ${race.packages.join(', ')}\n`;
+      tap += `  tests: ${race.tests.join(', ')}\n`;
+      tap += `  occurrences: ${race.occurrences}\n`;
+      tap += `  ---\n`;
+    }
+
     return tap;
   }
 
@@ -226,9 +346,11 @@ export class ReportGenerator {
    */
   private generateMarkdownReport(
     results: TestExecutionResult[],
+    races: RaceReport[],
+    buildFailures: PackageDiagnostics[],
     includeDetails: boolean,
   ): string {
-    const summary = this.generateSummary(results);
+    const summary = this.generateSummary(results, races);
     let md = '# Test Results\n\n';
 
     // Summary
@@ -236,6 +358,9 @@ export class ReportGenerator {
     md += `- **Total Tests**: ${summary.totalTests}\n`;
     md += `- **Passed**: ${summary.passedTests} ✅\n`;
     md += `- **Failed**: ${summary.failedTests} ❌\n`;
+    md += `- **Flaky**: ${summary.flakyTests} ⚠️\n`;
+    md += `- **Data Races**: ${summary.dataRaces} 🏎️\n`;
+    md += `- **Build Failures**: ${buildFailures.length} 🔨\n`;
     md += `- **Pass Rate**: ${summary.passRate.toFixed(1)}%\n`;
     md += `- **Duration**: ${(summary.totalDuration / 1000).toFixed(2)}s\n\n`;
 
@@ -244,13 +369,15 @@ export class ReportGenerator {
 
     for (const result of results) {
       for (const pkg of result.packages) {
-        const passedCount = pkg.tests.filter((t) => t.passed).length;
-        const icon = pkg.passed ? '✅' : '❌';
+        const passedCount = pkg.tests.filter((t) => t.passed && !isFlaky(t)).length;
+        const flakyCount = pkg.tests.filter(isFlaky).length;
+        const icon = pkg.status === 'flaky' ? '⚠️' : pkg.passed ? '✅' : '❌';
 
         md += `### ${pkg.name} ${icon}\n\n`;
         md += `- Tests: ${pkg.tests.length}\n`;
         md += `- Passed: ${passedCount}\n`;
-        md += `- Failed: ${pkg.tests.length - passedCount}\n`;
+        md += `- Failed: ${pkg.tests.length - passedCount - flakyCount}\n`;
+        md += `- Flaky: ${flakyCount}\n`;
         md += `- Duration: ${((pkg.duration || 0) / 1000).toFixed(3)}s\n\n`;
 
         if (includeDetails && pkg.tests.length > 0) {
@@ -258,7 +385,7 @@ export class ReportGenerator {
           md += '|------|--------|----------|\n';
 
           for (const test of pkg.tests) {
-            const testIcon = test.passed ? '✅' : '❌';
+            const testIcon = isFlaky(test) ? '⚠️' : test.passed ? '✅' : '❌';
             md += `| ${test.name} | ${testIcon} | ${((test.duration || 0) / 1000).toFixed(3)}s |\n`;
           }
           md += '\n';
@@ -266,6 +393,39 @@ export class ReportGenerator {
       }
     }
 
+    if (buildFailures.length > 0) {
+      md += '## Build Failures\n\n';
+      for (const pkg of buildFailures) {
+        md += `### ${pkg.package} (${pkg.kind})\n\n`;
+        if (pkg.diagnostics.length > 0) {
+          md += pkg.diagnostics.map((d) => `- \`${CompilerDiagnosticParser.format(d)}\``)
+            .join('\n');
+          md += '\n\n';
+        }
+        if (includeDetails && pkg.output) {
+          md += `\`\`\`\n${pkg.output}\n\`\`\`\n\n`;
+        }
+      }
+    }
+
+    if (races.length > 0) {
+      md += '## Data Races\n\n';
+      md += '| Location | Packages | Tests | Occurrences |\n';
+      md += '|----------|----------|-------|-------------|\n';
+      for (const race of races) {
+        md += `| ${race.location} | ${race.packages.join(', ')} | ${
+          race.tests.join(', ')
+        } | ${race.occurrences} |\n`;
+      }
+      md += '\n';
+
+      if (includeDetails) {
+        for (const race of races) {
+          md += `### ${race.location}\n\n\`\`\`\n${this.formatRace(race)}\n\`\`\`\n\n`;
+        }
+      }
+    }
+
     return md;
   }
 
@@ -274,13 +434,17 @@ export class ReportGenerator {
    */
   private generateHtmlReport(
     results: TestExecutionResult[],
+    races: RaceReport[],
+    buildFailures: PackageDiagnostics[],
     templatePath?: string,
   ): Promise<Result<string, DomainError>> {
-    const summary = this.generateSummary(results);
+    const summary = this.generateSummary(results, races);
     const data = {
       title: 'Test Results',
       summary,
       results,
+      races,
+      buildFailures,
       generated: new Date().toISOString(),
     };
 
@@ -313,10 +477,14 @@ export class ReportGenerator {
       totalTests: number;
       passedTests: number;
       failedTests: number;
+      flakyTests: number;
+      dataRaces: number;
       passRate: number;
       totalDuration: number;
     };
     results: TestExecutionResult[];
+    races: RaceReport[];
+    buildFailures: PackageDiagnostics[];
     generated: string;
   }): string {
     return `<!DOCTYPE html>
@@ -328,6 +496,7 @@ export class ReportGenerator {
     .summary { background: #f0f0f0; padding: 20px; border-radius: 5px; }
     .pass { color: green; }
     .fail { color: red; }
+    .flaky { color: darkorange; }
     table { border-collapse: collapse; width: 100%; margin-top: 20px; }
     th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
     th { background: #f0f0f0; }
@@ -340,6 +509,8 @@ export class ReportGenerator {
     <p>Total Tests: ${data.summary.totalTests}</p>
     <p class="pass">Passed: ${data.summary.passedTests}</p>
     <p class="fail">Failed: ${data.summary.failedTests}</p>
+    <p class="flaky">Flaky: ${data.summary.flakyTests}</p>
+    <p class="fail">Data Races: ${data.summary.dataRaces}</p>
     <p>Pass Rate: ${data.summary.passRate.toFixed(1)}%</p>
     <p>Duration: ${(data.summary.totalDuration / 1000).toFixed(2)}s</p>
   </div>
@@ -350,6 +521,7 @@ export class ReportGenerator {
       <th>Tests</th>
       <th>Passed</th>
       <th>Failed</th>
+      <th>Flaky</th>
       <th>Duration</th>
     </tr>
     ${
@@ -358,14 +530,57 @@ export class ReportGenerator {
     <tr>
       <td>${p.name}</td>
       <td>${p.tests.length}</td>
-      <td class="pass">${p.tests.filter((t) => t.passed).length}</td>
+      <td class="pass">${p.tests.filter((t) => t.passed && !isFlaky(t)).length}</td>
       <td class="fail">${p.tests.filter((t) => !t.passed).length}</td>
+      <td class="flaky">${p.tests.filter(isFlaky).length}</td>
       <td>${((p.duration || 0) / 1000).toFixed(3)}s</td>
     </tr>
     `)
       ).join('')
     }
   </table>
+  ${
+      data.buildFailures.length > 0
+        ? `<h2>Build Failures</h2>
+    ${
+          data.buildFailures.map((pkg) => `
+  <h3 class="fail">${this.escapeXml(pkg.package)} (${pkg.kind})</h3>
+  ${
+            pkg.diagnostics.length > 0
+              ? `<ul>${
+                pkg.diagnostics.map((d) =>
+                  `<li><code>${this.escapeXml(CompilerDiagnosticParser.format(d))}</code></li>`
+                ).join('')
+              }</ul>`
+              : `<pre>${this.escapeXml(pkg.output)}</pre>`
+          }
+    `).join('')
+        }`
+        : ''
+    }
+  ${
+      data.races.length > 0
+        ? `<h2>Data Races</h2>
+  <table>
+    <tr>
+      <th>Location</th>
+      <th>Packages</th>
+      <th>Tests</th>
+      <th>Occurrences</th>
+    </tr>
+    ${
+          data.races.map((race) => `
+    <tr>
+      <td class="fail">${this.escapeXml(race.location)}</td>
+      <td>${this.escapeXml(race.packages.join(', '))}</td>
+      <td>${this.escapeXml(race.tests.join(', '))}</td>
+      <td>${race.occurrences}</td>
+    </tr>
+    `).join('')
+        }
+  </table>`
+        : ''
+    }
   <p><small>Generated: ${data.generated}</small></p>
 </body>
 </html>`;
@@ -378,10 +593,20 @@ export class ReportGenerator {
     let text = 'Benchmark Comparison\n';
     text += '===================\n\n';
 
+    if (comparison.comparison.length === 0) {
+      text += 'No baseline to compare with\n\n';
+      for (const result of comparison.current) {
+        text += `${result.package}/${result.name}: ${this.formatBenchmark(result)}\n`;
+      }
+      return text;
+    }
+
     for (const delta of comparison.comparison) {
+      const [before, after] = this.benchmarkPair(comparison, delta);
       text += `${delta.package}/${delta.name}:\n`;
+      text += `  Time: ${this.formatBenchmark(before)} → ${this.formatBenchmark(after)}\n`;
       text += `  Speed: ${delta.speedChange > 0 ? '+' : ''}${delta.speedChange.toFixed(1)}%`;
-      text += delta.significant ? ' (significant)' : '';
+      text += ` (p=${delta.pValue.toFixed(3)}${delta.significant ? ', significant' : ''})`;
       text += '\n';
       text += `  Allocs: ${delta.allocChange > 0 ? '+' : ''}${delta.allocChange.toFixed(1)}%\n`;
       text += '\n';
@@ -395,41 +620,88 @@ export class ReportGenerator {
    */
   private generateBenchmarkMarkdown(comparison: BenchmarkComparison): string {
     let md = '# Benchmark Comparison\n\n';
-    md += '| Benchmark | Speed Change | Alloc Change | Significant |\n';
-    md += '|-----------|--------------|--------------|-------------|\n';
+
+    if (comparison.comparison.length === 0) {
+      md += 'No baseline to compare with.\n\n';
+      md += '| Benchmark | Time | B/op | allocs/op |\n';
+      md += '|-----------|------|------|-----------|\n';
+      for (const result of comparison.current) {
+        md += `| ${result.package}/${result.name} | ${this.formatBenchmark(result)} | ` +
+          `${result.bytesPerOp} | ${result.allocsPerOp} |\n`;
+      }
+      return md;
+    }
+
+    md += '| Benchmark | Baseline | Current | Speed Change | Alloc Change | p | Significant |\n';
+    md += '|-----------|----------|---------|--------------|--------------|---|-------------|\n';
 
     for (const delta of comparison.comparison) {
+      const [before, after] = this.benchmarkPair(comparison, delta);
       const speedStr = `${delta.speedChange > 0 ? '+' : ''}${delta.speedChange.toFixed(1)}%`;
       const allocStr = `${delta.allocChange > 0 ? '+' : ''}${delta.allocChange.toFixed(1)}%`;
       const sigStr = delta.significant ? '✓' : '';
 
-      md += `| ${delta.package}/${delta.name} | ${speedStr} | ${allocStr} | ${sigStr} |\n`;
+      md += `| ${delta.package}/${delta.name} | ${this.formatBenchmark(before)} | ` +
+        `${this.formatBenchmark(after)} | ${speedStr} | ${allocStr} | ` +
+        `${delta.pValue.toFixed(3)} | ${sigStr} |\n`;
     }
 
     return md;
   }
 
+  /**
+   * Baseline and current result of a compared benchmark
+   */
+  private benchmarkPair(
+    comparison: BenchmarkComparison,
+    delta: BenchmarkDelta,
+  ): [BenchmarkResult | undefined, BenchmarkResult | undefined] {
+    const find = (results: BenchmarkResult[]) =>
+      results.find((r) => r.package === delta.package && r.name === delta.name);
+    return [find(comparison.baseline), find(comparison.current)];
+  }
+
+  /**
+   * Median time per operation with the widest side of its confidence interval, as benchstat
+   * prints it: 1234 ns/op ±3%
+   */
+  private formatBenchmark(result?: BenchmarkResult): string {
+    if (!result) {
+      return '-';
+    }
+    const [low, high] = result.interval ?? [result.nsPerOp, result.nsPerOp];
+    const spread = result.nsPerOp > 0
+      ? Math.max(result.nsPerOp - low, high - result.nsPerOp) / result.nsPerOp * 100
+      : 0;
+    const interval = result.interval ? ` ±${spread.toFixed(0)}%` : ' ±∞';
+    return `${Number(result.nsPerOp.toPrecision(4))} ns/op${interval}`;
+  }
+
   /**
    * Generate summary statistics
    */
-  private generateSummary(results: TestExecutionResult[]): {
+  private generateSummary(results: TestExecutionResult[], races: RaceReport[]): {
     totalTests: number;
     passedTests: number;
     failedTests: number;
+    flakyTests: number;
+    dataRaces: number;
     passRate: number;
     totalDuration: number;
   } {
     let totalTests = 0;
     let passedTests = 0;
     let failedTests = 0;
+    let flakyTests = 0;
     let totalDuration = 0;
 
     for (const result of results) {
       totalDuration += result.duration;
       for (const pkg of result.packages) {
         totalTests += pkg.tests.length;
-        passedTests += pkg.tests.filter((t) => t.passed).length;
+        passedTests += pkg.tests.filter((t) => t.passed && !isFlaky(t)).length;
         failedTests += pkg.tests.filter((t) => !t.passed).length;
+        flakyTests += pkg.tests.filter(isFlaky).length;
       }
     }
 
@@ -439,11 +711,41 @@ export class ReportGenerator {
       totalTests,
       passedTests,
       failedTests,
+      flakyTests,
+      dataRaces: races.length,
       passRate,
       totalDuration,
     };
   }
 
+  /**
+   * One line on why a package could not be tested, naming its first diagnostic
+   */
+  private describeBuildFailure(pkg: PackageDiagnostics): string {
+    const reasons = {
+      'build-failed': 'Build failed',
+      'setup-failed': 'Setup failed',
+      'vet-failed': 'go vet failed',
+      'no-test-files': 'No test files',
+    };
+    const first = pkg.diagnostics[0];
+    return first
+      ? `${reasons[pkg.kind]}: ${CompilerDiagnosticParser.format(first)}`
+      : reasons[pkg.kind];
+  }
+
+  /**
+   * Both accesses of a data race with their stacks, as the race detector prints them
+   */
+  private formatRace(race: RaceReport): string {
+    return race.accesses.map((access) =>
+      [
+        `${access.operation} by goroutine ${access.goroutine}:`,
+        ...access.stack.map((frame) => `  ${frame.function}\n      ${frame.file}:${frame.line}`),
+      ].join('\n')
+    ).join('\n\n');
+  }
+
   /**
    * Escape XML special characters
    */
@@ -36,6 +36,7 @@ export interface GoFileParser {
  */
 export interface TestFunction {
   name: string;
+  kind: 'test' | 'benchmark' | 'example' | 'fuzz';
   line: number;
   isSubtest: boolean;
   parentTest?: string;
@@ -0,0 +1,163 @@
+/**
+ * Shard Reports - Builds, reads and combines the partial result files of sharded runs
+ * Following Totality principle
+ */
+
+import type { Result } from '../../shared/result.ts';
+import { failure, success } from '../../shared/result.ts';
+import type { DomainError } from '../../shared/errors.ts';
+import { createDomainError } from '../../shared/errors.ts';
+import type { CoverageData, ShardPackageResult, ShardReport } from './types.ts';
+import type { TestExecutionResult } from '../test-execution/types.ts';
+import { PackageImportPath } from '../test-execution/types.ts';
+
+/**
+ * Shard Report Merger
+ */
+export class ShardReportMerger {
+  /**
+   * Partial result file of one shard; results are expected one per package
+   */
+  static create(
+    shard: { index: number; total: number },
+    packages: string[],
+    results: { target: string; result: TestExecutionResult }[],
+    coverage?: CoverageData,
+  ): ShardReport {
+    return {
+      version: 1,
+      total: shard.total,
+      shards: [shard.index],
+      packages,
+      results: results.map(({ target, result }): ShardPackageResult => ({
+        target,
+        package: result.target.type === 'package' ? result.target.importPath.getValue() : target,
+        status: result.status === 'flaky' ? 'flaky' : result.success ? 'passed' : 'failed',
+        success: result.success,
+        duration: result.duration,
+        exitCode: result.processResult.exitCode,
+        tests: result.packages.flatMap((pkg) => pkg.tests),
+        output: result.success
+          ? undefined
+          : [result.processResult.stdout, result.processResult.stderr]
+            .filter((text) => text.trim().length > 0).join('\n'),
+      })),
+      coverage,
+    };
+  }
+
+  /**
+   * Read a shard result file
+   */
+  static parse(content: string, source: string): Result<ShardReport, DomainError> {
+    let report: Partial<ShardReport>;
+    try {
+      report = JSON.parse(content);
+    } catch (error) {
+      return failure(createDomainError({
+        domain: 'search',
+        kind: 'ParseFailed',
+        details: { source, reason: error instanceof Error ? error.message : String(error) },
+      }));
+    }
+
+    if (
+      report?.version !== 1 || typeof report.total !== 'number' ||
+      !Array.isArray(report.shards) || !Array.isArray(report.packages) ||
+      !Array.isArray(report.results)
+    ) {
+      return failure(createDomainError({
+        domain: 'search',
+        kind: 'ParseFailed',
+        details: { source, reason: 'not a go-ci shard result file' },
+      }));
+    }
+
+    return success(report as ShardReport);
+  }
+
+  /**
+   * Combine shard reports of one sharded run. Every report must split the packages into
+   * the same number of shards and no shard may appear twice.
+   */
+  static merge(
+    reports: ShardReport[],
+    mergeCoverage: (data: CoverageData[]) => Result<CoverageData, DomainError>,
+  ): Result<ShardReport, DomainError> {
+    const totals = [...new Set(reports.map((report) => report.total))];
+    if (totals.length !== 1) {
+      return failure(createDomainError({
+        domain: 'search',
+        kind: 'MergeFailed',
+        details: { reason: 'reports were split into different numbers of shards', totals },
+      }));
+    }
+
+    const shards = reports.flatMap((report) => report.shards);
+    const duplicates = shards.filter((shard, i) => shards.indexOf(shard) !== i);
+    if (duplicates.length > 0) {
+      return failure(createDomainError({
+        domain: 'search',
+        kind: 'MergeFailed',
+        details: { reason: 'shards appear more than once', shards: [...new Set(duplicates)] },
+      }));
+    }
+
+    const coverage = reports.flatMap((report) => report.coverage ? [report.coverage] : []);
+    const mergedCoverage = coverage.length > 0 ? mergeCoverage(coverage) : undefined;
+    if (mergedCoverage && !mergedCoverage.ok) {
+      return mergedCoverage;
+    }
+
+    return success({
+      version: 1,
+      total: totals[0],
+      shards: shards.sort((a, b) => a - b),
+      packages: reports.flatMap((report) => report.packages),
+      results: reports.flatMap((report) => report.results),
+      coverage: mergedCoverage?.data,
+    });
+  }
+
+  /**
+   * Shards of the run that a report does not contain
+   */
+  static missingShards(report: ShardReport): number[] {
+    return Array.from({ length: report.total }, (_, i) => i + 1)
+      .filter((shard) => !report.shards.includes(shard));
+  }
+
+  /**
+   * Execution results for the report generator, one per package
+   */
+  static toExecutionResults(report: ShardReport): TestExecutionResult[] {
+    return report.results.map((result): TestExecutionResult => {
+      const importPath = PackageImportPath.create(result.package);
+      return {
+        target: importPath.ok
+          ? { type: 'package', importPath: importPath.data }
+          : { type: 'all-packages', pattern: result.target },
+        processResult: {
+          exitCode: result.exitCode,
+          stdout: result.output ?? '',
+          stderr: '',
+          duration: result.duration,
+          killed: false,
+        },
+        startTime: 0,
+        endTime: result.duration,
+        success: result.success,
+        status: result.status,
+        duration: result.duration,
+        packages: [{
+          name: result.package,
+          tests: result.tests,
+          passed: result.success,
+          duration: result.duration,
+          status: result.status,
+          output: result.output,
+        }],
+      };
+    });
+  }
+}
@@ -7,6 +7,7 @@ import type { Result } from '../../shared/result.ts';
 import { failure, success } from '../../shared/result.ts';
 import type { ValidationError } from '../../shared/errors.ts';
 import { createValidationError } from '../../shared/errors.ts';
+import type { TestResult, TestStatus } from '../test-execution/types.ts';
 
 /**
  * Search query types
@@ -47,6 +48,7 @@ export type CoverageFormat = 'text' | 'html' | 'json' | 'cobertura' | 'lcov';
 export interface CoverageReportRequest {
   readonly format: CoverageFormat;
   readonly outputPath?: string;
+  readonly sourceRoot?: string; // module root, for reports with annotated source
   readonly includeGenerated: boolean;
   readonly threshold?: CoverageThreshold;
 }
@@ -61,10 +63,36 @@ export interface CoverageThreshold {
   readonly lines: number;
 }
 
+/**
+ * Minimum statement coverage of the packages matching a pattern, or of the whole run
+ */
+export interface PackageCoverageThreshold {
+  readonly pattern?: string; // e.g. internal/core/...; undefined for the total coverage
+  readonly statements: number; // percent
+}
+
+/**
+ * Coverage threshold missed by a package, or by the whole run
+ */
+export interface CoverageThresholdFailure {
+  readonly package?: string; // undefined for the total coverage
+  readonly pattern?: string;
+  readonly metric: keyof CoverageThreshold;
+  readonly value: number; // percent covered
+  readonly threshold: number; // percent required
+  readonly message: string;
+}
+
+/**
+ * Cover profile mode: set records whether a block ran, count and atomic how often
+ */
+export type CoverageMode = 'set' | 'count' | 'atomic';
+
 /**
  * Coverage data
  */
 export interface CoverageData {
+  readonly mode?: CoverageMode;
   readonly packages: PackageCoverage[];
   readonly summary: CoverageSummary;
 }
@@ -82,11 +110,25 @@ export interface PackageCoverage {
  * File coverage
  */
 export interface FileCoverage {
-  readonly file: string;
+  readonly file: string; // as in the profile: import path of the package and file name
+  readonly path?: string; // relative to the module root, for files of the module
   readonly statements: CoverageMetric;
   readonly branches: CoverageMetric;
   readonly functions: CoverageMetric;
   readonly lines: CoverageMetric;
+  readonly blocks?: CoverageBlock[]; // in source order
+}
+
+/**
+ * Block of a cover profile: statements that always run together
+ */
+export interface CoverageBlock {
+  readonly startLine: number;
+  readonly startColumn: number;
+  readonly endLine: number;
+  readonly endColumn: number;
+  readonly statements: number;
+  readonly count: number; // executions; 0 or 1 in set mode
 }
 
 /**
@@ -118,15 +160,17 @@ export interface BenchmarkComparison {
 }
 
 /**
- * Benchmark result
+ * Benchmark result, summarizing every run of one benchmark (-count)
  */
 export interface BenchmarkResult {
-  readonly name: string;
+  readonly name: string; // without the -GOMAXPROCS suffix
   readonly package: string;
-  readonly iterations: number;
-  readonly nsPerOp: number;
-  readonly allocsPerOp: number;
-  readonly bytesPerOp: number;
+  readonly iterations: number; // median b.N
+  readonly nsPerOp: number; // median
+  readonly allocsPerOp: number; // median
+  readonly bytesPerOp: number; // median
+  readonly samples: number[]; // ns/op of every run
+  readonly interval?: [number, number]; // 95% confidence interval of the median; absent below 6 runs
 }
 
 /**
@@ -135,9 +179,45 @@ export interface BenchmarkResult {
 export interface BenchmarkDelta {
   readonly name: string;
   readonly package: string;
-  readonly speedChange: number; // percentage
-  readonly allocChange: number; // percentage
-  readonly significant: boolean;
+  readonly speedChange: number; // percentage change of ns/op; positive is slower
+  readonly allocChange: number; // percentage change of allocs/op
+  readonly pValue: number; // Mann-Whitney U test of the ns/op samples
+  readonly significant: boolean; // pValue below 0.05
+}
+
+/**
+ * Benchmark baseline file
+ */
+export interface BenchmarkBaseline {
+  readonly version: 1;
+  readonly created: string; // ISO 8601
+  readonly results: BenchmarkResult[];
+}
+
+/**
+ * Outcome of one package in a shard result file
+ */
+export interface ShardPackageResult {
+  readonly target: string; // package pattern, e.g. ./pkg/x
+  readonly package: string; // Go import path
+  readonly status: TestStatus;
+  readonly success: boolean;
+  readonly duration: number; // milliseconds
+  readonly exitCode: number;
+  readonly tests: TestResult[]; // empty unless the shard ran go test -json
+  readonly output?: string; // go test output of failed packages
+}
+
+/**
+ * Shard result file - written by each sharded run and by the merge command
+ */
+export interface ShardReport {
+  readonly version: 1;
+  readonly total: number; // number of shards the packages were split into
+  readonly shards: number[]; // shards contained in this report, counted from 1
+  readonly packages: string[]; // package patterns assigned to those shards
+  readonly results: ShardPackageResult[];
+  readonly coverage?: CoverageData;
 }
 
 /**
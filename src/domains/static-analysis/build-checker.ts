@@ -0,0 +1,111 @@
+/**
+ * Build Checker - Compiles Go packages before tests run
+ * Stateless, following Totality principle
+ */
+
+import { platform } from 'node:process';
+import type { Result } from '../../shared/result.ts';
+import { failure, success } from '../../shared/result.ts';
+import type { DomainError } from '../../shared/errors.ts';
+import { createDomainError } from '../../shared/errors.ts';
+import type { ProcessExecutor } from '../test-execution/test-executor.ts';
+import type { BuildResult, GoBuildOptions } from './types.ts';
+import { CompilerDiagnosticParser } from './diagnostic-parser.ts';
+
+/**
+ * Null device used to discard build artifacts
+ */
+const NULL_DEVICE = platform === 'win32' ? 'NUL' : '/dev/null';
+
+/**
+ * Build command builder - pure function
+ */
+export class GoBuildCommandBuilder {
+  /**
+   * Build go build command arguments
+   */
+  static build(
+    targets: string[],
+    options: GoBuildOptions,
+  ): Result<{ args: string[] }, DomainError> {
+    if (targets.length === 0) {
+      return failure(createDomainError({
+        domain: 'analysis',
+        kind: 'CommandBuildFailed',
+        details: { reason: 'No build targets' },
+      }));
+    }
+
+    // Always discard binaries so main packages don't leave artifacts behind
+    const args = ['go', 'build', '-o', NULL_DEVICE];
+
+    if (options.tags && options.tags.length > 0) {
+      args.push(`-tags=${options.tags.join(',')}`);
+    }
+
+    if (options.buildFlags && options.buildFlags.length > 0) {
+      args.push(...options.buildFlags);
+    }
+
+    args.push(...targets);
+
+    return success({ args });
+  }
+}
+
+/**
+ * Build checker - runs go build and extracts compiler diagnostics
+ */
+export class BuildChecker {
+  constructor(
+    private readonly processExecutor: ProcessExecutor,
+    private readonly workingDirectory: string,
+  ) {}
+
+  /**
+   * Build the given package patterns
+   */
+  async build(
+    targets: string[],
+    options: GoBuildOptions,
+    workingDirectory?: string,
+  ): Promise<Result<BuildResult, DomainError>> {
+    const commandResult = GoBuildCommandBuilder.build(targets, options);
+    if (!commandResult.ok) {
+      return commandResult;
+    }
+
+    const { args } = commandResult.data;
+    const startTime = Date.now();
+
+    const processResult = await this.processExecutor.execute(args, {
+      cwd: workingDirectory || this.workingDirectory,
+      timeout: options.timeout * 1000, // Convert to milliseconds
+    });
+
+    if (!processResult.ok) {
+      return failure(createDomainError({
+        domain: 'analysis',
+        kind: 'ProcessSpawnFailed',
+        details: {
+          command: args.join(' '),
+          error: processResult.error.message,
+        },
+      }));
+    }
+
+    const endTime = Date.now();
+    const diagnostics = CompilerDiagnosticParser.parse(processResult.data.stderr);
+
+    return success({
+      targets,
+      processResult: processResult.data,
+      startTime,
+      endTime,
+      success: processResult.data.exitCode === 0,
+      duration: endTime - startTime,
+      diagnostics,
+      failedPackages: CompilerDiagnosticParser.failedPackages(diagnostics),
+    });
+  }
+}
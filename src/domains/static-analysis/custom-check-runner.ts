@@ -0,0 +1,63 @@
+/**
+ * Custom Check Runner - Runs user-defined commands as pipeline stages
+ * Stateless, following Totality principle
+ */
+
+import type { Result } from '../../shared/result.ts';
+import { failure, success } from '../../shared/result.ts';
+import type { DomainError } from '../../shared/errors.ts';
+import { createDomainError } from '../../shared/errors.ts';
+import type { ProcessExecutor } from '../test-execution/test-executor.ts';
+import type { CustomCheckOptions, CustomCheckResult } from './types.ts';
+
+/**
+ * Custom check runner - a check passes when its command exits with 0
+ */
+export class CustomCheckRunner {
+  constructor(
+    private readonly processExecutor: ProcessExecutor,
+    private readonly workingDirectory: string,
+  ) {}
+
+  /**
+   * Run a named command
+   */
+  async run(
+    name: string,
+    command: string[],
+    options: CustomCheckOptions,
+    workingDirectory?: string,
+  ): Promise<Result<CustomCheckResult, DomainError>> {
+    if (command.length === 0) {
+      return failure(createDomainError({
+        domain: 'analysis',
+        kind: 'CommandBuildFailed',
+        details: { reason: 'Empty custom command', name },
+      }));
+    }
+
+    const processResult = await this.processExecutor.execute(command, {
+      cwd: workingDirectory || this.workingDirectory,
+      timeout: options.timeout * 1000, // Convert to milliseconds
+    });
+
+    if (!processResult.ok) {
+      return failure(createDomainError({
+        domain: 'analysis',
+        kind: 'ProcessSpawnFailed',
+        details: {
+          command: command.join(' '),
+          error: processResult.error.message,
+        },
+      }));
+    }
+
+    return success({
+      name,
+      command,
+      processResult: processResult.data,
+      success: processResult.data.exitCode === 0,
+      duration: processResult.data.duration,
+    });
+  }
+}
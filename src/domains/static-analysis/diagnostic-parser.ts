@@ -0,0 +1,268 @@
+/**
+ * Compiler Diagnostic Parser
+ * Extracts structured diagnostics from Go toolchain output
+ */
+
+import type { CompilerDiagnostic, VetDiagnostic } from './types.ts';
+
+/**
+ * Compiler output patterns
+ */
+const PATTERNS = {
+  // # example.com/module/pkg
+  packageHeader: /^#\s+(\S+)/,
+  // ./pkg/file.go:12:5: undefined: foo
+  diagnostic: /^(\S+?\.go):(\d+)(?::(\d+))?:\s*(.*)$/,
+  // Indented continuation of the previous message
+  continuation: /^\s+\S/,
+  // vet: ./pkg/file.go:3:12: undefined: foo (type-check failure inside vet)
+  vetPrefix: /^vet:\s+/,
+  // /abs/path/file.go:8:2
+  position: /^(.+?):(\d+)(?::(\d+))?$/,
+  // diff ./pkg/file.go.orig ./pkg/file.go (gofmt -d / goimports -d header)
+  diffHeader: /^diff (?:-u )?\S+\.orig (\S+)$/,
+};
+
+/**
+ * Compiler Diagnostic Parser - pure functions
+ */
+export class CompilerDiagnosticParser {
+  /**
+   * Parse compiler output into diagnostics
+   */
+  static parse(output: string): CompilerDiagnostic[] {
+    const diagnostics: CompilerDiagnostic[] = [];
+    let currentPackage: string | undefined;
+    let current: {
+      package?: string;
+      file: string;
+      line: number;
+      column?: number;
+      message: string;
+    } | null = null;
+
+    const flush = (): void => {
+      if (current) {
+        diagnostics.push({ ...current });
+        current = null;
+      }
+    };
+
+    for (const line of output.split('\n')) {
+      const headerMatch = line.match(PATTERNS.packageHeader);
+      if (headerMatch) {
+        flush();
+        currentPackage = headerMatch[1];
+        continue;
+      }
+
+      const diagnosticMatch = line.match(PATTERNS.diagnostic);
+      if (diagnosticMatch) {
+        flush();
+        current = {
+          package: currentPackage,
+          file: diagnosticMatch[1].replace(/^\.\//, ''),
+          line: parseInt(diagnosticMatch[2], 10),
+          column: diagnosticMatch[3] ? parseInt(diagnosticMatch[3], 10) : undefined,
+          message: diagnosticMatch[4].trim(),
+        };
+        continue;
+      }
+
+      if (current && PATTERNS.continuation.test(line)) {
+        current.message = `${current.message}\n${line.trim()}`;
+        continue;
+      }
+
+      flush();
+    }
+
+    flush();
+    return diagnostics;
+  }
+
+  /**
+   * Collect packages that reported diagnostics
+   */
+  static failedPackages(diagnostics: CompilerDiagnostic[]): string[] {
+    const packages = new Set<string>();
+    for (const diagnostic of diagnostics) {
+      if (diagnostic.package) {
+        packages.add(diagnostic.package);
+      }
+    }
+    return Array.from(packages);
+  }
+
+  /**
+   * Format diagnostic as file:line:col: message
+   */
+  static format(diagnostic: CompilerDiagnostic): string {
+    const column = diagnostic.column !== undefined ? `:${diagnostic.column}` : '';
+    return `${diagnostic.file}:${diagnostic.line}${column}: ${diagnostic.message}`;
+  }
+}
+
+/**
+ * go vet -json entry
+ */
+interface VetJsonEntry {
+  posn: string;
+  message: string;
+}
+
+/**
+ * Whether a parsed JSON value is an object keyed by name
+ */
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Whether a -json entry carries the position and message of a finding
+ */
+const isVetJsonEntry = (entry: unknown): entry is VetJsonEntry =>
+  isRecord(entry) && typeof entry.posn === 'string' && typeof entry.message === 'string';
+
+/**
+ * Vet Output Parser - pure functions
+ * Handles both plain-text and -json output, which go vet writes to stderr
+ */
+export class VetOutputParser {
+  /**
+   * Parse go vet output into diagnostics
+   */
+  static parse(output: string): VetDiagnostic[] {
+    const diagnostics: VetDiagnostic[] = [];
+    const textLines: string[] = [];
+    let currentPackage: string | undefined;
+    let jsonLines: string[] | null = null;
+
+    for (const line of output.split('\n')) {
+      // JSON objects start and end at column zero
+      if (jsonLines) {
+        jsonLines.push(line);
+        if (line === '}') {
+          diagnostics.push(...this.parseJsonBlock(jsonLines.join('\n'), currentPackage));
+          jsonLines = null;
+        }
+        continue;
+      }
+
+      if (line === '{') {
+        jsonLines = [line];
+        continue;
+      }
+
+      const headerMatch = line.match(PATTERNS.packageHeader);
+      if (headerMatch) {
+        currentPackage = headerMatch[1];
+      }
+
+      textLines.push(line.replace(PATTERNS.vetPrefix, ''));
+    }
+
+    diagnostics.push(...CompilerDiagnosticParser.parse(textLines.join('\n')));
+    return diagnostics;
+  }
+
+  /**
+   * Parse a single -json block: { package: { analyzer: entries } }
+   */
+  private static parseJsonBlock(block: string, fallbackPackage?: string): VetDiagnostic[] {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(block);
+    } catch {
+      return [];
+    }
+
+    if (!isRecord(parsed)) {
+      return [];
+    }
+
+    const diagnostics: VetDiagnostic[] = [];
+    for (const [pkg, analyzers] of Object.entries(parsed)) {
+      if (!isRecord(analyzers)) {
+        continue;
+      }
+
+      for (const [analyzer, entries] of Object.entries(analyzers)) {
+        // Analyzer failures are reported as { "error": "..." } instead of a list
+        if (!Array.isArray(entries)) {
+          continue;
+        }
+
+        for (const entry of entries.filter(isVetJsonEntry)) {
+          const positionMatch = entry.posn.match(PATTERNS.position);
+          if (!positionMatch) {
+            continue;
+          }
+
+          diagnostics.push({
+            package: pkg || fallbackPackage,
+            analyzer,
+            file: positionMatch[1],
+            line: parseInt(positionMatch[2], 10),
+            column: positionMatch[3] ? parseInt(positionMatch[3], 10) : undefined,
+            message: entry.message,
+          });
+        }
+      }
+    }
+
+    return diagnostics;
+  }
+}
+
+/**
+ * Format Output Parser - pure functions
+ * Handles gofmt/goimports -l listings and -d unified diffs
+ */
+export class FormatOutputParser {
+  /**
+   * Parse a -l listing into file paths
+   */
+  static listedFiles(output: string): string[] {
+    return output
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0)
+      .map((file) => this.normalize(file));
+  }
+
+  /**
+   * Split -d output into one unified diff per file
+   */
+  static splitDiffs(output: string): Map<string, string> {
+    const diffs = new Map<string, string>();
+    let currentFile: string | undefined;
+    let currentLines: string[] = [];
+
+    const flush = () => {
+      if (currentFile) {
+        diffs.set(currentFile, currentLines.join('\n').trimEnd());
+      }
+    };
+
+    for (const line of output.split('\n')) {
+      const headerMatch = line.match(PATTERNS.diffHeader);
+      if (headerMatch) {
+        flush();
+        currentFile = this.normalize(headerMatch[1]);
+        currentLines = [];
+        continue;
+      }
+
+      if (currentFile) {
+        currentLines.push(line);
+      }
+    }
+
+    flush();
+    return diffs;
+  }
+
+  private static normalize(file: string): string {
+    return file.replace(/^\.\//, '');
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Format Checker - Runs gofmt/goimports and collects unformatted files
+ * Stateless, following Totality principle
+ */
+
+import type { Result } from '../../shared/result.ts';
+import { failure, success } from '../../shared/result.ts';
+import type { DomainError } from '../../shared/errors.ts';
+import { createDomainError } from '../../shared/errors.ts';
+import type { ProcessExecutor } from '../test-execution/test-executor.ts';
+import type { ProcessResult } from '../test-execution/types.ts';
+import type { FormatIssue, FormatResult, FormatTool, GoFormatOptions } from './types.ts';
+import { FormatOutputParser } from './diagnostic-parser.ts';
+
+/**
+ * Formatting tools in execution order; goimports is optional
+ */
+const FORMAT_TOOLS: ReadonlyArray<{ tool: FormatTool; required: boolean }> = [
+  { tool: 'gofmt', required: true },
+  { tool: 'goimports', required: false },
+];
+
+/**
+ * Format command builder - pure function
+ */
+export class GoFormatCommandBuilder {
+  /**
+   * Build a -l listing command; with fix, files are rewritten in place
+   */
+  static list(
+    tool: FormatTool,
+    files: string[],
+    options: GoFormatOptions,
+  ): Result<{ args: string[] }, DomainError> {
+    if (files.length === 0) {
+      return failure(createDomainError({
+        domain: 'analysis',
+        kind: 'CommandBuildFailed',
+        details: { reason: 'No files to format', tool },
+      }));
+    }
+
+    const args = options.fix ? [tool, '-l', '-w', ...files] : [tool, '-l', ...files];
+    return success({ args });
+  }
+
+  /**
+   * Build a -d command producing unified diffs
+   */
+  static diff(tool: FormatTool, files: string[]): Result<{ args: string[] }, DomainError> {
+    if (files.length === 0) {
+      return failure(createDomainError({
+        domain: 'analysis',
+        kind: 'CommandBuildFailed',
+        details: { reason: 'No files to diff', tool },
+      }));
+    }
+
+    return success({ args: [tool, '-d', ...files] });
+  }
+}
+
+/**
+ * Format checker - runs every available formatting tool over the given files
+ */
+export class FormatChecker {
+  constructor(
+    private readonly processExecutor: ProcessExecutor,
+    private readonly workingDirectory: string,
+  ) {}
+
+  /**
+   * Check (or fix) formatting of the given files
+   */
+  async check(
+    files: string[],
+    options: GoFormatOptions,
+    workingDirectory?: string,
+  ): Promise<Result<FormatResult, DomainError>> {
+    const cwd = workingDirectory || this.workingDirectory;
+    const startTime = Date.now();
+    const tools: FormatTool[] = [];
+    const skippedTools: FormatTool[] = [];
+    const issues: FormatIssue[] = [];
+    const fixedFiles = new Set<string>();
+    const errors: string[] = [];
+
+    for (const { tool, required } of FORMAT_TOOLS) {
+      const listCommand = GoFormatCommandBuilder.list(tool, files, options);
+      if (!listCommand.ok) {
+        return listCommand;
+      }
+
+      const listResult = await this.run(listCommand.data.args, cwd, options);
+      if (!listResult.ok) {
+        if (!required) {
+          skippedTools.push(tool);
+          continue;
+        }
+        return listResult;
+      }
+
+      tools.push(tool);
+      if (listResult.data.stderr.trim()) {
+        errors.push(listResult.data.stderr.trim());
+      }
+
+      const listed = FormatOutputParser.listedFiles(listResult.data.stdout);
+      if (options.fix) {
+        listed.forEach((file) => fixedFiles.add(file));
+        continue;
+      }
+
+      // goimports also applies gofmt rules, so only report files not already flagged
+      const reported = new Set(issues.map((issue) => issue.file));
+      const unreported = listed.filter((file) => !reported.has(file));
+      if (unreported.length === 0) {
+        continue;
+      }
+
+      const diffCommand = GoFormatCommandBuilder.diff(tool, unreported);
+      if (!diffCommand.ok) {
+        return diffCommand;
+      }
+
+      const diffResult = await this.run(diffCommand.data.args, cwd, options);
+      if (!diffResult.ok) {
+        return diffResult;
+      }
+
+      const diffs = FormatOutputParser.splitDiffs(diffResult.data.stdout);
+      for (const file of unreported) {
+        issues.push({ file, tool, diff: diffs.get(file) ?? '' });
+      }
+    }
+
+    const endTime = Date.now();
+
+    return success({
+      files,
+      tools,
+      skippedTools,
+      startTime,
+      endTime,
+      success: issues.length === 0 && errors.length === 0,
+      duration: endTime - startTime,
+      issues,
+      fixedFiles: [...fixedFiles],
+      errors,
+    });
+  }
+
+  private async run(
+    args: string[],
+    cwd: string,
+    options: GoFormatOptions,
+  ): Promise<Result<ProcessResult, DomainError>> {
+    const processResult = await this.processExecutor.execute(args, {
+      cwd,
+      timeout: options.timeout * 1000, // Convert to milliseconds
+    });
+
+    if (!processResult.ok) {
+      return failure(createDomainError({
+        domain: 'analysis',
+        kind: 'ProcessSpawnFailed',
+        details: {
+          command: args.join(' '),
+          error: processResult.error.message,
+        },
+      }));
+    }
+
+    return success(processResult.data);
+  }
+}
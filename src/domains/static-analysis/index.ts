@@ -0,0 +1,50 @@
+/**
+ * Static Analysis Domain
+ * Exports all public interfaces and implementations
+ */
+
+export type {
+  BuildResult,
+  CompilerDiagnostic,
+  CustomCheckOptions,
+  CustomCheckResult,
+  FormatIssue,
+  FormatResult,
+  FormatTool,
+  GoBuildOptions,
+  GoFormatOptions,
+  GoLintOptions,
+  GoVetOptions,
+  LintIssue,
+  LintResult,
+  LintSeverity,
+  LintToolName,
+  LintToolReport,
+  VetDiagnostic,
+  VetResult,
+} from './types.ts';
+
+export {
+  CompilerDiagnosticParser,
+  FormatOutputParser,
+  VetOutputParser,
+} from './diagnostic-parser.ts';
+
+export { BuildChecker, GoBuildCommandBuilder } from './build-checker.ts';
+
+export { GoVetCommandBuilder, VetAnalyzer } from './vet-analyzer.ts';
+
+export { FormatChecker, GoFormatCommandBuilder } from './format-checker.ts';
+
+export type { LintAdapter } from './lint-adapters.ts';
+export {
+  createLintAdapters,
+  ErrcheckAdapter,
+  GolangciLintAdapter,
+  GosecAdapter,
+  StaticcheckAdapter,
+} from './lint-adapters.ts';
+
+export { LintRunner } from './lint-runner.ts';
+
+export { CustomCheckRunner } from './custom-check-runner.ts';
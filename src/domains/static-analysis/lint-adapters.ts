@@ -0,0 +1,257 @@
+/**
+ * Lint Adapters - Build commands for external lint tools and parse their native output
+ * Pure functions, following Totality principle
+ */
+
+import type { ProcessResult } from '../test-execution/types.ts';
+import type { LintIssue, LintSeverity, LintToolName } from './types.ts';
+
+/**
+ * Lint adapter - one per external tool
+ */
+export interface LintAdapter {
+  readonly tool: LintToolName;
+  readonly golangciLinter?: string; // the same checks as a golangci-lint linter
+  /**
+   * Command for the targets; golangci-lint also enables the given linters
+   */
+  buildCommand(targets: string[], linters?: string[]): string[];
+  parse(result: ProcessResult): LintIssue[];
+  /**
+   * Why the installed version cannot be used, judged from a run that failed because of it
+   */
+  unsupported?(result: ProcessResult): string | undefined;
+}
+
+/**
+ * Lint output patterns
+ */
+const PATTERNS = {
+  // main.go:10:12:	os.Remove("x")
+  errcheckLine: /^(\S+?\.go):(\d+):(\d+):\s*(.*)$/,
+  // gosec reports multi-line ranges as "12-14"
+  lineRange: /^(\d+)/,
+  // golangci-lint v1 rejects the v2 output flags
+  golangciV1: /unknown flag: --output\.json\.path/,
+};
+
+/**
+ * Normalize tool-specific severities
+ */
+const toSeverity = (value: string | undefined, fallback: LintSeverity): LintSeverity => {
+  switch (value?.toLowerCase()) {
+    case 'error':
+    case 'high':
+      return 'error';
+    case 'warning':
+    case 'medium':
+      return 'warning';
+    case 'info':
+    case 'low':
+    case 'ignored':
+      return 'info';
+    default:
+      return fallback;
+  }
+};
+
+/**
+ * Parse JSON without throwing
+ */
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Whether a parsed JSON value is an object
+ */
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * The objects of a JSON array; anything else yields none
+ */
+const objects = (value: unknown): JsonObject[] =>
+  Array.isArray(value) ? value.filter(isObject) : [];
+
+/**
+ * A string field, or undefined when it is missing or of another type
+ */
+const stringOf = (object: JsonObject | undefined, key: string): string | undefined => {
+  const value = object?.[key];
+  return typeof value === 'string' ? value : undefined;
+};
+
+/**
+ * A numeric field, or undefined when it is missing or of another type
+ */
+const numberOf = (object: JsonObject | undefined, key: string): number | undefined => {
+  const value = object?.[key];
+  return typeof value === 'number' ? value : undefined;
+};
+
+/**
+ * golangci-lint v2 run with JSON output on stdout
+ */
+export class GolangciLintAdapter implements LintAdapter {
+  readonly tool = 'golangci-lint' as const;
+
+  buildCommand(targets: string[], linters: string[] = []): string[] {
+    return [
+      'golangci-lint',
+      'run',
+      '--output.json.path=stdout',
+      ...(linters.length > 0 ? [`--enable=${linters.join(',')}`] : []),
+      ...targets,
+    ];
+  }
+
+  unsupported(result: ProcessResult): string | undefined {
+    return PATTERNS.golangciV1.test(result.stderr)
+      ? 'golangci-lint v2 is required; the installed v1 has no --output.json.path'
+      : undefined;
+  }
+
+  parse(result: ProcessResult): LintIssue[] {
+    // The JSON report is a single line; summaries may follow it
+    const reportLine = result.stdout.split('\n').find((line) => line.startsWith('{'));
+    const report = reportLine ? parseJson(reportLine) : undefined;
+
+    return objects(isObject(report) ? report.Issues : undefined).map((issue) => {
+      const pos = isObject(issue.Pos) ? issue.Pos : undefined;
+
+      return {
+        tool: this.tool,
+        ruleId: stringOf(issue, 'FromLinter') ?? 'golangci-lint',
+        severity: toSeverity(stringOf(issue, 'Severity'), 'warning'),
+        file: stringOf(pos, 'Filename') ?? '',
+        line: numberOf(pos, 'Line') ?? 0,
+        column: numberOf(pos, 'Column') || undefined,
+        message: stringOf(issue, 'Text') ?? '',
+      };
+    });
+  }
+}
+
+/**
+ * staticcheck with one JSON object per line
+ */
+export class StaticcheckAdapter implements LintAdapter {
+  readonly tool = 'staticcheck' as const;
+  readonly golangciLinter = 'staticcheck';
+
+  buildCommand(targets: string[]): string[] {
+    return ['staticcheck', '-f', 'json', ...targets];
+  }
+
+  parse(result: ProcessResult): LintIssue[] {
+    const issues: LintIssue[] = [];
+
+    for (const line of result.stdout.split('\n')) {
+      if (!line.startsWith('{')) {
+        continue;
+      }
+
+      const entry = parseJson(line);
+      if (!isObject(entry) || !isObject(entry.location)) {
+        continue;
+      }
+
+      issues.push({
+        tool: this.tool,
+        ruleId: stringOf(entry, 'code') ?? 'staticcheck',
+        severity: toSeverity(stringOf(entry, 'severity'), 'warning'),
+        file: stringOf(entry.location, 'file') ?? '',
+        line: numberOf(entry.location, 'line') ?? 0,
+        column: numberOf(entry.location, 'column') || undefined,
+        message: stringOf(entry, 'message') ?? '',
+      });
+    }
+
+    return issues;
+  }
+}
+
+/**
+ * errcheck has no JSON mode; parse its file:line:col: expression lines
+ */
+export class ErrcheckAdapter implements LintAdapter {
+  readonly tool = 'errcheck' as const;
+  readonly golangciLinter = 'errcheck';
+
+  buildCommand(targets: string[]): string[] {
+    return ['errcheck', ...targets];
+  }
+
+  parse(result: ProcessResult): LintIssue[] {
+    const issues: LintIssue[] = [];
+
+    for (const line of result.stdout.split('\n')) {
+      const match = line.match(PATTERNS.errcheckLine);
+      if (!match) {
+        continue;
+      }
+
+      issues.push({
+        tool: this.tool,
+        ruleId: 'errcheck',
+        severity: 'warning',
+        file: match[1],
+        line: parseInt(match[2], 10),
+        column: parseInt(match[3], 10),
+        message: `error return value not checked: ${match[4].trim()}`,
+      });
+    }
+
+    return issues;
+  }
+}
+
+/**
+ * gosec with a JSON report on stdout
+ */
+export class GosecAdapter implements LintAdapter {
+  readonly tool = 'gosec' as const;
+  readonly golangciLinter = 'gosec';
+
+  buildCommand(targets: string[]): string[] {
+    return ['gosec', '-fmt=json', '-quiet', ...targets];
+  }
+
+  parse(result: ProcessResult): LintIssue[] {
+    const start = result.stdout.indexOf('{');
+    const report = start >= 0 ? parseJson(result.stdout.slice(start)) : undefined;
+
+    return objects(isObject(report) ? report.Issues : undefined).map((issue) => {
+      const column = stringOf(issue, 'column');
+
+      return {
+        tool: this.tool,
+        ruleId: stringOf(issue, 'rule_id') ?? 'gosec',
+        severity: toSeverity(stringOf(issue, 'severity'), 'warning'),
+        file: stringOf(issue, 'file') ?? '',
+        line: parseInt(stringOf(issue, 'line')?.match(PATTERNS.lineRange)?.[1] ?? '0', 10),
+        column: column ? parseInt(column, 10) || undefined : undefined,
+        message: stringOf(issue, 'details') ?? '',
+      };
+    });
+  }
+}
+
+/**
+ * Create the default adapter set, in execution order
+ */
+export function createLintAdapters(): LintAdapter[] {
+  return [
+    new GolangciLintAdapter(),
+    new StaticcheckAdapter(),
+    new ErrcheckAdapter(),
+    new GosecAdapter(),
+  ];
+}
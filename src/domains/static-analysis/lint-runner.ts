@@ -0,0 +1,120 @@
+/**
+ * Lint Runner - Runs external lint tools through their adapters
+ * Stateless, following Totality principle
+ */
+
+import type { Result } from '../../shared/result.ts';
+import { failure, success } from '../../shared/result.ts';
+import type { DomainError } from '../../shared/errors.ts';
+import { createDomainError } from '../../shared/errors.ts';
+import type { ProcessExecutor } from '../test-execution/test-executor.ts';
+import type { GoLintOptions, LintResult, LintToolReport } from './types.ts';
+import type { LintAdapter } from './lint-adapters.ts';
+import { createLintAdapters } from './lint-adapters.ts';
+
+/**
+ * Lint runner - a tool that is not installed is reported as skipped. When golangci-lint
+ * runs, the tools it includes run as its linters instead of on their own.
+ */
+export class LintRunner {
+  constructor(
+    private readonly processExecutor: ProcessExecutor,
+    private readonly workingDirectory: string,
+    private readonly adapters: LintAdapter[] = createLintAdapters(),
+  ) {}
+
+  /**
+   * Lint the given package patterns with every selected tool
+   */
+  async lint(
+    targets: string[],
+    options: GoLintOptions,
+    workingDirectory?: string,
+  ): Promise<Result<LintResult, DomainError>> {
+    if (targets.length === 0) {
+      return failure(createDomainError({
+        domain: 'analysis',
+        kind: 'CommandBuildFailed',
+        details: { reason: 'No lint targets' },
+      }));
+    }
+
+    const tools = options.tools;
+    const adapters = tools
+      ? this.adapters.filter((adapter) => tools.includes(adapter.tool))
+      : this.adapters;
+
+    const startTime = Date.now();
+    const reports: LintToolReport[] = [];
+    const linters = adapters.flatMap((adapter) => adapter.golangciLinter ?? []);
+    let golangci = false;
+
+    for (const adapter of adapters) {
+      if (golangci && adapter.golangciLinter) {
+        reports.push({ tool: adapter.tool, status: 'skipped', reason: 'run by golangci-lint' });
+        continue;
+      }
+
+      const report = await this.runAdapter(adapter, targets, linters, options, workingDirectory);
+      golangci ||= adapter.tool === 'golangci-lint' && report.status !== 'skipped';
+      reports.push(report);
+    }
+
+    const endTime = Date.now();
+
+    return success({
+      targets,
+      startTime,
+      endTime,
+      success: reports.every((report) => report.status !== 'failed'),
+      duration: endTime - startTime,
+      issues: reports.flatMap((report) => report.status === 'skipped' ? [] : report.issues),
+      reports,
+    });
+  }
+
+  private async runAdapter(
+    adapter: LintAdapter,
+    targets: string[],
+    linters: string[],
+    options: GoLintOptions,
+    workingDirectory?: string,
+  ): Promise<LintToolReport> {
+    const command = adapter.buildCommand(targets, linters);
+
+    // Look the tool up first where the executor can, rather than failing to spawn it
+    if (this.processExecutor.locate && !(await this.processExecutor.locate(command[0]))) {
+      return { tool: adapter.tool, status: 'skipped', reason: `${command[0]} is not on PATH` };
+    }
+
+    const processResult = await this.processExecutor.execute(command, {
+      cwd: workingDirectory || this.workingDirectory,
+      timeout: options.timeout * 1000, // Convert to milliseconds
+    });
+
+    if (!processResult.ok) {
+      return {
+        tool: adapter.tool,
+        status: 'skipped',
+        reason: `${adapter.tool} is not available: ${processResult.error.message}`,
+      };
+    }
+
+    const unsupported = processResult.data.exitCode !== 0
+      ? adapter.unsupported?.(processResult.data)
+      : undefined;
+    if (unsupported) {
+      return { tool: adapter.tool, status: 'skipped', reason: unsupported };
+    }
+
+    const issues = adapter.parse(processResult.data);
+
+    return {
+      tool: adapter.tool,
+      status: issues.length === 0 && processResult.data.exitCode === 0 ? 'passed' : 'failed',
+      issues,
+      duration: processResult.data.duration,
+      processResult: processResult.data,
+    };
+  }
+}
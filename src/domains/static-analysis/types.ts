@@ -0,0 +1,182 @@
+/**
+ * Static Analysis Domain Types
+ * Following Totality principle
+ */
+
+import type { ProcessResult } from '../test-execution/types.ts';
+
+/**
+ * Compiler diagnostic (file:line:col: message)
+ */
+export interface CompilerDiagnostic {
+  readonly package?: string;
+  readonly file: string;
+  readonly line: number;
+  readonly column?: number;
+  readonly message: string;
+}
+
+/**
+ * Go build command options
+ */
+export interface GoBuildOptions {
+  readonly timeout: number; // in seconds
+  readonly tags?: string[];
+  readonly buildFlags?: string[];
+}
+
+/**
+ * Build check result
+ */
+export interface BuildResult {
+  readonly targets: string[];
+  readonly processResult: ProcessResult;
+  readonly startTime: number;
+  readonly endTime: number;
+  readonly success: boolean;
+  readonly duration: number; // milliseconds
+  readonly diagnostics: CompilerDiagnostic[];
+  readonly failedPackages: string[];
+}
+
+/**
+ * Vet diagnostic - compiler position plus the reporting analyzer
+ */
+export interface VetDiagnostic extends CompilerDiagnostic {
+  readonly analyzer?: string; // undefined for type-check errors and plain-text output
+}
+
+/**
+ * Go vet command options
+ */
+export interface GoVetOptions {
+  readonly timeout: number; // in seconds
+  readonly json: boolean;
+  readonly tags?: string[];
+}
+
+/**
+ * Vet run result for one invocation
+ */
+export interface VetResult {
+  readonly targets: string[];
+  readonly processResult: ProcessResult;
+  readonly startTime: number;
+  readonly endTime: number;
+  readonly success: boolean;
+  readonly duration: number; // milliseconds
+  readonly diagnostics: VetDiagnostic[];
+}
+
+/**
+ * Formatting tools checked by the format stage
+ */
+export type FormatTool = 'gofmt' | 'goimports';
+
+/**
+ * Format check options
+ */
+export interface GoFormatOptions {
+  readonly timeout: number; // in seconds
+  readonly fix: boolean; // rewrite files in place instead of reporting diffs
+}
+
+/**
+ * Unformatted file reported by a formatting tool
+ */
+export interface FormatIssue {
+  readonly file: string;
+  readonly tool: FormatTool;
+  readonly diff: string; // unified diff, empty when fixed in place
+}
+
+/**
+ * Format check result across all formatting tools
+ */
+export interface FormatResult {
+  readonly files: string[];
+  readonly tools: FormatTool[]; // tools that actually ran
+  readonly skippedTools: FormatTool[]; // optional tools not installed
+  readonly startTime: number;
+  readonly endTime: number;
+  readonly success: boolean;
+  readonly duration: number; // milliseconds
+  readonly issues: FormatIssue[];
+  readonly fixedFiles: string[];
+  readonly errors: string[]; // tool stderr, e.g. syntax errors
+}
+
+/**
+ * External lint tools supported by the lint stage
+ */
+export type LintToolName = 'golangci-lint' | 'staticcheck' | 'errcheck' | 'gosec';
+
+/**
+ * Lint issue severity, normalized across tools
+ */
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Lint issue in the shared shape produced by every adapter
+ */
+export interface LintIssue {
+  readonly tool: LintToolName;
+  readonly ruleId: string; // linter name, check code or rule id
+  readonly severity: LintSeverity;
+  readonly file: string;
+  readonly line: number;
+  readonly column?: number;
+  readonly message: string;
+}
+
+/**
+ * Lint options
+ */
+export interface GoLintOptions {
+  readonly timeout: number; // in seconds
+  readonly tools?: LintToolName[]; // defaults to every registered adapter
+}
+
+/**
+ * Per-tool lint outcome - discriminated union
+ */
+export type LintToolReport =
+  | { tool: LintToolName; status: 'skipped'; reason: string }
+  | {
+    tool: LintToolName;
+    status: 'passed' | 'failed';
+    issues: LintIssue[];
+    duration: number; // milliseconds
+    processResult: ProcessResult;
+  };
+
+/**
+ * Lint run result across all tools
+ */
+export interface LintResult {
+  readonly targets: string[];
+  readonly startTime: number;
+  readonly endTime: number;
+  readonly success: boolean;
+  readonly duration: number; // milliseconds
+  readonly issues: LintIssue[];
+  readonly reports: LintToolReport[];
+}
+
+/**
+ * Custom check options
+ */
+export interface CustomCheckOptions {
+  readonly timeout: number; // in seconds
+}
+
+/**
+ * Custom check result - an arbitrary command run as a pipeline stage
+ */
+export interface CustomCheckResult {
+  readonly name: string;
+  readonly command: string[];
+  readonly processResult: ProcessResult;
+  readonly success: boolean;
+  readonly duration: number; // milliseconds
+}
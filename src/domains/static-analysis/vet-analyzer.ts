@@ -0,0 +1,104 @@
+/**
+ * Vet Analyzer - Runs go vet and collects analyzer diagnostics
+ * Stateless, following Totality principle
+ */
+
+import type { Result } from '../../shared/result.ts';
+import { failure, success } from '../../shared/result.ts';
+import type { DomainError } from '../../shared/errors.ts';
+import { createDomainError } from '../../shared/errors.ts';
+import type { ProcessExecutor } from '../test-execution/test-executor.ts';
+import type { GoVetOptions, VetResult } from './types.ts';
+import { VetOutputParser } from './diagnostic-parser.ts';
+
+/**
+ * Vet command builder - pure function
+ */
+export class GoVetCommandBuilder {
+  /**
+   * Build go vet command arguments
+   */
+  static build(
+    targets: string[],
+    options: GoVetOptions,
+  ): Result<{ args: string[] }, DomainError> {
+    if (targets.length === 0) {
+      return failure(createDomainError({
+        domain: 'analysis',
+        kind: 'CommandBuildFailed',
+        details: { reason: 'No vet targets' },
+      }));
+    }
+
+    const args = ['go', 'vet'];
+
+    if (options.json) {
+      args.push('-json');
+    }
+
+    if (options.tags && options.tags.length > 0) {
+      args.push(`-tags=${options.tags.join(',')}`);
+    }
+
+    args.push(...targets);
+
+    return success({ args });
+  }
+}
+
+/**
+ * Vet analyzer - runs go vet for a group of package patterns
+ */
+export class VetAnalyzer {
+  constructor(
+    private readonly processExecutor: ProcessExecutor,
+    private readonly workingDirectory: string,
+  ) {}
+
+  /**
+   * Vet the given package patterns in a single invocation
+   */
+  async vet(
+    targets: string[],
+    options: GoVetOptions,
+    workingDirectory?: string,
+  ): Promise<Result<VetResult, DomainError>> {
+    const commandResult = GoVetCommandBuilder.build(targets, options);
+    if (!commandResult.ok) {
+      return commandResult;
+    }
+
+    const { args } = commandResult.data;
+    const startTime = Date.now();
+
+    const processResult = await this.processExecutor.execute(args, {
+      cwd: workingDirectory || this.workingDirectory,
+      timeout: options.timeout * 1000, // Convert to milliseconds
+    });
+
+    if (!processResult.ok) {
+      return failure(createDomainError({
+        domain: 'analysis',
+        kind: 'ProcessSpawnFailed',
+        details: {
+          command: args.join(' '),
+          error: processResult.error.message,
+        },
+      }));
+    }
+
+    const endTime = Date.now();
+    const diagnostics = VetOutputParser.parse(processResult.data.stderr);
+
+    return success({
+      targets,
+      processResult: processResult.data,
+      startTime,
+      endTime,
+      // -json exits 0 even when analyzers report findings
+      success: processResult.data.exitCode === 0 && diagnostics.length === 0,
+      duration: endTime - startTime,
+      diagnostics,
+    });
+  }
+}
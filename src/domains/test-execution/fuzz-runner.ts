@@ -0,0 +1,152 @@
+/**
+ * Fuzz Runner
+ * Discovers Go fuzz targets and fuzzes them one at a time within a total time budget
+ */
+
+import type { Result } from '../../shared/result.ts';
+import { failure, success } from '../../shared/result.ts';
+import type { DomainError } from '../../shared/errors.ts';
+import { createDomainError } from '../../shared/errors.ts';
+import type { GoFileParser } from '../search-integration/search-service.ts';
+import type { FileSystem } from '../resource-management/project-scanner.ts';
+import type { TestExecutor } from './test-executor.ts';
+import type { FuzzCrasher, FuzzTarget, FuzzTargetResult, GoTestOptions } from './types.ts';
+
+/**
+ * Lines of go test -fuzz output
+ */
+const PATTERNS = {
+  // Failing input written to testdata/fuzz/FuzzParse/e091e3ffd4df0887
+  written: /^\s*Failing input written to (\S+)$/,
+  // failure while testing seed corpus entry: FuzzParse/e091e3ffd4df0887
+  seed: /^failure while testing seed corpus entry: (\S+)$/,
+  //         parse_test.go:12: unexpected result
+  message: /^\s+(\S+\.go:\d+: .*)$/,
+};
+
+/**
+ * Package to search for fuzz targets
+ */
+export interface FuzzPackage {
+  readonly pattern: string; // e.g. ./internal/parse
+  readonly path: string; // absolute directory
+  readonly testFiles: string[];
+}
+
+/**
+ * Fuzz runner
+ */
+export class FuzzRunner {
+  constructor(
+    private readonly fs: Pick<FileSystem, 'readFile'>,
+    private readonly parser: Pick<GoFileParser, 'parseTestFunctions'>,
+    private readonly executor: Pick<TestExecutor, 'test'>,
+  ) {}
+
+  /**
+   * Fuzz targets of the packages whose names match the pattern, in package order
+   */
+  async discover(
+    packages: FuzzPackage[],
+    pattern: RegExp,
+  ): Promise<Result<FuzzTarget[], DomainError>> {
+    const targets: FuzzTarget[] = [];
+    for (const pkg of packages) {
+      for (const file of pkg.testFiles) {
+        let content: string;
+        try {
+          content = await this.fs.readFile(`${pkg.path}/${file}`);
+        } catch (error) {
+          return failure(createDomainError({
+            domain: 'resource',
+            kind: 'AccessDenied',
+            details: {
+              path: `${pkg.path}/${file}`,
+              error: error instanceof Error ? error.message : String(error),
+            },
+          }));
+        }
+
+        targets.push(
+          ...this.parser.parseTestFunctions(content)
+            .filter((fn) => fn.kind === 'fuzz' && pattern.test(fn.name))
+            .map((fn) => ({ name: fn.name, package: pkg.pattern, file, line: fn.line })),
+        );
+      }
+    }
+    return success(targets);
+  }
+
+  /**
+   * Fuzz each target in turn. The budget left is shared equally by the targets still to
+   * run, so time saved by a target that fails early goes to the ones after it.
+   */
+  async run(
+    targets: FuzzTarget[],
+    budget: number, // seconds for all targets
+    options: GoTestOptions,
+    workingDirectory: string,
+  ): Promise<Result<FuzzTargetResult[], DomainError>> {
+    const results: FuzzTargetResult[] = [];
+    const deadline = Date.now() + budget * 1000;
+
+    for (const [index, target] of targets.entries()) {
+      const remaining = Math.max(0, (deadline - Date.now()) / 1000);
+      const fuzzTime = Math.max(1, Math.floor(remaining / (targets.length - index)));
+
+      const execResult = await this.executor.test(
+        target.package,
+        {
+          ...options,
+          json: false,
+          run: '^$',
+          timeout: options.timeout + fuzzTime,
+          fuzz: { target: target.name, time: fuzzTime },
+        },
+        workingDirectory,
+      );
+      if (!execResult.ok) {
+        return execResult;
+      }
+
+      const { processResult } = execResult.data;
+      results.push({
+        target,
+        fuzzTime,
+        status: processResult.exitCode === 0 ? 'passed' : 'failed',
+        crasher: FuzzRunner.parseCrasher(
+          `${processResult.stdout}\n${processResult.stderr}`,
+          target.package,
+        ),
+        processResult,
+      });
+    }
+
+    return success(results);
+  }
+
+  /**
+   * Failing input reported by go test -fuzz: a new one written to testdata/fuzz, or a
+   * corpus entry that already fails. Paths are made relative to the working directory.
+   */
+  static parseCrasher(output: string, packagePattern: string): FuzzCrasher | undefined {
+    const lines = output.split('\n');
+    const message = lines.map((line) => line.match(PATTERNS.message)?.[1]).find(Boolean) ?? '';
+    const inPackage = (path: string) =>
+      packagePattern === '.' ? path : `${packagePattern.replace(/^\.\//, '')}/${path}`;
+
+    for (const line of lines) {
+      const written = line.match(PATTERNS.written);
+      if (written) {
+        return { input: inPackage(written[1]), message, new: true };
+      }
+      const seed = line.match(PATTERNS.seed);
+      if (seed) {
+        // Seeds added with f.Add have no file: FuzzParse/seed#0
+        const input = /\/seed#\d+$/.test(seed[1]) ? seed[1] : inPackage(`testdata/fuzz/${seed[1]}`);
+        return { input, message, new: false };
+      }
+    }
+    return undefined;
+  }
+}
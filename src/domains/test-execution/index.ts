@@ -6,18 +6,45 @@
 export type {
   ExecutionTarget,
   ExitCodeClassification,
+  FuzzCrasher,
+  FuzzTarget,
+  FuzzTargetResult,
   GoTestOptions,
+  PackageDiagnostics,
+  PackageProblemKind,
+  ProcessOutputLine,
   ProcessResult,
+  RaceAccess,
+  RaceFrame,
+  RaceReport,
+  TestEvent,
+  TestEventAction,
+  TestEventListener,
   TestExecutionResult,
+  TestPackageResult,
+  TestResult,
+  TestStatus,
 } from './types.ts';
 
 export { classifyExitCode, DirectoryPath, FilePath, PackageImportPath, TestName } from './types.ts';
 
 export { GoTestCommandBuilder, type ProcessExecutor, TestExecutor } from './test-executor.ts';
 
+export { TestEventParser } from './test-event-parser.ts';
+
+export { TestDiagnosticParser } from './test-diagnostic-parser.ts';
+
+export { type ParallelConfig, ParallelTestExecutor, splitByPackage } from './parallel-executor.ts';
+
 export {
   type CoverageInfo,
   type TestAnalysis,
   type TestFailure,
   TestResultAnalyzer,
 } from './result-analyzer.ts';
+
+export { FlakyTestDetector } from './flaky-detector.ts';
+
+export { RaceDetector } from './race-detector.ts';
+
+export { FuzzRunner } from './fuzz-runner.ts';
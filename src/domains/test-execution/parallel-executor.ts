@@ -6,9 +6,34 @@
 import type { Result } from '../../shared/result.ts';
 import { failure, success } from '../../shared/result.ts';
 import type { DomainError } from '../../shared/errors.ts';
-import type { GoTestOptions, TestExecutionResult } from './types.ts';
+import type {
+  GoTestOptions,
+  TestEventListener,
+  TestExecutionResult,
+  TestPackageResult,
+  TestStatus,
+} from './types.ts';
 import { PackageImportPath } from './types.ts';
 import type { TestExecutor } from './test-executor.ts';
+import { TestEventParser } from './test-event-parser.ts';
+
+/**
+ * Package summary lines printed by go test, with and without -json
+ */
+const PATTERNS = {
+  // ok      package/name    0.123s
+  // ok      package/name    (cached)
+  // FAIL    package/name    0.123s
+  // FAIL    package/name [build failed]
+  // ?       package/name    [no test files]
+  summary: /^(ok|FAIL|\?)\s+(\S+)\s+(?:([0-9.]+)s|\(cached\)|\[)/,
+};
+
+const SUMMARY_STATUS: Record<string, TestStatus> = {
+  ok: 'passed',
+  FAIL: 'failed',
+  '?': 'skipped',
+};
 
 /**
  * Parallel execution configuration
@@ -17,6 +42,8 @@ export interface ParallelConfig {
   readonly maxConcurrency: number;
   readonly batchSize: number;
   readonly failFast: boolean;
+  readonly historicalData?: ReadonlyMap<string, number>; // package durations of earlier runs, ms
+  readonly batchOptions?: (options: GoTestOptions) => GoTestOptions; // e.g. a cover profile per batch
 }
 
 /**
@@ -42,6 +69,8 @@ export class ParallelTestExecutor {
   async executeParallel(
     packages: string[],
     options: GoTestOptions,
+    workingDirectory?: string,
+    onEvent?: TestEventListener,
   ): Promise<Result<TestExecutionResult[], DomainError>> {
     if (packages.length === 0) {
       return success([]);
@@ -51,17 +80,39 @@ export class ParallelTestExecutor {
     const batches = this.createBatches(packages);
 
     // Execute batches with concurrency control
-    const results = await this.executeBatches(batches, options);
+    const results = await this.executeBatches(batches, options, workingDirectory, onEvent);
 
     return results;
   }
 
   /**
-   * Create optimized batches for parallel execution
+   * Create optimized batches for parallel execution. With historical durations, packages
+   * are packed longest first into the least loaded batch and the longest batches run first,
+   * so no worker is left with a long batch at the end.
    */
   private createBatches(packages: string[]): TestBatch[] {
     const batches: TestBatch[] = [];
-    const batchSize = this.config.batchSize;
+    const batchSize = Math.max(1, this.config.batchSize);
+    const historicalData = this.config.historicalData;
+
+    if (historicalData && packages.some((pkg) => historicalData.has(pkg))) {
+      const duration = estimator(packages, historicalData);
+      const bins = Array.from(
+        { length: Math.ceil(packages.length / batchSize) },
+        () => ({ packages: [] as string[], load: 0 }),
+      );
+
+      for (const pkg of this.optimizeExecutionOrder(packages, historicalData)) {
+        const open = bins.filter((bin) => bin.packages.length < batchSize);
+        const lightest = open.reduce((min, bin) => bin.load < min.load ? bin : min);
+        lightest.packages.push(pkg);
+        lightest.load += duration(pkg);
+      }
+
+      return bins
+        .sort((a, b) => b.load - a.load)
+        .map((bin, priority) => ({ packages: bin.packages, priority }));
+    }
 
     // Sort packages by estimated complexity (simple heuristic: path depth)
     const sortedPackages = [...packages].sort((a, b) => {
@@ -82,127 +133,194 @@ export class ParallelTestExecutor {
   }
 
   /**
-   * Execute batches with concurrency control
+   * Execute batches on a bounded pool of workers, keeping results in batch order.
+   * With failFast, no new batch starts once one has failed.
    */
   private async executeBatches(
     batches: TestBatch[],
     options: GoTestOptions,
+    workingDirectory?: string,
+    onEvent?: TestEventListener,
   ): Promise<Result<TestExecutionResult[], DomainError>> {
-    const results: TestExecutionResult[] = [];
+    const results: TestExecutionResult[][] = batches.map(() => []);
     const errors: DomainError[] = [];
+    let next = 0;
+    let stopped = false;
 
-    // Create a pool of concurrent executions
-    const executing: Promise<void>[] = [];
-
-    for (const batch of batches) {
-      // Wait if we've reached max concurrency
-      if (executing.length >= this.config.maxConcurrency) {
-        await Promise.race(executing);
-      }
+    const worker = async () => {
+      while (!stopped && next < batches.length) {
+        const index = next++;
+        const batch = batches[index];
+        const result = await this.executor.testPackages(
+          batch.packages,
+          this.config.batchOptions?.(options) ?? options,
+          workingDirectory,
+          onEvent,
+        );
 
-      // Execute batch
-      const execution = this.executeBatch(batch, options).then((result) => {
-        if (result.ok) {
-          results.push(...result.data);
-        } else {
+        if (!result.ok) {
           errors.push(result.error);
-
-          // Fail fast if configured
-          if (this.config.failFast) {
-            throw result.error;
-          }
+          results[index] = failedResults(batch.packages, result.error);
+          stopped = this.config.failFast;
+          continue;
         }
 
-        // Remove from executing array
-        const index = executing.indexOf(execution);
-        if (index > -1) {
-          executing.splice(index, 1);
-        }
-      });
-
-      executing.push(execution);
-    }
-
-    // Wait for all remaining executions
-    try {
-      await Promise.all(executing);
-    } catch (error) {
-      if (this.config.failFast) {
-        return failure(error as DomainError);
+        results[index] = splitByPackage(result.data, options.json ?? false);
+        stopped = this.config.failFast && !result.data.success;
       }
-    }
+    };
+
+    const workers = Math.min(Math.max(1, this.config.maxConcurrency), batches.length);
+    await Promise.all(Array.from({ length: workers }, worker));
 
     // Return results even if some batches failed
-    if (errors.length > 0 && results.length === 0) {
+    if (errors.length > 0 && (this.config.failFast || errors.length === batches.length)) {
       return failure(errors[0]);
     }
 
-    return success(results);
-  }
-
-  /**
-   * Execute a single batch
-   */
-  private async executeBatch(
-    batch: TestBatch,
-    options: GoTestOptions,
-  ): Promise<Result<TestExecutionResult[], DomainError>> {
-    const results: TestExecutionResult[] = [];
-
-    // Execute tests in batch sequentially
-    for (const pkg of batch.packages) {
-      const result = await this.executor.test(pkg, options);
-
-      if (result.ok) {
-        results.push(result.data);
-      } else {
-        // Continue with other packages in batch unless fail-fast
-        if (this.config.failFast) {
-          return failure(result.error);
-        }
-
-        // Create a failed result entry
-        const importPath = PackageImportPath.create(pkg);
-        if (importPath.ok) {
-          results.push({
-            target: { type: 'package', importPath: importPath.data },
-            processResult: {
-              exitCode: 1,
-              stdout: '',
-              stderr: `Test execution failed: ${result.error.kind}`,
-              duration: 0,
-              killed: false,
-            },
-            startTime: Date.now(),
-            endTime: Date.now(),
-            success: false,
-            status: 'failed',
-            duration: 0,
-            packages: [{ name: pkg, tests: [] }],
-          });
-        }
-      }
-    }
-
-    return success(results);
+    return success(results.flat());
   }
 
   /**
-   * Optimize execution order based on historical data
+   * Optimize execution order based on historical data: longest first, packages without
+   * history counting as the average one
    */
   optimizeExecutionOrder(
     packages: string[],
-    historicalData?: Map<string, number>,
+    historicalData?: ReadonlyMap<string, number>,
   ): string[] {
     if (!historicalData || historicalData.size === 0) {
       return packages;
     }
 
-    // Sort by historical execution time (fastest first)
-    return [...packages].sort((a, b) => {
-      const timeA = historicalData.get(a) ?? Number.MAX_VALUE;
-      const timeB = historicalData.get(b) ?? Number.MAX_VALUE;
-      return timeA - timeB;
-    });
+    const duration = estimator(packages, historicalData);
+    return [...packages].sort((a, b) => duration(b) - duration(a) || a.localeCompare(b));
   }
 }
+
+/**
+ * Expected duration of a package; the average known duration when it has no history
+ */
+function estimator(
+  packages: string[],
+  historicalData: ReadonlyMap<string, number>,
+): (pkg: string) => number {
+  const known = packages.filter((pkg) => historicalData.has(pkg));
+  const average = known.length > 0
+    ? known.reduce((sum, pkg) => sum + historicalData.get(pkg)!, 0) / known.length
+    : 0;
+  return (pkg) => historicalData.get(pkg) ?? average;
+}
+
+/**
+ * Output collected for one package of a batch
+ */
+interface PackageOutput {
+  readonly lines: string[];
+  status?: TestStatus;
+  duration?: number; // milliseconds
+}
+
+/**
+ * Split the combined result of a multi-package go test run into one result per package.
+ * Output that cannot be attributed to a package leaves the result unsplit.
+ */
+export function splitByPackage(result: TestExecutionResult, json: boolean): TestExecutionResult[] {
+  const outputs = new Map<string, PackageOutput>();
+  const output = (name: string) => {
+    let entry = outputs.get(name);
+    if (!entry) {
+      entry = { lines: [] };
+      outputs.set(name, entry);
+    }
+    return entry;
+  };
+
+  // Text output precedes the summary line of the package it belongs to
+  let chunk: string[] = [];
+  for (const line of result.processResult.stdout.split('\n')) {
+    const event = json ? TestEventParser.parseLine(line) : undefined;
+    if (event?.Package) {
+      output(event.Package).lines.push(line);
+      continue;
+    }
+
+    chunk.push(line);
+    const summary = line.match(PATTERNS.summary);
+    if (summary) {
+      const entry = output(summary[2]);
+      entry.lines.push(...chunk);
+      entry.status = SUMMARY_STATUS[summary[1]];
+      entry.duration = summary[3] ? Math.round(parseFloat(summary[3]) * 1000) : undefined;
+      chunk = [];
+    }
+  }
+
+  if (outputs.size === 0) {
+    return [result];
+  }
+
+  const parsed = new Map(result.packages.map((pkg) => [pkg.name, pkg]));
+  let stderr = result.processResult.stderr;
+
+  return [...outputs.entries()].map(([name, entry]): TestExecutionResult => {
+    const pkg: TestPackageResult | undefined = parsed.get(name);
+    const status = pkg?.status ?? entry.status ?? 'failed';
+    const duration = pkg?.duration ?? entry.duration ?? 0;
+    const importPath = PackageImportPath.create(name);
+
+    // Build errors are reported once, with the first failing package
+    const packageStderr = status === 'failed' ? stderr : '';
+    if (status === 'failed') {
+      stderr = '';
+    }
+
+    return {
+      ...result,
+      target: importPath.ok ? { type: 'package', importPath: importPath.data } : result.target,
+      processResult: {
+        ...result.processResult,
+        exitCode: status === 'failed' ? Math.max(1, result.processResult.exitCode) : 0,
+        stdout: entry.lines.join('\n'),
+        stderr: packageStderr,
+        duration,
+      },
+      success: status !== 'failed',
+      status: status === 'failed' ? 'failed' : 'passed',
+      duration,
+      packages: json
+        ? [pkg ?? { name, tests: [], passed: status !== 'failed', status, duration }]
+        : [],
+    };
+  });
+}
+
+/**
+ * Result entries for the packages of a batch whose go test invocation could not run
+ */
+function failedResults(packages: string[], error: DomainError): TestExecutionResult[] {
+  const now = Date.now();
+  return packages.flatMap((pkg): TestExecutionResult[] => {
+    const importPath = PackageImportPath.create(pkg);
+    if (!importPath.ok) {
+      return [];
+    }
+
+    return [{
+      target: { type: 'package', importPath: importPath.data },
+      processResult: {
+        exitCode: 1,
+        stdout: '',
+        stderr: `Test execution failed: ${error.kind}`,
+        duration: 0,
+        killed: false,
+      },
+      startTime: now,
+      endTime: now,
+      success: false,
+      status: 'failed',
+      duration: 0,
+      packages: [],
+    }];
+  });
+}
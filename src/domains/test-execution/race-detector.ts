@@ -0,0 +1,166 @@
+/**
+ * Race Detector
+ * Parses the WARNING: DATA RACE blocks that go test -race prints into race reports
+ */
+
+import type { RaceAccess, RaceFrame, RaceReport, TestExecutionResult } from './types.ts';
+import { TestEventParser } from './test-event-parser.ts';
+
+/**
+ * Lines of a race detector report
+ */
+const PATTERNS = {
+  start: /^WARNING: DATA RACE$/,
+  end: /^={10,}$/,
+  // Read at 0x00c000014100 by goroutine 7:
+  // Previous write at 0x00c000014100 by main goroutine:
+  access: /^(.+?) at 0x[0-9a-f]+ by (?:goroutine (\d+)|(main) goroutine):$/,
+  // Goroutine 7 (running) created at:
+  goroutine: /^Goroutine (\d+) \(.+\) created at:$/,
+  //       /path/to/file.go:12 +0x3c
+  file: /^\s+(\S+\.go):(\d+)(?:\s+\+0x[0-9a-f]+)?$/,
+  //   example.com/pkg.Func()
+  function: /^\s{2}(\S.*)$/,
+  test: /^\s*--- FAIL: (\S+)/,
+  summary: /^(?:ok|FAIL)\s+(\S+)\s/,
+};
+
+/**
+ * Race report under construction
+ */
+interface RaceBlock {
+  readonly accesses: { operation: string; goroutine: string; stack: RaceFrame[] }[];
+  readonly created: Map<string, RaceFrame[]>;
+  package?: string;
+  test?: string;
+}
+
+/**
+ * Race Detector
+ */
+export class RaceDetector {
+  /**
+   * Parse the race reports of go test output, plain or -json. The package and test of a race
+   * come from the -json events, or else from the FAIL lines printed after the report.
+   */
+  static parse(output: string, packageName?: string): RaceReport[] {
+    const blocks: RaceBlock[] = [];
+    let block: RaceBlock | undefined;
+    let stack: RaceFrame[] | undefined;
+    let fn: string | undefined;
+    let pending: RaceBlock[] = []; // finished blocks waiting for their test or package
+
+    for (const raw of output.split('\n')) {
+      const event = TestEventParser.parseLine(raw);
+      if (event && event.Action !== 'output') {
+        continue;
+      }
+      const line = (event?.Output ?? raw).replace(/\n$/, '');
+
+      if (PATTERNS.start.test(line)) {
+        block = { accesses: [], created: new Map(), package: event?.Package, test: event?.Test };
+        stack = undefined;
+        continue;
+      }
+
+      if (block) {
+        if (PATTERNS.end.test(line)) {
+          blocks.push(block);
+          pending.push(block);
+          block = undefined;
+          continue;
+        }
+
+        const access = line.match(PATTERNS.access);
+        const goroutine = line.match(PATTERNS.goroutine);
+        const file = line.match(PATTERNS.file);
+        if (access) {
+          stack = [];
+          block.accesses.push({ operation: access[1], goroutine: access[2] ?? access[3], stack });
+        } else if (goroutine) {
+          stack = [];
+          block.created.set(goroutine[1], stack);
+        } else if (file && stack && fn) {
+          stack.push({ function: fn, file: file[1], line: parseInt(file[2], 10) });
+          fn = undefined;
+        } else {
+          fn = line.match(PATTERNS.function)?.[1];
+        }
+        continue;
+      }
+
+      // The failing test and the package summary follow the report in plain output
+      const test = line.match(PATTERNS.test);
+      if (test) {
+        pending.filter((b) => !b.test).forEach((b) => b.test = test[1]);
+      }
+      const summary = line.match(PATTERNS.summary);
+      if (summary) {
+        pending.filter((b) => !b.package).forEach((b) => b.package = summary[1]);
+        pending = [];
+      }
+    }
+
+    return blocks
+      .filter((b) => b.accesses.length > 0)
+      .map((b): RaceReport => {
+        const accesses = b.accesses.map((access): RaceAccess => ({
+          ...access,
+          createdAt: b.created.get(access.goroutine) ?? [],
+        }));
+        const pkg = b.package ?? packageName;
+        return {
+          location: RaceDetector.location(accesses),
+          accesses,
+          packages: pkg ? [pkg] : [],
+          tests: b.test ? [b.test] : [],
+          occurrences: 1,
+        };
+      });
+  }
+
+  /**
+   * Races of a set of test results, deduplicated
+   */
+  static collect(results: TestExecutionResult[]): RaceReport[] {
+    return RaceDetector.deduplicate(results.flatMap((result) =>
+      RaceDetector.parse(
+        `${result.processResult.stdout}\n${result.processResult.stderr}`,
+        result.target.type === 'package' ? result.target.importPath.getValue() : undefined,
+      )
+    ));
+  }
+
+  /**
+   * Combine races at the same source locations, keeping the first report's stacks
+   */
+  static deduplicate(reports: RaceReport[]): RaceReport[] {
+    const merged = new Map<string, RaceReport>();
+    for (const report of reports) {
+      const existing = merged.get(report.location);
+      merged.set(
+        report.location,
+        existing
+          ? {
+            ...existing,
+            packages: [...new Set([...existing.packages, ...report.packages])],
+            tests: [...new Set([...existing.tests, ...report.tests])],
+            occurrences: existing.occurrences + report.occurrences,
+          }
+          : report,
+      );
+    }
+    return [...merged.values()];
+  }
+
+  /**
+   * Source locations of both accesses, in a stable order
+   */
+  private static location(accesses: RaceAccess[]): string {
+    return accesses
+      .map((access) => access.stack[0])
+      .map((frame) => frame ? `${frame.file}:${frame.line}` : 'unknown')
+      .sort()
+      .join(' <-> ');
+  }
+}
@@ -7,6 +7,7 @@ import type { Result } from '../../shared/result.ts';
 import { success } from '../../shared/result.ts';
 import type { ExitCodeClassification, TestExecutionResult } from './types.ts';
 import { classifyExitCode } from './types.ts';
+import { TestDiagnosticParser } from './test-diagnostic-parser.ts';
 
 /**
  * Test failure information extracted from output
@@ -37,6 +38,7 @@ export interface TestAnalysis {
   readonly passed: number;
   readonly failed: number;
   readonly skipped: number;
+  readonly flaky: number; // failed, then passed when re-run
   readonly duration: number;
   readonly failures: TestFailure[];
   readonly coverage?: CoverageInfo;
@@ -78,6 +80,10 @@ export class TestResultAnalyzer {
    */
   static analyze(result: TestExecutionResult): Result<TestAnalysis, never> {
     const classification = classifyExitCode(result.processResult);
+    if (result.packages.length > 0) {
+      return success(TestResultAnalyzer.analyzePackages(result, classification));
+    }
+
     const output = result.processResult.stdout + '\n' + result.processResult.stderr;
     const lines = output.split('\n');
 
@@ -86,13 +92,14 @@ export class TestResultAnalyzer {
     let skipped = 0;
     const failures: TestFailure[] = [];
     let coverage: CoverageInfo | undefined;
-    let currentFailure: {
-      package?: string;
-      test?: string;
-      message?: string;
+    // Failed tests are listed before the FAIL summary line that names their package
+    let pending: {
+      test: string;
+      message: string;
       file?: string;
       line?: number;
-    } | null = null;
+    }[] = [];
+    let currentFailure: (typeof pending)[number] | null = null;
 
     // Parse output line by line
     for (let i = 0; i < lines.length; i++) {
@@ -113,6 +120,7 @@ export class TestResultAnalyzer {
           test: failMatch[1],
           message: '',
         };
+        pending.push(currentFailure);
         continue;
       }
 
@@ -124,23 +132,14 @@ export class TestResultAnalyzer {
       }
 
       // Package results
-      const packagePassMatch = line.match(PATTERNS.packagePass);
-      if (packagePassMatch && currentFailure) {
-        currentFailure.package = packagePassMatch[1];
-      }
-
-      const packageFailMatch = line.match(PATTERNS.packageFail);
-      if (packageFailMatch && currentFailure) {
-        currentFailure.package = packageFailMatch[1];
-        if (currentFailure.test && currentFailure.message && currentFailure.package) {
-          failures.push({
-            package: currentFailure.package,
-            test: currentFailure.test,
-            message: currentFailure.message,
-            file: currentFailure.file,
-            line: currentFailure.line,
-          });
+      const packageMatch = line.match(PATTERNS.packageFail) ?? line.match(PATTERNS.packagePass);
+      if (packageMatch) {
+        for (const failure of pending) {
+          if (failure.message) {
+            failures.push({ package: packageMatch[1], ...failure });
+          }
         }
+        pending = [];
         currentFailure = null;
       }
 
@@ -168,17 +167,6 @@ export class TestResultAnalyzer {
       }
     }
 
-    // Finalize any pending failure
-    if (currentFailure && currentFailure.test && currentFailure.message && currentFailure.package) {
-      failures.push({
-        package: currentFailure.package,
-        test: currentFailure.test,
-        message: currentFailure.message,
-        file: currentFailure.file,
-        line: currentFailure.line,
-      });
-    }
-
     // Determine if we should continue
     const shouldContinue = classification.type === 'success' ||
       (classification.type === 'test-failure' && failures.length > 0);
@@ -189,6 +177,7 @@ export class TestResultAnalyzer {
       passed,
       failed,
       skipped,
+      flaky: 0,
       duration: result.endTime - result.startTime,
       failures,
       coverage,
@@ -198,6 +187,53 @@ export class TestResultAnalyzer {
     return success(analysis);
   }
 
+  /**
+   * Analyze per-test results parsed from go test -json
+   */
+  private static analyzePackages(
+    result: TestExecutionResult,
+    classification: ExitCodeClassification,
+  ): TestAnalysis {
+    const tests = result.packages.flatMap((pkg) =>
+      pkg.tests.map((test) => ({ package: pkg.name, test }))
+    );
+
+    const failures: TestFailure[] = tests
+      .filter(({ test }) => test.status === 'failed')
+      .map(({ package: pkg, test }) => {
+        const location = (test.output ?? '').split('\n')
+          .map((line) => line.match(PATTERNS.errorLocation))
+          .find((match) => match !== null);
+        return {
+          package: pkg,
+          test: test.name,
+          message: test.output ?? '',
+          file: location?.[1],
+          line: location ? parseInt(location[2], 10) : undefined,
+        };
+      });
+
+    const coverageMatch = result.packages
+      .map((pkg) => pkg.output?.match(PATTERNS.coverage))
+      .find((match) => match);
+
+    return {
+      executionResult: result,
+      classification,
+      passed: tests.filter(({ test }) => test.status === 'passed').length,
+      failed: failures.length,
+      skipped: tests.filter(({ test }) => test.status === 'skipped').length,
+      flaky: tests.filter(({ test }) => test.status === 'flaky').length,
+      duration: result.endTime - result.startTime,
+      failures,
+      coverage: coverageMatch
+        ? { percentage: parseFloat(coverageMatch[1]), statements: 0, covered: 0 }
+        : undefined,
+      shouldContinue: classification.type === 'success' ||
+        (classification.type === 'test-failure' && failures.length > 0),
+    };
+  }
+
   /**
    * Extract package information from output
    */
@@ -217,19 +253,21 @@ export class TestResultAnalyzer {
   }
 
   /**
-   * Check if output indicates a build error
+   * Check if output indicates that a package could not be built or tested.
+   * Package loading errors stop go test before any package is marked, so they are
+   * still recognized by their message.
    */
   static hasBuildError(output: string): boolean {
-    const buildErrorPatterns = [
+    const loadErrorPatterns = [
       /cannot find package/,
-      /undefined:/,
       /cannot find module/,
       /no Go files in/,
       /build constraints exclude all Go files/,
       /import cycle not allowed/,
     ];
 
-    return buildErrorPatterns.some((pattern) => pattern.test(output));
+    return TestDiagnosticParser.parse(output).some((pkg) => pkg.kind !== 'no-test-files') ||
+      loadErrorPatterns.some((pattern) => pattern.test(output));
   }
 
   /**
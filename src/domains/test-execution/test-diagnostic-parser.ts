@@ -0,0 +1,147 @@
+/**
+ * Test Diagnostic Parser
+ * Finds the packages whose tests go test could not run, and why, from its output
+ */
+
+import { CompilerDiagnosticParser } from '../static-analysis/diagnostic-parser.ts';
+import type { PackageDiagnostics, PackageProblemKind, TestExecutionResult } from './types.ts';
+import { TestEventParser } from './test-event-parser.ts';
+
+/**
+ * Lines of go test output around build problems
+ */
+const PATTERNS = {
+  // # example.com/pkg [example.com/pkg.test] - the suffix marks compiling for the test binary
+  header: /^#\s+(\S+)(\s+\[\S+\.test\])?\s*$/,
+  // FAIL	example.com/pkg [build failed]
+  failed: /^FAIL\s+(\S+)\s+\[(build|setup) failed\]\s*$/,
+  // ?   	example.com/pkg	[no test files]
+  noTestFiles: /^\?\s+(\S+)\s+\[no test files\]\s*$/,
+  // ok  	example.com/pkg	0.123s, FAIL	example.com/pkg	0.123s
+  packageResult: /^(?:ok|FAIL)\s+\S+\s/,
+  // === RUN   TestX, --- FAIL: TestX (0.00s)
+  testOutput: /^(?:===|---) /,
+};
+
+/**
+ * Compiler output block, from its # header to the next package result
+ */
+interface OutputBlock {
+  readonly package: string;
+  readonly testBinary: boolean;
+  readonly lines: string[];
+}
+
+/**
+ * Test Diagnostic Parser - pure functions
+ */
+export class TestDiagnosticParser {
+  /**
+   * Packages reported as [build failed], [setup failed] or [no test files], with the
+   * file:line:col diagnostics printed for them. go test writes the markers to stdout and
+   * the compiler output to stderr, so both are matched by package rather than by order:
+   * - a [build failed] package whose only output comes from compiling the package itself,
+   *   not its test binary, failed go test's vet check
+   * - output for a package without a marker is a failing dependency of the marked packages
+   *   that have no output of their own, or else a package without test files that does
+   *   not compile
+   * Plain and -json output are both accepted.
+   */
+  static parse(output: string): PackageDiagnostics[] {
+    const markers: { package: string; kind: PackageProblemKind }[] = [];
+    const blocks: OutputBlock[] = [];
+    let block: OutputBlock | undefined;
+
+    for (const raw of output.split('\n')) {
+      const event = TestEventParser.parseLine(raw);
+      if (event && event.Output === undefined) {
+        continue;
+      }
+      const line = (event?.Output ?? raw).replace(/\n$/, '');
+
+      const header = line.match(PATTERNS.header);
+      if (header) {
+        block = { package: header[1], testBinary: header[2] !== undefined, lines: [] };
+        blocks.push(block);
+        continue;
+      }
+
+      const failed = line.match(PATTERNS.failed);
+      const noTestFiles = line.match(PATTERNS.noTestFiles);
+      if (failed) {
+        markers.push({
+          package: failed[1],
+          kind: failed[2] === 'setup' ? 'setup-failed' : 'build-failed',
+        });
+      } else if (noTestFiles) {
+        markers.push({ package: noTestFiles[1], kind: 'no-test-files' });
+      }
+
+      if (
+        failed || noTestFiles || PATTERNS.packageResult.test(line) ||
+        PATTERNS.testOutput.test(line)
+      ) {
+        block = undefined;
+      } else {
+        block?.lines.push(line);
+      }
+    }
+
+    const marked = new Set(markers.map((marker) => marker.package));
+    const unmarked = blocks.filter((b) => !marked.has(b.package));
+    const withoutOutput = markers.filter((marker) =>
+      marker.kind !== 'no-test-files' && !blocks.some((b) => b.package === marker.package)
+    );
+
+    const packages = markers.map((marker): PackageDiagnostics => {
+      if (marker.kind === 'no-test-files') {
+        return { ...marker, diagnostics: [], output: '' };
+      }
+      const own = blocks.filter((b) => b.package === marker.package);
+      const vet = marker.kind === 'build-failed' && own.length > 0 &&
+        own.every((b) => !b.testBinary);
+      return {
+        package: marker.package,
+        kind: vet ? 'vet-failed' : marker.kind,
+        ...TestDiagnosticParser.diagnose(own.length > 0 ? own : unmarked),
+      };
+    });
+
+    if (withoutOutput.length === 0) {
+      const names = [...new Set(unmarked.map((b) => b.package))];
+      packages.push(...names.map((name): PackageDiagnostics => ({
+        package: name,
+        kind: 'build-failed',
+        ...TestDiagnosticParser.diagnose(unmarked.filter((b) => b.package === name)),
+      })));
+    }
+
+    return packages;
+  }
+
+  /**
+   * Diagnostics and raw text of compiler output blocks
+   */
+  private static diagnose(
+    blocks: OutputBlock[],
+  ): Pick<PackageDiagnostics, 'diagnostics' | 'output'> {
+    const text = blocks.map((b) => [`# ${b.package}`, ...b.lines].join('\n')).join('\n');
+    return { diagnostics: CompilerDiagnosticParser.parse(text), output: text };
+  }
+
+  /**
+   * Packages of a set of test results that could not be tested, one entry per package
+   */
+  static collect(results: TestExecutionResult[]): PackageDiagnostics[] {
+    const byPackage = new Map<string, PackageDiagnostics>();
+    for (const result of results) {
+      const output = `${result.processResult.stdout}\n${result.processResult.stderr}`;
+      for (const pkg of TestDiagnosticParser.parse(output)) {
+        if (pkg.kind !== 'no-test-files') {
+          byPackage.set(pkg.package, pkg);
+        }
+      }
+    }
+    return [...byPackage.values()];
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Test Event Parser - Folds the go test -json (test2json) event stream into results
+ * Pure functions, following Totality principle
+ */
+
+import type {
+  TestEvent,
+  TestEventAction,
+  TestPackageResult,
+  TestResult,
+  TestStatus,
+} from './types.ts';
+
+/**
+ * Test event patterns
+ */
+const PATTERNS = {
+  // === RUN   TestName, === PAUSE TestName, === CONT  TestName
+  // --- PASS: TestName (0.00s)
+  framing: /^\s*(=== (RUN|PAUSE|CONT|NAME)\s|--- (PASS|FAIL|SKIP|BENCH):\s)/,
+  // ok  	example.com/pkg	0.123s, FAIL	example.com/pkg [build failed],
+  // ?   	example.com/pkg	[no test files]
+  summary: /^(ok|FAIL|\?)\s+(\S+)(?:\s|$)/,
+};
+
+/**
+ * Package actions of plain go test summary lines
+ */
+const SUMMARY_ACTIONS: Record<string, TestEventAction> = {
+  'ok': 'pass',
+  'FAIL': 'fail',
+  '?': 'skip',
+};
+
+const ACTIONS: ReadonlyArray<TestEventAction> = [
+  'start',
+  'run',
+  'pause',
+  'cont',
+  'pass',
+  'fail',
+  'skip',
+  'output',
+  'bench',
+];
+
+const FINAL_STATUS: Partial<Record<TestEventAction, TestStatus>> = {
+  pass: 'passed',
+  fail: 'failed',
+  skip: 'skipped',
+  bench: 'passed',
+};
+
+/**
+ * Accumulated state of one test or package while events arrive
+ */
+interface EventState {
+  status?: TestStatus;
+  elapsed?: number; // seconds
+  output: string[];
+}
+
+interface PackageState extends EventState {
+  readonly tests: Map<string, EventState>;
+}
+
+/**
+ * test2json stream parser
+ */
+export class TestEventParser {
+  /**
+   * Package-level event of a plain go test summary line, as test2json reports it once the
+   * package is done; other lines yield undefined
+   */
+  static parseSummaryLine(line: string): TestEvent | undefined {
+    const match = line.trim().match(PATTERNS.summary);
+    return match ? { Action: SUMMARY_ACTIONS[match[1]], Package: match[2] } : undefined;
+  }
+
+  /**
+   * Parse one line; lines that are not test2json events (e.g. build output) yield undefined
+   */
+  static parseLine(line: string): TestEvent | undefined {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('{')) {
+      return undefined;
+    }
+
+    try {
+      const event = JSON.parse(trimmed) as TestEvent;
+      return ACTIONS.includes(event.Action) ? event : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Parse a complete event stream into per-package results, in order of first appearance
+   */
+  static parse(stdout: string): TestPackageResult[] {
+    const packages = new Map<string, PackageState>();
+
+    for (const line of stdout.split('\n')) {
+      const event = TestEventParser.parseLine(line);
+      if (!event?.Package) {
+        continue;
+      }
+
+      let pkg = packages.get(event.Package);
+      if (!pkg) {
+        pkg = { tests: new Map(), output: [] };
+        packages.set(event.Package, pkg);
+      }
+
+      if (!event.Test) {
+        TestEventParser.apply(pkg, event);
+        continue;
+      }
+
+      let test = pkg.tests.get(event.Test);
+      if (!test) {
+        test = { output: [] };
+        pkg.tests.set(event.Test, test);
+      }
+      TestEventParser.apply(test, event);
+    }
+
+    return [...packages.entries()].map(([name, pkg]) => TestEventParser.toPackageResult(name, pkg));
+  }
+
+  private static apply(state: EventState, event: TestEvent): void {
+    if (event.Output !== undefined) {
+      state.output.push(event.Output);
+    }
+
+    const status = FINAL_STATUS[event.Action];
+    if (status) {
+      state.status = status;
+      state.elapsed = event.Elapsed;
+    }
+  }
+
+  private static toPackageResult(name: string, pkg: PackageState): TestPackageResult {
+    // A test without a final event was cut short, e.g. by a panic or timeout
+    const tests: TestResult[] = [...pkg.tests.entries()].map(([testName, test]) => {
+      const status = test.status ?? 'failed';
+      return {
+        name: testName,
+        passed: status !== 'failed',
+        status,
+        duration: TestEventParser.toMilliseconds(test.elapsed),
+        output: TestEventParser.joinOutput(test.output),
+      };
+    });
+
+    const status = pkg.status === 'failed' || tests.some((test) => test.status === 'failed')
+      ? 'failed'
+      : pkg.status ?? 'passed';
+
+    return {
+      name,
+      tests,
+      passed: status !== 'failed',
+      status,
+      duration: TestEventParser.toMilliseconds(pkg.elapsed),
+      output: TestEventParser.joinOutput(pkg.output),
+    };
+  }
+
+  private static toMilliseconds(seconds: number | undefined): number | undefined {
+    return seconds === undefined ? undefined : Math.round(seconds * 1000);
+  }
+
+  /**
+   * Join captured output, dropping the === RUN / --- PASS framing lines
+   */
+  private static joinOutput(output: string[]): string | undefined {
+    const text = output
+      .filter((line) => !PATTERNS.framing.test(line))
+      .join('')
+      .trimEnd();
+    return text.length > 0 ? text : undefined;
+  }
+}
@@ -11,10 +11,13 @@ import { createDomainError } from '../../shared/errors.ts';
 import type {
   ExecutionTarget,
   GoTestOptions,
+  ProcessOutputLine,
   ProcessResult,
+  TestEventListener,
   TestExecutionResult,
 } from './types.ts';
 import { PackageImportPath } from './types.ts';
+import { TestEventParser } from './test-event-parser.ts';
 
 /**
  * Test command builder - pure function
@@ -31,7 +34,9 @@ export class GoTestCommandBuilder {
     const args = ['go', 'test'];
 
     // Add common flags
-    if (options.verbose) {
+    if (options.json) {
+      args.push('-json');
+    } else if (options.verbose) {
       args.push('-v');
     }
 
@@ -63,6 +68,26 @@ export class GoTestCommandBuilder {
       args.push(`-tags=${options.tags.join(',')}`);
     }
 
+    if (options.run) {
+      args.push('-run', options.run);
+    }
+
+    if (options.bench) {
+      args.push('-bench', options.bench.pattern, '-benchmem', `-count=${options.bench.count}`);
+    }
+
+    if (options.fuzz) {
+      args.push(`-fuzz=^${options.fuzz.target}$`, `-fuzztime=${options.fuzz.time}s`);
+    }
+
+    if (options.coverProfile) {
+      args.push(`-coverprofile=${options.coverProfile}`);
+    }
+
+    if (options.coverPackages && options.coverPackages.length > 0) {
+      args.push(`-coverpkg=${options.coverPackages.join(',')}`);
+    }
+
     // Add target-specific arguments
     switch (target.type) {
       case 'all-packages':
@@ -87,6 +112,10 @@ export class GoTestCommandBuilder {
         args.push(target.importPath.getValue());
         break;
 
+      case 'packages':
+        args.push(...target.importPaths.map((importPath) => importPath.getValue()));
+        break;
+
       default:
         return failure(createDomainError({
           domain: 'execution',
@@ -129,6 +158,27 @@ export interface ProcessExecutor {
       timeout?: number;
     },
   ): Promise<Result<ProcessResult, Error>>;
+
+  /**
+   * Execute while delivering each stdout/stderr line as soon as it is complete.
+   * The result still carries the full output. Without it, callers run execute and
+   * deliver the lines once the process has exited.
+   */
+  executeStreaming?(
+    command: string[],
+    options: {
+      cwd?: string;
+      env?: Record<string, string>;
+      timeout?: number;
+    },
+    onLine: (line: ProcessOutputLine) => void,
+  ): Promise<Result<ProcessResult, Error>>;
+
+  /**
+   * Path of a command found on PATH, undefined when it is not installed.
+   * Looks the command up without running it.
+   */
+  locate?(command: string): Promise<string | undefined>;
 }
 
 /**
@@ -147,10 +197,11 @@ export class TestExecutor {
     packagePath: string,
     options: GoTestOptions,
     workingDirectory?: string,
+    onEvent?: TestEventListener,
   ): Promise<Result<TestExecutionResult, DomainError>> {
     if (packagePath === './...') {
       const target: ExecutionTarget = { type: 'all-packages', pattern: './...' };
-      return this.execute(target, options, undefined, workingDirectory);
+      return this.execute(target, options, undefined, workingDirectory, onEvent);
     }
 
     const importPathResult = PackageImportPath.create(packagePath);
@@ -167,17 +218,48 @@ export class TestExecutor {
       importPath: importPathResult.data,
     };
 
-    return this.execute(target, options, undefined, workingDirectory);
+    return this.execute(target, options, undefined, workingDirectory, onEvent);
+  }
+
+  /**
+   * Execute tests for several package paths in one go test invocation
+   */
+  testPackages(
+    packagePaths: string[],
+    options: GoTestOptions,
+    workingDirectory?: string,
+    onEvent?: TestEventListener,
+  ): Promise<Result<TestExecutionResult, DomainError>> {
+    const importPaths: PackageImportPath[] = [];
+    for (const packagePath of packagePaths) {
+      const importPathResult = PackageImportPath.create(packagePath);
+      if (!importPathResult.ok) {
+        return Promise.resolve(failure(createDomainError({
+          domain: 'execution',
+          kind: 'CommandBuildFailed',
+          details: { message: `Invalid package path: ${packagePath}`, path: packagePath },
+        })));
+      }
+      importPaths.push(importPathResult.data);
+    }
+
+    const target: ExecutionTarget = { type: 'packages', importPaths };
+    return this.execute(target, options, undefined, workingDirectory, onEvent);
   }
 
   /**
-   * Execute tests for a target
+   * Execute tests for a target.
+   * With a listener, events are delivered while the tests run: every test2json event with
+   * -json output, otherwise a package event for each ok, FAIL or ? summary line.
+   * Invocations share their options, so a cover profile gets a number per invocation:
+   * cover.out is written as cover-1.out, cover-2.out, ...
    */
   async execute(
     target: ExecutionTarget,
     options: GoTestOptions,
     env?: Record<string, string>,
     workingDirectory?: string,
+    onEvent?: TestEventListener,
   ): Promise<Result<TestExecutionResult, DomainError>> {
     // Build command
     const commandResult = GoTestCommandBuilder.build(target, options, env);
@@ -189,11 +271,23 @@ export class TestExecutor {
     const startTime = Date.now();
 
     // Execute process
-    const processResult = await this.processExecutor.execute(args, {
+    const processOptions = {
       cwd: workingDirectory || this.workingDirectory,
       env: finalEnv,
       timeout: options.timeout * 1000, // Convert to milliseconds
-    });
+    };
+    const processResult = onEvent
+      ? await this.executeWithLines(args, processOptions, ({ stream, line }) => {
+        const event = stream !== 'stdout'
+          ? undefined
+          : options.json
+          ? TestEventParser.parseLine(line)
+          : TestEventParser.parseSummaryLine(line);
+        if (event) {
+          onEvent(event);
+        }
+      })
+      : await this.processExecutor.execute(args, processOptions);
 
     if (!processResult.ok) {
       return failure(createDomainError({
@@ -217,12 +311,35 @@ export class TestExecutor {
       success: processResult.data.exitCode === 0,
       status: processResult.data.exitCode === 0 ? 'passed' : 'failed',
       duration: endTime - startTime,
-      packages: [], // Will be populated by result analyzer
+      packages: options.json ? TestEventParser.parse(processResult.data.stdout) : [],
+      coverProfile: options.coverProfile,
     };
 
     return success(result);
   }
 
+  /**
+   * Stream output lines where the process executor supports it; otherwise hand them over
+   * once the process has exited
+   */
+  private async executeWithLines(
+    command: string[],
+    options: { cwd?: string; env?: Record<string, string>; timeout?: number },
+    onLine: (line: ProcessOutputLine) => void,
+  ): Promise<Result<ProcessResult, Error>> {
+    if (this.processExecutor.executeStreaming) {
+      return await this.processExecutor.executeStreaming(command, options, onLine);
+    }
+
+    const processResult = await this.processExecutor.execute(command, options);
+    if (processResult.ok) {
+      for (const stream of ['stdout', 'stderr'] as const) {
+        processResult.data[stream].split('\n').forEach((line) => onLine({ stream, line }));
+      }
+    }
+    return processResult;
+  }
+
   /**
    * Execute multiple targets in sequence
    */
@@ -7,6 +7,8 @@ import type { Result } from '../../shared/result.ts';
 import { failure, success } from '../../shared/result.ts';
 import type { ValidationError } from '../../shared/errors.ts';
 import { createValidationError } from '../../shared/errors.ts';
+import type { CompilerDiagnostic } from '../static-analysis/types.ts';
+import { TestDiagnosticParser } from './test-diagnostic-parser.ts';
 
 /**
  * Execution target - Discriminated Union
@@ -15,7 +17,8 @@ export type ExecutionTarget =
   | { type: 'all-packages'; pattern: string }
   | { type: 'directory'; path: DirectoryPath; recursive: boolean }
   | { type: 'file'; path: FilePath; testName?: TestName }
-  | { type: 'package'; importPath: PackageImportPath };
+  | { type: 'package'; importPath: PackageImportPath }
+  | { type: 'packages'; importPaths: PackageImportPath[] };
 
 /**
  * Go test command options
@@ -30,6 +33,12 @@ export interface GoTestOptions {
   readonly parallel?: number;
   readonly tags?: string[];
   readonly buildFlags?: string[];
+  readonly json?: boolean; // -json: populate per-test results from the test2json stream
+  readonly run?: string; // -run pattern selecting the tests to execute
+  readonly bench?: { pattern: string; count: number }; // -bench pattern -benchmem -count
+  readonly fuzz?: { target: string; time: number }; // -fuzz=^target$ -fuzztime in seconds
+  readonly coverProfile?: string; // -coverprofile; each invocation needs its own file
+  readonly coverPackages?: string[]; // -coverpkg patterns instrumented in every package
 }
 
 /**
@@ -44,6 +53,14 @@ export interface ProcessResult {
   readonly killed: boolean;
 }
 
+/**
+ * One complete line of process output, delivered while the process runs
+ */
+export interface ProcessOutputLine {
+  readonly stream: 'stdout' | 'stderr';
+  readonly line: string;
+}
+
 /**
  * Test execution result
  */
@@ -57,8 +74,14 @@ export interface TestExecutionResult {
   readonly status: string;
   readonly duration: number; // milliseconds
   readonly packages: TestPackageResult[];
+  readonly coverProfile?: string; // cover profile written by the invocation
 }
 
+/**
+ * Outcome of a single test or package
+ */
+export type TestStatus = 'passed' | 'failed' | 'skipped' | 'flaky'; // flaky: passed on a retry
+
 /**
  * Test package result (for compatibility with report generator)
  */
@@ -66,7 +89,9 @@ export interface TestPackageResult {
   readonly name: string;
   readonly tests: TestResult[];
   readonly passed?: boolean;
-  readonly duration?: number;
+  readonly duration?: number; // milliseconds
+  readonly status?: TestStatus;
+  readonly output?: string; // output not attributed to a test, e.g. build failures
 }
 
 /**
@@ -74,11 +99,104 @@ export interface TestPackageResult {
  */
 export interface TestResult {
   readonly name: string;
-  readonly passed: boolean;
-  readonly duration?: number;
+  readonly passed: boolean; // skipped tests count as passed
+  readonly duration?: number; // milliseconds
   readonly output?: string;
+  readonly status?: TestStatus;
+}
+
+/**
+ * Stack frame of a data race report
+ */
+export interface RaceFrame {
+  readonly function: string; // e.g. example.com/pkg.Inc()
+  readonly file: string;
+  readonly line: number;
+}
+
+/**
+ * One of the two conflicting memory accesses of a data race
+ */
+export interface RaceAccess {
+  readonly operation: string; // as reported, e.g. Read, Previous write
+  readonly goroutine: string; // goroutine id, or main
+  readonly stack: RaceFrame[];
+  readonly createdAt: RaceFrame[]; // where the goroutine was started; empty for main
+}
+
+/**
+ * Data race reported by the race detector. Races at the same source locations are one
+ * report, whichever packages and tests they were detected in.
+ */
+export interface RaceReport {
+  readonly location: string; // file:line of both accesses, e.g. a.go:5 <-> b.go:9
+  readonly accesses: RaceAccess[]; // the current access, then the previous one
+  readonly packages: string[];
+  readonly tests: string[]; // tests during which the race was detected
+  readonly occurrences: number;
+}
+
+/**
+ * Fuzz target (func FuzzX(f *testing.F)) found in a package's test files
+ */
+export interface FuzzTarget {
+  readonly name: string;
+  readonly package: string; // package pattern, e.g. ./internal/parse
+  readonly file: string;
+  readonly line: number;
+}
+
+/**
+ * Input that makes a fuzz target fail
+ */
+export interface FuzzCrasher {
+  readonly input: string; // corpus file relative to the working directory
+  readonly message: string; // failure output of the target
+  readonly new: boolean; // found by this run rather than already in testdata/fuzz
+}
+
+/**
+ * Outcome of fuzzing one target
+ */
+export interface FuzzTargetResult {
+  readonly target: FuzzTarget;
+  readonly fuzzTime: number; // seconds of the budget given to the target
+  readonly status: 'passed' | 'failed';
+  readonly crasher?: FuzzCrasher;
+  readonly processResult: ProcessResult;
+}
+
+/**
+ * test2json event action
+ */
+export type TestEventAction =
+  | 'start'
+  | 'run'
+  | 'pause'
+  | 'cont'
+  | 'pass'
+  | 'fail'
+  | 'skip'
+  | 'output'
+  | 'bench';
+
+/**
+ * One line of go test -json output
+ */
+export interface TestEvent {
+  readonly Time?: string;
+  readonly Action: TestEventAction;
+  readonly Package?: string;
+  readonly Test?: string;
+  readonly Elapsed?: number; // seconds
+  readonly Output?: string;
 }
 
+/**
+ * Receives go test -json events as they are streamed
+ */
+export type TestEventListener = (event: TestEvent) => void;
+
 /**
  * Directory path - Smart Constructor
  */
@@ -232,16 +350,43 @@ export class PackageImportPath {
 }
 
 /**
- * Exit code classification
+ * Why go test could not run a package's tests
+ * - build-failed: the package, its tests or a dependency do not compile
+ * - setup-failed: an import cannot be resolved, e.g. a missing module
+ * - vet-failed: the vet check go test runs before the tests reported a problem
+ * - no-test-files: nothing to run; not a failure
+ */
+export type PackageProblemKind = 'build-failed' | 'setup-failed' | 'vet-failed' | 'no-test-files';
+
+/**
+ * Package that go test could not test, with the compiler or vet diagnostics printed for it
+ */
+export interface PackageDiagnostics {
+  readonly package: string; // import path
+  readonly kind: PackageProblemKind;
+  readonly diagnostics: CompilerDiagnostic[];
+  readonly output: string; // compiler output, # headers included
+}
+
+/**
+ * Exit code classification. go test exits with 1 both for failing tests and for packages
+ * that cannot be built, so build, setup and vet failures are told apart by their output.
  */
 export type ExitCodeClassification =
   | { type: 'success'; code: 0 }
   | { type: 'test-failure'; code: 1 }
-  | { type: 'build-error'; code: 2 }
+  | { type: 'build-error'; code: number; packages: PackageDiagnostics[] }
+  | { type: 'setup-error'; code: number; packages: PackageDiagnostics[] }
+  | { type: 'vet-error'; code: number; packages: PackageDiagnostics[] }
   | { type: 'timeout'; code: 124 }
   | { type: 'killed'; code: number; signal: string }
   | { type: 'unknown'; code: number };
 
+/**
+ * Output of a failing test, plain or inside -json output events
+ */
+const TEST_FAILED = /--- FAIL: /;
+
 /**
  * Classify exit code
  */
@@ -251,11 +396,26 @@ export const classifyExitCode = (result: ProcessResult): ExitCodeClassification
   }
 
   if (result.exitCode === 1 && !result.killed) {
-    return { type: 'test-failure', code: 1 };
+    // Only a run in which no test failed is a build problem; the worst kind names it
+    const output = `${result.stdout}\n${result.stderr}`;
+    const packages = TestDiagnosticParser.parse(output)
+      .filter((pkg) => pkg.kind !== 'no-test-files');
+    if (packages.length === 0 || TEST_FAILED.test(output)) {
+      return { type: 'test-failure', code: 1 };
+    }
+    const has = (kind: PackageProblemKind) => packages.some((pkg) => pkg.kind === kind);
+    const type = has('build-failed')
+      ? 'build-error'
+      : has('setup-failed')
+      ? 'setup-error'
+      : 'vet-error';
+    return { type, code: 1, packages };
   }
 
   if (result.exitCode === 2) {
-    return { type: 'build-error', code: 2 };
+    const packages = TestDiagnosticParser.parse(result.stderr)
+      .filter((pkg) => pkg.kind !== 'no-test-files');
+    return { type: 'build-error', code: 2, packages };
   }
 
   if (result.exitCode === 124) {
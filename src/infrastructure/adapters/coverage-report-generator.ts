@@ -0,0 +1,276 @@
+/**
+ * Coverage Report Generator Adapter
+ * Writes coverage data as text, JSON, lcov tracefiles, Cobertura XML or an HTML report
+ */
+
+import type { Result } from '../../shared/result.ts';
+import { failure, success } from '../../shared/result.ts';
+import type { CoverageReportGenerator } from '../../domains/search-integration/coverage-analyzer.ts';
+import { CoverageProfile } from '../../domains/search-integration/coverage-profile.ts';
+import type { FileWriter } from '../../domains/search-integration/report-generator.ts';
+import type { FileSystem } from '../../domains/resource-management/project-scanner.ts';
+import type {
+  CoverageData,
+  CoverageFormat,
+  CoverageMetric,
+  FileCoverage,
+} from '../../domains/search-integration/types.ts';
+
+/**
+ * Coverage report generator for Go cover profiles
+ */
+class GoCoverageReportGenerator implements CoverageReportGenerator {
+  constructor(
+    private readonly writer: FileWriter,
+    private readonly fs: Pick<FileSystem, 'exists' | 'readFile' | 'joinPath'>,
+  ) {}
+
+  /**
+   * Render the report and write it when a path is given. Files are named by their path
+   * relative to the module root where known, which is what editors resolve against the
+   * workspace; the HTML report reads their source from sourceRoot.
+   */
+  async generate(
+    data: CoverageData,
+    format: CoverageFormat,
+    outputPath?: string,
+    sourceRoot?: string,
+  ): Promise<Result<string, Error>> {
+    let content: string;
+    switch (format) {
+      case 'json':
+        content = JSON.stringify(data, null, 2);
+        break;
+      case 'text':
+        content = this.generateText(data);
+        break;
+      case 'lcov':
+        content = this.generateLcov(data);
+        break;
+      case 'cobertura':
+        content = this.generateCobertura(data, sourceRoot);
+        break;
+      case 'html':
+        content = await this.generateHtml(data, sourceRoot);
+        break;
+    }
+
+    if (outputPath) {
+      const writeResult = await this.writer.write(outputPath, content);
+      if (!writeResult.ok) {
+        return failure(writeResult.error);
+      }
+    }
+    return success(content);
+  }
+
+  /**
+   * Plain text summary: statements and lines per file, package and in total
+   */
+  private generateText(data: CoverageData): string {
+    const rows: [string, CoverageMetric, CoverageMetric][] = [];
+    for (const pkg of data.packages) {
+      rows.push([pkg.package, pkg.summary.statements, pkg.summary.lines]);
+      for (const file of pkg.files) {
+        rows.push([`  ${fileName(file)}`, file.statements, file.lines]);
+      }
+    }
+    rows.push(['total', data.summary.statements, data.summary.lines]);
+
+    const width = Math.max(...rows.map(([name]) => name.length), 'Package'.length);
+    const column = (metric: CoverageMetric) =>
+      `${metric.percentage.toFixed(1).padStart(5)}% ${
+        `${metric.covered}/${metric.total}`.padStart(11)
+      }`;
+    const lines = [
+      `Coverage${data.mode ? ` (mode: ${data.mode})` : ''}`,
+      '',
+      `${'Package'.padEnd(width)}  ${'Statements'.padEnd(18)}  Lines`,
+      ...rows.map(([name, statements, lines]) =>
+        `${name.padEnd(width)}  ${column(statements)}  ${column(lines)}`
+      ),
+    ];
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * lcov tracefile: one record per file with the hits of every line a block spans.
+   * Go profiles have no function or branch data, so FN and BRDA records are left out.
+   */
+  private generateLcov(data: CoverageData): string {
+    const records = data.packages.flatMap((pkg) => pkg.files).map((file) => {
+      const hits = CoverageProfile.lineHits(file.blocks ?? []);
+      return [
+        'TN:',
+        `SF:${fileName(file)}`,
+        ...[...hits.entries()].map(([line, count]) => `DA:${line},${count}`),
+        `LF:${file.lines.total}`,
+        `LH:${file.lines.covered}`,
+        'end_of_record',
+      ].join('\n');
+    });
+    return records.length > 0 ? `${records.join('\n')}\n` : '';
+  }
+
+  /**
+   * Cobertura XML: a package per Go package and a class per file, with line hits
+   */
+  private generateCobertura(data: CoverageData, sourceRoot?: string): string {
+    const { lines } = data.summary;
+    let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
+    xml += '<!DOCTYPE coverage SYSTEM "http://cobertura.sourceforge.net/xml/coverage-04.dtd">\n';
+    xml += `<coverage line-rate="${rate(lines)}" branch-rate="0" ` +
+      `lines-covered="${lines.covered}" lines-valid="${lines.total}" ` +
+      `branches-covered="0" branches-valid="0" complexity="0" version="" ` +
+      `timestamp="${Date.now()}">\n`;
+    xml += `  <sources>\n    <source>${escapeXml(sourceRoot ?? '.')}</source>\n  </sources>\n`;
+    xml += '  <packages>\n';
+    for (const pkg of data.packages) {
+      xml += `    <package name="${escapeXml(pkg.package)}" ` +
+        `line-rate="${rate(pkg.summary.lines)}" branch-rate="0" complexity="0">\n`;
+      xml += '      <classes>\n';
+      for (const file of pkg.files) {
+        const name = file.file.slice(file.file.lastIndexOf('/') + 1);
+        xml += `        <class name="${escapeXml(name)}" filename="${escapeXml(fileName(file))}" ` +
+          `line-rate="${rate(file.lines)}" branch-rate="0" complexity="0">\n`;
+        xml += '          <methods/>\n';
+        xml += '          <lines>\n';
+        for (const [line, count] of CoverageProfile.lineHits(file.blocks ?? [])) {
+          xml += `            <line number="${line}" hits="${count}" branch="false"/>\n`;
+        }
+        xml += '          </lines>\n';
+        xml += '        </class>\n';
+      }
+      xml += '      </classes>\n';
+      xml += '    </package>\n';
+    }
+    xml += '  </packages>\n';
+    xml += '</coverage>\n';
+    return xml;
+  }
+
+  /**
+   * Self-contained HTML report: a summary table linking to the annotated source of every
+   * file, each line marked covered, uncovered or not compiled to a statement
+   */
+  private async generateHtml(data: CoverageData, sourceRoot?: string): Promise<string> {
+    const files = data.packages.flatMap((pkg) => pkg.files);
+    const rows = files.map((file, index) =>
+      `      <tr><td><a href="#file-${index}">${escapeXml(fileName(file))}</a></td>` +
+      `<td class="num">${file.statements.percentage.toFixed(1)}%</td>` +
+      `<td class="num">${file.statements.covered}/${file.statements.total}</td>` +
+      `<td class="num">${file.lines.covered}/${file.lines.total}</td></tr>`
+    );
+
+    const sections: string[] = [];
+    for (const [index, file] of files.entries()) {
+      const source = await this.readSource(file, sourceRoot);
+      const hits = CoverageProfile.lineHits(file.blocks ?? []);
+      const body = source === undefined
+        ? '<p class="missing">Source not available</p>'
+        : `<pre>${
+          source.replace(/\n$/, '').split('\n').map((text, i) => {
+            const count = hits.get(i + 1);
+            const status = count === undefined ? 'none' : count > 0 ? 'cov' : 'uncov';
+            return `<span class="${status}"><span class="ln">${i + 1}</span>` +
+              `<span class="hits">${count ?? ''}</span>${escapeXml(text)}</span>`;
+          }).join('\n')
+        }</pre>`;
+      sections.push(
+        `  <section id="file-${index}">\n` +
+          `    <h2>${escapeXml(fileName(file))} ` +
+          `<small>${file.statements.percentage.toFixed(1)}%</small></h2>\n` +
+          `    ${body}\n` +
+          `  </section>`,
+      );
+    }
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Coverage Report</title>
+  <style>
+    body { font-family: Arial, sans-serif; margin: 20px; }
+    table { border-collapse: collapse; }
+    th, td { padding: 4px 12px; border-bottom: 1px solid #ddd; text-align: left; }
+    td.num { text-align: right; }
+    pre { background: #fafafa; border: 1px solid #ddd; padding: 8px 0; overflow-x: auto; }
+    pre > span { display: block; padding-right: 8px; }
+    .ln, .hits { display: inline-block; width: 4em; padding-right: 8px; color: #999; text-align: right; }
+    .cov { background: #e6ffed; }
+    .uncov { background: #ffeef0; }
+    .missing { color: #999; }
+  </style>
+</head>
+<body>
+  <h1>Coverage Report</h1>
+  <p>${data.summary.statements.percentage.toFixed(1)}% of statements
+    (${data.summary.statements.covered}/${data.summary.statements.total})${
+      data.mode ? `, mode: ${data.mode}` : ''
+    }</p>
+  <table>
+    <thead>
+      <tr><th>File</th><th>Coverage</th><th>Statements</th><th>Lines</th></tr>
+    </thead>
+    <tbody>
+${rows.join('\n')}
+    </tbody>
+  </table>
+${sections.join('\n')}
+</body>
+</html>
+`;
+  }
+
+  /**
+   * Source of a file of the module; undefined when it lies outside the module or is missing
+   */
+  private async readSource(file: FileCoverage, sourceRoot?: string): Promise<string | undefined> {
+    if (!file.path) {
+      return undefined;
+    }
+    const path = sourceRoot ? this.fs.joinPath(sourceRoot, file.path) : file.path;
+    try {
+      return (await this.fs.exists(path)) ? await this.fs.readFile(path) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Name of a file in reports: relative to the module root where known
+ */
+function fileName(file: FileCoverage): string {
+  return file.path ?? file.file;
+}
+
+/**
+ * Covered fraction as Cobertura writes it
+ */
+function rate(metric: CoverageMetric): string {
+  return metric.total > 0 ? (metric.covered / metric.total).toFixed(4) : '1';
+}
+
+/**
+ * Escape text for XML and HTML
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Create coverage report generator
+ */
+export function createCoverageReportGenerator(
+  writer: FileWriter,
+  fs: Pick<FileSystem, 'exists' | 'readFile' | 'joinPath'>,
+): CoverageReportGenerator {
+  return new GoCoverageReportGenerator(writer, fs);
+}
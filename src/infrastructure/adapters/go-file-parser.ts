@@ -20,6 +20,7 @@ class SimpleGoFileParser implements GoFileParser {
     const testFuncRegex = /^func\s+(Test\w+)\s*\(/;
     const benchmarkFuncRegex = /^func\s+(Benchmark\w+)\s*\(/;
     const exampleFuncRegex = /^func\s+(Example\w*)\s*\(/;
+    const fuzzFuncRegex = /^func\s+(Fuzz\w*)\s*\(\s*\w+\s+\*testing\.F\s*\)/;
     const subtestRegex = /t\.Run\s*\(\s*["'`]([^"'`]+)["'`]/;
 
     for (let i = 0; i < lines.length; i++) {
@@ -31,6 +32,7 @@ class SimpleGoFileParser implements GoFileParser {
       if (match) {
         functions.push({
           name: match[1],
+          kind: 'test',
           line: lineNumber,
           isSubtest: false,
         });
@@ -59,6 +61,7 @@ class SimpleGoFileParser implements GoFileParser {
           if (subtestMatch) {
             functions.push({
               name: subtestMatch[1],
+              kind: 'test',
               line: j + 1,
               isSubtest: true,
               parentTest: match[1],
@@ -73,6 +76,7 @@ class SimpleGoFileParser implements GoFileParser {
       if (match) {
         functions.push({
           name: match[1],
+          kind: 'benchmark',
           line: lineNumber,
           isSubtest: false,
         });
@@ -84,6 +88,19 @@ class SimpleGoFileParser implements GoFileParser {
       if (match) {
         functions.push({
           name: match[1] || 'Example',
+          kind: 'example',
+          line: lineNumber,
+          isSubtest: false,
+        });
+        continue;
+      }
+
+      // Check for fuzz targets, which take *testing.F
+      match = fuzzFuncRegex.exec(line);
+      if (match) {
+        functions.push({
+          name: match[1],
+          kind: 'fuzz',
           line: lineNumber,
           isSubtest: false,
         });
@@ -98,9 +115,10 @@ class SimpleGoFileParser implements GoFileParser {
     const lines = content.split('\n');
 
     let inImportBlock = false;
-    const singleImportRegex = /^import\s+"([^"]+)"/;
+    // Imports may be named: import alias "path", import _ "path", import . "path"
+    const singleImportRegex = /^import\s+(?:[\w.]+\s+)?"([^"]+)"/;
     const importStartRegex = /^import\s*\(/;
-    const importLineRegex = /^\s*"([^"]+)"/;
+    const importLineRegex = /^\s*(?:[\w.]+\s+)?"([^"]+)"/;
 
     for (const line of lines) {
       const trimmed = line.trim();
@@ -3,22 +3,97 @@
  * Implements process execution for test runner
  */
 
+import { join } from '../../deps.ts';
 import type { Result } from '../../shared/result.ts';
 import { failure, success } from '../../shared/result.ts';
 import type { ProcessExecutor } from '../../domains/test-execution/test-executor.ts';
-import type { ProcessResult } from '../../domains/test-execution/types.ts';
+import type { ProcessOutputLine, ProcessResult } from '../../domains/test-execution/types.ts';
+
+type ExecuteOptions = {
+  cwd?: string;
+  env?: Record<string, string>;
+  timeout?: number;
+};
+
+/**
+ * Read a stream to the end, passing each complete line to onLine as it arrives
+ */
+async function readLines(
+  stream: ReadableStream<Uint8Array>,
+  onLine?: (line: string) => void,
+): Promise<string> {
+  const decoder = new TextDecoder();
+  let text = '';
+  let pending = '';
+
+  const take = (chunk: string) => {
+    text += chunk;
+    if (!onLine) {
+      return;
+    }
+    pending += chunk;
+    const lines = pending.split('\n');
+    pending = lines.pop() ?? '';
+    lines.forEach((line) => onLine(line));
+  };
+
+  for await (const chunk of stream) {
+    take(decoder.decode(chunk, { stream: true }));
+  }
+  take(decoder.decode());
+
+  if (onLine && pending) {
+    onLine(pending);
+  }
+  return text;
+}
 
 /**
  * Deno-based process executor
  */
 class DenoProcessExecutor implements ProcessExecutor {
-  async execute(
+  execute(
     command: string[],
-    options?: {
-      cwd?: string;
-      env?: Record<string, string>;
-      timeout?: number;
-    },
+    options?: ExecuteOptions,
+  ): Promise<Result<ProcessResult, Error>> {
+    return this.run(command, options);
+  }
+
+  executeStreaming(
+    command: string[],
+    options: ExecuteOptions,
+    onLine: (line: ProcessOutputLine) => void,
+  ): Promise<Result<ProcessResult, Error>> {
+    return this.run(command, options, onLine);
+  }
+
+  async locate(command: string): Promise<string | undefined> {
+    const windows = Deno.build.os === 'windows';
+    const directories = (Deno.env.get('PATH') ?? '').split(windows ? ';' : ':');
+    const names = windows
+      ? (Deno.env.get('PATHEXT') ?? '.EXE;.CMD;.BAT').split(';').map((ext) => command + ext)
+      : [command];
+
+    for (const directory of directories.filter((directory) => directory.length > 0)) {
+      for (const name of names) {
+        const path = join(directory, name);
+        try {
+          const stat = await Deno.stat(path);
+          if (stat.isFile && (windows || ((stat.mode ?? 0) & 0o111) !== 0)) {
+            return path;
+          }
+        } catch {
+          // Not in this directory
+        }
+      }
+    }
+    return undefined;
+  }
+
+  private async run(
+    command: string[],
+    options?: ExecuteOptions,
+    onLine?: (line: ProcessOutputLine) => void,
   ): Promise<Result<ProcessResult, Error>> {
     const commandString = command.join(' ');
     const cwd = options?.cwd || Deno.cwd();
@@ -54,7 +129,11 @@ class DenoProcessExecutor implements ProcessExecutor {
         }, options.timeout);
       }
 
-      const output = await process.output();
+      const [stdout, stderr, status] = await Promise.all([
+        readLines(process.stdout, onLine && ((line) => onLine({ stream: 'stdout', line }))),
+        readLines(process.stderr, onLine && ((line) => onLine({ stream: 'stderr', line }))),
+        process.status,
+      ]);
 
       if (timeoutId) {
         clearTimeout(timeoutId);
@@ -63,14 +142,12 @@ class DenoProcessExecutor implements ProcessExecutor {
       const endTime = Date.now();
       const duration = endTime - startTime;
 
-      const stdout = new TextDecoder().decode(output.stdout);
-      const stderr = new TextDecoder().decode(output.stderr);
-
       console.log(`⏱️  Completed at: ${new Date(endTime).toLocaleTimeString()}`);
       console.log(`⏱️  Duration: ${duration}ms (${(duration / 1000).toFixed(2)}s)`);
-      console.log(`📊 Exit code: ${output.code}`);
+      console.log(`📊 Exit code: ${status.code}`);
 
-      if (stdout.trim()) {
+      // Streamed stdout has already been handed to the caller line by line
+      if (!onLine && stdout.trim()) {
         console.log(`\n📝 Standard Output:\n${stdout}`);
       }
 
@@ -79,12 +156,12 @@ class DenoProcessExecutor implements ProcessExecutor {
       }
 
       return success({
-        exitCode: output.code,
-        signal: output.signal || undefined,
+        exitCode: status.code,
+        signal: status.signal || undefined,
         stdout,
         stderr,
         duration,
-        killed: output.signal === 'SIGTERM' || output.signal === 'SIGKILL',
+        killed: status.signal === 'SIGTERM' || status.signal === 'SIGKILL',
       });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
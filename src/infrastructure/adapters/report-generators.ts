@@ -3,9 +3,11 @@
  * Implements file writing and template rendering
  */
 
+import { dirname, ensureDir } from '../../deps.ts';
 import type { Result } from '../../shared/result.ts';
 import { failure, success } from '../../shared/result.ts';
 import type {
+  FileRemover,
   FileWriter,
   TemplateRenderer,
 } from '../../domains/search-integration/report-generator.ts';
@@ -13,15 +15,25 @@ import type {
 /**
  * Deno-based file writer
  */
-class DenoFileWriter implements FileWriter {
+class DenoFileWriter implements FileWriter, FileRemover {
   async write(path: string, content: string): Promise<Result<void, Error>> {
     try {
+      await ensureDir(dirname(path));
       await Deno.writeTextFile(path, content);
       return success(undefined);
     } catch (error) {
       return failure(error as Error);
     }
   }
+
+  async remove(path: string): Promise<Result<void, Error>> {
+    try {
+      await Deno.remove(path);
+      return success(undefined);
+    } catch (error) {
+      return error instanceof Deno.errors.NotFound ? success(undefined) : failure(error as Error);
+    }
+  }
 }
 
 /**
@@ -99,7 +111,7 @@ class SimpleTemplateRenderer implements TemplateRenderer {
  * Create report generators
  */
 export function createReportGenerators(): {
-  fileWriter: FileWriter;
+  fileWriter: FileWriter & FileRemover;
   templateRenderer: TemplateRenderer;
 } {
   return {
@@ -6,17 +6,28 @@
 import { parseCli } from '../domains/application-control/cli-parser.ts';
 import { ApplicationStateManager } from '../domains/application-control/state-manager.ts';
 import { TestExecutor } from '../domains/test-execution/test-executor.ts';
+import { FuzzRunner } from '../domains/test-execution/fuzz-runner.ts';
 import { StrategyController } from '../domains/error-control/strategy-controller.ts';
 import {
   createDefaultFallbackConfig,
   FallbackExecutor,
 } from '../domains/error-control/fallback-executor.ts';
 import { GoProjectScanner } from '../domains/resource-management/project-scanner.ts';
+import { ShardPlanner } from '../domains/resource-management/shard-planner.ts';
+import { AffectedPackageResolver } from '../domains/resource-management/affected-packages.ts';
+import { TestHistoryStore } from '../domains/resource-management/test-history.ts';
 import { SearchService } from '../domains/search-integration/search-service.ts';
 import { CoverageAnalyzer } from '../domains/search-integration/coverage-analyzer.ts';
 import { ReportGenerator } from '../domains/search-integration/report-generator.ts';
+import { BenchmarkAnalyzer } from '../domains/search-integration/benchmark-analyzer.ts';
 import { EnvironmentManager } from '../domains/environment-control/environment-manager.ts';
 import { DockerController } from '../domains/environment-control/docker-controller.ts';
+import { BuildChecker } from '../domains/static-analysis/build-checker.ts';
+import { VetAnalyzer } from '../domains/static-analysis/vet-analyzer.ts';
+import { FormatChecker } from '../domains/static-analysis/format-checker.ts';
+import { LintRunner } from '../domains/static-analysis/lint-runner.ts';
+import { CustomCheckRunner } from '../domains/static-analysis/custom-check-runner.ts';
+import { ConfigLoader } from '../domains/orchestrator/config-loader.ts';
 
 // Infrastructure implementations
 import { createFileSystemAdapter } from './adapters/file-system-adapter.ts';
@@ -26,6 +37,7 @@ import { createDockerExecutor } from './adapters/docker-executor.ts';
 import { createSearchIndex } from './adapters/search-index.ts';
 import { createGoFileParser } from './adapters/go-file-parser.ts';
 import { createCoverageParser } from './adapters/coverage-parser.ts';
+import { createCoverageReportGenerator } from './adapters/coverage-report-generator.ts';
 import { createReportGenerators } from './adapters/report-generators.ts';
 
 /**
@@ -35,9 +47,11 @@ export interface InfrastructureAdapters {
   appControl: {
     parser: { parse: typeof parseCli };
     stateManager: ApplicationStateManager;
+    configLoader: ConfigLoader;
   };
   testExecution: {
     executor: TestExecutor;
+    fuzzRunner: FuzzRunner;
   };
   errorControl: {
     strategyController: StrategyController;
@@ -45,16 +59,27 @@ export interface InfrastructureAdapters {
   };
   resourceManagement: {
     scanner: GoProjectScanner;
+    shardPlanner: ShardPlanner;
+    affectedPackages: AffectedPackageResolver;
+    testHistory: TestHistoryStore;
   };
   searchIntegration: {
     searchService: SearchService;
     coverageAnalyzer: CoverageAnalyzer;
     reportGenerator: ReportGenerator;
+    benchmarkAnalyzer: BenchmarkAnalyzer;
   };
   environmentControl: {
     environmentManager: EnvironmentManager;
     dockerController: DockerController;
   };
+  staticAnalysis: {
+    buildChecker: BuildChecker;
+    vetAnalyzer: VetAnalyzer;
+    formatChecker: FormatChecker;
+    lintRunner: LintRunner;
+    customCheckRunner: CustomCheckRunner;
+  };
 }
 
 /**
@@ -75,10 +100,13 @@ export function createInfrastructureAdapters(): InfrastructureAdapters {
   const appControl = {
     parser: { parse: parseCli },
     stateManager: new ApplicationStateManager(),
+    configLoader: new ConfigLoader(fileSystem, systemEnv),
   };
 
+  const executor = new TestExecutor(processExecutor, Deno.cwd());
   const testExecution = {
-    executor: new TestExecutor(processExecutor, Deno.cwd()),
+    executor,
+    fuzzRunner: new FuzzRunner(fileSystem, goFileParser, executor),
   };
 
   const errorControl = {
@@ -94,24 +122,21 @@ export function createInfrastructureAdapters(): InfrastructureAdapters {
       followSymlinks: false,
       excludePatterns: [],
     }),
+    shardPlanner: new ShardPlanner(fileSystem),
+    affectedPackages: new AffectedPackageResolver(fileSystem, goFileParser, processExecutor),
+    testHistory: new TestHistoryStore(fileSystem, fileWriter),
   };
 
   const searchIntegration = {
     searchService: new SearchService(searchIndex, goFileParser),
-    coverageAnalyzer: new CoverageAnalyzer(coverageParser, {
-      generate: async (data, _format, path) => {
-        // Simple implementation
-        const content = JSON.stringify(data, null, 2);
-        if (path) {
-          const writeResult = await fileWriter.write(path, content);
-          if (!writeResult.ok) {
-            return writeResult;
-          }
-        }
-        return { ok: true, data: content };
-      },
-    }),
+    coverageAnalyzer: new CoverageAnalyzer(
+      coverageParser,
+      createCoverageReportGenerator(fileWriter, fileSystem),
+      fileSystem,
+      fileWriter,
+    ),
     reportGenerator: new ReportGenerator(fileWriter, templateRenderer),
+    benchmarkAnalyzer: new BenchmarkAnalyzer(fileSystem, fileWriter),
   };
 
   const environmentControl = {
@@ -119,6 +144,14 @@ export function createInfrastructureAdapters(): InfrastructureAdapters {
     dockerController: new DockerController(dockerExecutor),
   };
 
+  const staticAnalysis = {
+    buildChecker: new BuildChecker(processExecutor, Deno.cwd()),
+    vetAnalyzer: new VetAnalyzer(processExecutor, Deno.cwd()),
+    formatChecker: new FormatChecker(processExecutor, Deno.cwd()),
+    lintRunner: new LintRunner(processExecutor, Deno.cwd()),
+    customCheckRunner: new CustomCheckRunner(processExecutor, Deno.cwd()),
+  };
+
   return {
     appControl,
     testExecution,
@@ -126,5 +159,6 @@ export function createInfrastructureAdapters(): InfrastructureAdapters {
     resourceManagement,
     searchIntegration,
     environmentControl,
+    staticAnalysis,
   };
 }
@@ -2,6 +2,20 @@ import { DomainOrchestrator } from './domains/orchestrator/index.ts';
 import { createEventBus } from './shared/event-bus.ts';
 import { createInfrastructureAdapters } from './infrastructure/index.ts';
 import { displayHelp, displayVersion } from './cli/help.ts';
+import { runMerge } from './cli/merge.ts';
+import { runMergeCoverage } from './cli/merge-coverage.ts';
+import { CompilerDiagnosticParser } from './domains/static-analysis/index.ts';
+import { FallbackExecutor } from './domains/error-control/index.ts';
+import { TestDiagnosticParser } from './domains/test-execution/index.ts';
+import { formatLocatedError } from './shared/errors.ts';
+import type { DomainError, LocatedValidationError } from './shared/errors.ts';
+import type { ApplicationConfig } from './domains/application-control/index.ts';
+import type { CoverageData } from './domains/search-integration/index.ts';
+
+/**
+ * Exit code of a run that only failed because coverage is below a threshold
+ */
+export const COVERAGE_THRESHOLD_EXIT_CODE = 3;
 
 /**
  * Main entry point for the Go CI tool
@@ -19,6 +33,16 @@ export async function main(args: string[]): Promise<void> {
     Deno.exit(0);
   }
 
+  // Subcommand: combine shard result files
+  if (args[0] === 'merge') {
+    Deno.exit(await runMerge(args.slice(1)));
+  }
+
+  // Subcommand: combine cover profiles
+  if (args[0] === 'merge-coverage') {
+    Deno.exit(await runMergeCoverage(args.slice(1)));
+  }
+
   const mainStartTime = Date.now();
   console.log(`\n🚀 Go CI Runner started at ${new Date(mainStartTime).toLocaleTimeString()}`);
   console.log(`═══════════════════════════════════════════════════════════════════\n`);
@@ -48,11 +72,22 @@ export async function main(args: string[]): Promise<void> {
       adapters.environmentControl,
       orchestratorConfig,
       eventBus,
+      adapters.staticAnalysis,
     );
 
+    // Silent and error-files-only log modes suppress progress output
+    let showProgress = true;
+    adapters.appControl.stateManager.setEventBus(eventBus);
+    eventBus.on('app:initialized', (event) => {
+      if (event.type === 'app:initialized') {
+        const { logMode } = event.config as ApplicationConfig;
+        showProgress = logMode !== 'silent' && logMode !== 'error-files-only';
+      }
+    });
+
     // Subscribe to important events for logging
     eventBus.on('exec:started', (event) => {
-      if (event.type === 'exec:started') {
+      if (event.type === 'exec:started' && showProgress) {
         console.log(`\n🎯 Starting test execution phase`);
         console.log(`📦 Target: ${event.target}`);
         console.log(`───────────────────────────────────────────────────────────────────`);
@@ -60,7 +95,8 @@ export async function main(args: string[]): Promise<void> {
     });
 
     eventBus.on('exec:completed', (event) => {
-      if (event.type === 'exec:completed') {
+      // Failures are reported in every log mode
+      if (event.type === 'exec:completed' && (showProgress || event.exitCode !== 0)) {
         console.log(`\n📊 Test Execution Results:`);
         console.log(`───────────────────────────────────────────────────────────────────`);
 
@@ -92,24 +128,83 @@ export async function main(args: string[]): Promise<void> {
       }
     });
 
+    const PROGRESS_ICON = { passed: '✅', failed: '❌', skipped: '⏭️ ' };
+    eventBus.on('exec:progress', (event) => {
+      // Failed packages are reported in every log mode
+      if (event.type === 'exec:progress' && (showProgress || event.status === 'failed')) {
+        const counter = `[${event.completed}/${event.total} ${event.percentage}%]`;
+        console.log(`${PROGRESS_ICON[event.status]} ${counter} ${event.package}`);
+      }
+    });
+
     eventBus.on('error:fallback-triggered', (event) => {
       if (event.type === 'error:fallback-triggered') {
         console.log(`⚡ Fallback triggered: ${event.from} → ${event.to}`);
       }
     });
 
+    eventBus.on('stage:started', (event) => {
+      if (event.type === 'stage:started' && showProgress) {
+        console.log(`\n▶️  Stage: ${event.stage}`);
+      }
+    });
+
+    eventBus.on('stage:finished', (event) => {
+      if (event.type === 'stage:finished' && event.status === 'skipped' && showProgress) {
+        console.log(`\n⏭️  Stage skipped: ${event.stage} (${event.reason})`);
+      }
+    });
+
     // Run orchestration
     const result = await orchestrator.orchestrate(args);
 
     if (!result.ok) {
       console.error(`❌ Orchestration failed: ${result.error.kind}`);
-      if (result.error.details) {
+      const configErrors = invalidConfigErrors(result.error);
+      if (configErrors) {
+        for (const error of configErrors) {
+          console.error(`  ${formatLocatedError(error)}`);
+        }
+      } else if (result.error.details) {
         console.error('Details:', result.error.details);
       }
       Deno.exit(1);
     }
 
-    const { errors, testResults } = result.data;
+    const {
+      errors,
+      stages,
+      build,
+      testResults,
+      fallback,
+      vetResults,
+      format,
+      lint,
+      customResults,
+      races,
+      benchmarks,
+      fuzz,
+      coverage,
+      coverageReports,
+      coverageThresholdFailures,
+      missingCoverProfiles,
+      changes,
+      shard,
+    } = result.data;
+
+    // Report compiler diagnostics from the build stage
+    if (build && !build.success) {
+      console.log(`\n🔨 Build Failed:`);
+      console.log(`───────────────────────────────────────────────────────────────────`);
+      if (build.diagnostics.length > 0) {
+        for (const diagnostic of build.diagnostics) {
+          console.log(`  ${CompilerDiagnosticParser.format(diagnostic)}`);
+        }
+      } else if (build.processResult.stderr.trim()) {
+        console.log(build.processResult.stderr);
+      }
+      console.log(`───────────────────────────────────────────────────────────────────`);
+    }
 
     // Log any non-fatal errors
     if (errors.length > 0) {
@@ -125,8 +220,278 @@ export async function main(args: string[]): Promise<void> {
       console.log(`───────────────────────────────────────────────────────────────────`);
     }
 
-    // Determine exit code based on test results
-    const allTestsPassed = testResults?.every((r) => r.success) ?? false;
+    // Packages go test could not build, set up or vet, kept apart from failing tests
+    const buildFailures = TestDiagnosticParser.collect(testResults ?? []);
+    if (buildFailures.length > 0) {
+      console.log(`\n🔨 Test Build Failures (${buildFailures.length}):`);
+      console.log(`───────────────────────────────────────────────────────────────────`);
+      for (const pkg of buildFailures) {
+        console.log(`  ❌ ${pkg.package} [${pkg.kind}]`);
+        for (const diagnostic of pkg.diagnostics) {
+          console.log(`    ${CompilerDiagnosticParser.format(diagnostic)}`);
+        }
+      }
+      console.log(`───────────────────────────────────────────────────────────────────`);
+    }
+
+    // Report per-test results parsed from go test -json
+    const testPackages = testResults?.flatMap((r) => r.packages) ?? [];
+    if (testPackages.length > 0) {
+      const tests = testPackages.flatMap((pkg) => pkg.tests.map((test) => ({ pkg, test })));
+      const count = (status: string) => tests.filter(({ test }) => test.status === status).length;
+      console.log(
+        `\n🧪 Tests: ${count('passed')} passed, ${count('failed')} failed, ${
+          count('skipped')
+        } skipped, ${count('flaky')} flaky`,
+      );
+
+      // Tests that failed first and passed when re-run by --retry-failed
+      for (const { pkg, test } of tests.filter(({ test }) => test.status === 'flaky')) {
+        console.log(`  ⚠️  ${pkg.name} ${test.name} (flaky: passed on retry)`);
+      }
+
+      // Packages can fail without a failing test, e.g. on build errors, which are
+      // reported on their own below
+      const unbuilt = new Set(buildFailures.map((pkg) => pkg.package));
+      const failedTests = tests.filter(({ test }) => test.status === 'failed');
+      const failedPackages = testPackages.filter((pkg) =>
+        pkg.status === 'failed' && !pkg.tests.some((test) => test.status === 'failed') &&
+        !unbuilt.has(pkg.name)
+      );
+      if (failedTests.length > 0 || failedPackages.length > 0) {
+        console.log(`───────────────────────────────────────────────────────────────────`);
+        for (const { pkg, test } of failedTests) {
+          console.log(`  ❌ ${pkg.name} ${test.name} (${test.duration ?? 0}ms)`);
+          if (test.output) {
+            console.log(test.output);
+          }
+        }
+        for (const pkg of failedPackages) {
+          console.log(`  ❌ ${pkg.name}`);
+          if (pkg.output) {
+            console.log(pkg.output);
+          }
+        }
+        console.log(`───────────────────────────────────────────────────────────────────`);
+      }
+    }
+
+    // Report data races found by --race, once per pair of source locations
+    if (races && races.length > 0) {
+      console.log(`\n🏎️  Data Races (${races.length}):`);
+      console.log(`───────────────────────────────────────────────────────────────────`);
+      for (const race of races) {
+        const times = race.occurrences > 1 ? ` (${race.occurrences} times)` : '';
+        console.log(`  ❌ ${race.location}${times}`);
+        console.log(`    Packages: ${race.packages.join(', ') || 'unknown'}`);
+        if (race.tests.length > 0) {
+          console.log(`    Tests: ${race.tests.join(', ')}`);
+        }
+        for (const access of race.accesses) {
+          // The innermost frames locate the access; deeper ones are mostly the test runner
+          console.log(`    ${access.operation} by goroutine ${access.goroutine}:`);
+          for (const frame of access.stack.slice(0, 3)) {
+            console.log(`      ${frame.function} ${frame.file}:${frame.line}`);
+          }
+        }
+      }
+      console.log(`───────────────────────────────────────────────────────────────────`);
+    }
+
+    // Report benchmark medians and their changes against the baseline
+    if (benchmarks && benchmarks.results.length > 0) {
+      console.log(`\n⏱️  Benchmarks (${benchmarks.results.length}):`);
+      console.log(`───────────────────────────────────────────────────────────────────`);
+      const report = adapters.searchIntegration.reportGenerator.generateBenchmarkReport(
+        benchmarks.comparison ??
+          { baseline: [], current: benchmarks.results, comparison: [] },
+        'text',
+      );
+      console.log(report.trimEnd());
+      for (const delta of benchmarks.regressions) {
+        console.log(
+          `  ❌ ${delta.package}/${delta.name} is ${delta.speedChange.toFixed(1)}% slower`,
+        );
+      }
+      if (benchmarks.baselinePath) {
+        console.log(`  Compared with ${benchmarks.baselinePath}`);
+      }
+      if (benchmarks.savedPath) {
+        console.log(`  Baseline saved to ${benchmarks.savedPath}`);
+      }
+      console.log(`───────────────────────────────────────────────────────────────────`);
+    }
+
+    // Report fuzz targets and the failing inputs they found
+    if (fuzz && fuzz.length > 0) {
+      console.log(`\n🎲 Fuzzing (${fuzz.length} target(s)):`);
+      console.log(`───────────────────────────────────────────────────────────────────`);
+      for (const { target, fuzzTime, status, crasher, processResult } of fuzz) {
+        const icon = status === 'passed' ? '✅' : '❌';
+        console.log(`  ${icon} ${target.package} ${target.name} (${fuzzTime}s)`);
+        if (crasher) {
+          const origin = crasher.new ? 'New failing input' : 'Failing corpus entry';
+          console.log(`    ${origin}: ${crasher.input}`);
+          if (crasher.message) {
+            console.log(`    ${crasher.message}`);
+          }
+        } else if (status === 'failed') {
+          console.log(processResult.stderr.trim() || processResult.stdout.trim());
+        }
+      }
+      console.log(`───────────────────────────────────────────────────────────────────`);
+    }
+
+    // Report statement coverage per package, least covered first
+    if (coverage && coverage.packages.length > 0) {
+      console.log(`\n📈 Coverage (${coverage.packages.length} package(s)):`);
+      console.log(`───────────────────────────────────────────────────────────────────`);
+      for (const line of formatCoverageTable(coverage)) {
+        console.log(`  ${line}`);
+      }
+      for (const path of coverageReports ?? []) {
+        console.log(`  📄 ${path}`);
+      }
+      for (const path of missingCoverProfiles ?? []) {
+        console.log(`  ⚠️  Not included, go test wrote no profile: ${path}`);
+      }
+      console.log(`───────────────────────────────────────────────────────────────────`);
+    }
+
+    // Report the coverage thresholds that were missed
+    if (coverageThresholdFailures && coverageThresholdFailures.length > 0) {
+      console.log(`\n🚧 Coverage Below Threshold:`);
+      console.log(`───────────────────────────────────────────────────────────────────`);
+      for (const failure of coverageThresholdFailures) {
+        const pattern = failure.pattern ? ` (${failure.pattern})` : '';
+        console.log(`  ❌ ${failure.package ?? 'total'}${pattern}: ${failure.message}`);
+      }
+      console.log(`───────────────────────────────────────────────────────────────────`);
+    }
+
+    // Report the strategies the fallback loop went through
+    if (fallback && fallback.length > 1) {
+      console.log(`\n⚡ Fallback chain:`);
+      fallback.forEach((attempt, index) => {
+        const strategy = FallbackExecutor.strategyToString(attempt.strategy);
+        console.log(`  ${index + 1}. ${strategy}: ${attempt.failed} of ${attempt.targets} failed`);
+      });
+    }
+
+    // Report the packages selected by --changed-since
+    if (changes) {
+      console.log(`\n🔀 Changed since ${changes.ref}: ${changes.changedFiles.length} file(s)`);
+      if (changes.type === 'all') {
+        console.log(`  Checking all packages: ${changes.reason}`);
+      } else {
+        console.log(
+          `  ${changes.changed.length} changed package(s), ${changes.affected.length} affected`,
+        );
+        for (const pkg of changes.affected) {
+          console.log(`  • ${pkg}${changes.changed.includes(pkg) ? '' : ' (imports a change)'}`);
+        }
+      }
+    }
+
+    // Report the partial result file of a sharded run
+    if (shard) {
+      const [index] = shard.report.shards;
+      console.log(
+        `\n🧩 Shard ${index}/${shard.report.total}: ${shard.report.packages.length} package(s)`,
+      );
+      console.log(`  Results written to ${shard.path}`);
+    }
+
+    // Report analyzer findings from the vet stage
+    const vetDiagnostics = vetResults?.flatMap((r) => r.diagnostics) ?? [];
+    if (vetDiagnostics.length > 0) {
+      console.log(`\n🔍 Go Vet Findings (${vetDiagnostics.length}):`);
+      console.log(`───────────────────────────────────────────────────────────────────`);
+      for (const diagnostic of vetDiagnostics) {
+        const analyzer = diagnostic.analyzer ? ` [${diagnostic.analyzer}]` : '';
+        console.log(`  ${CompilerDiagnosticParser.format(diagnostic)}${analyzer}`);
+      }
+      console.log(`───────────────────────────────────────────────────────────────────`);
+    }
+
+    // Report unformatted files from the format stage
+    if (format && format.fixedFiles.length > 0) {
+      console.log(`\n🎨 Formatted ${format.fixedFiles.length} file(s) in place:`);
+      for (const file of format.fixedFiles) {
+        console.log(`  ${file}`);
+      }
+    }
+    if (format && !format.success) {
+      console.log(`\n🎨 Format Check Failed (${format.issues.length} file(s)):`);
+      console.log(`───────────────────────────────────────────────────────────────────`);
+      for (const issue of format.issues) {
+        console.log(`  ${issue.file} [${issue.tool}]`);
+        if (issue.diff) {
+          console.log(issue.diff);
+        }
+      }
+      for (const error of format.errors) {
+        console.log(error);
+      }
+      console.log(`───────────────────────────────────────────────────────────────────`);
+      console.log('💡 Run with --fix to rewrite these files');
+    }
+
+    // Report lint issues, noting tools that are not installed
+    if (lint) {
+      const skipped = lint.reports.filter((report) => report.status === 'skipped');
+      if (skipped.length > 0) {
+        console.log(`\n🧹 Lint tools skipped: ${skipped.map((report) => report.tool).join(', ')}`);
+      }
+      if (!lint.success) {
+        console.log(`\n🧹 Lint Issues (${lint.issues.length}):`);
+        console.log(`───────────────────────────────────────────────────────────────────`);
+        for (const issue of lint.issues) {
+          const column = issue.column !== undefined ? `:${issue.column}` : '';
+          console.log(
+            `  ${issue.file}:${issue.line}${column}: ${issue.message} [${issue.tool}/${issue.ruleId}, ${issue.severity}]`,
+          );
+        }
+        for (const report of lint.reports) {
+          if (report.status === 'failed' && report.issues.length === 0) {
+            console.log(`  ${report.tool} exited with code ${report.processResult.exitCode}`);
+            console.log(report.processResult.stderr);
+          }
+        }
+        console.log(`───────────────────────────────────────────────────────────────────`);
+      }
+    }
+
+    // Report output of failed custom stages
+    for (const custom of customResults ?? []) {
+      if (!custom.success) {
+        console.log(`\n🛠️  Custom stage ${custom.name} failed: ${custom.command.join(' ')}`);
+        console.log(`───────────────────────────────────────────────────────────────────`);
+        console.log(custom.processResult.stdout + custom.processResult.stderr);
+        console.log(`───────────────────────────────────────────────────────────────────`);
+      }
+    }
+
+    // Summarize the stage graph
+    if (stages.length > 0) {
+      console.log(`\n📋 Stages:`);
+      for (const stage of stages) {
+        const icon = stage.status === 'passed' ? '✅' : stage.status === 'failed' ? '❌' : '⏭️ ';
+        const reason = stage.reason ? ` - ${stage.reason}` : '';
+        console.log(`  ${icon} ${stage.name} (${stage.duration}ms)${reason}`);
+      }
+    }
+
+    // Determine exit code based on stage outcomes
+    const buildPassed = !stages.some((stage) =>
+      stage.name === 'build' && stage.status === 'failed'
+    );
+    const testStage = stages.find((stage) => stage.name === 'test');
+    // Without a test stage the run passes on the remaining stages; a failed scan runs none
+    const allTestsPassed = testStage ? testStage.status === 'passed' : stages.length > 0;
+    const failedStages = stages
+      .filter((stage) => stage.status === 'failed' && stage.name !== 'test')
+      .map((stage) => stage.name);
 
     // Debug logging for CI
     if (Deno.env.get('CI') || Deno.env.get('DEBUG')) {
@@ -158,9 +523,32 @@ export async function main(args: string[]): Promise<void> {
     );
     console.log(`🕐 Finished at: ${new Date(mainEndTime).toLocaleTimeString()}`);
 
-    if (allTestsPassed) {
+    if (!buildPassed) {
+      console.log('❌ Build failed, tests were skipped!');
+      Deno.exit(1);
+    } else if (
+      allTestsPassed && coverageThresholdFailures &&
+      failedStages.every((stage) => stage === 'coverage')
+    ) {
+      const offending = [
+        ...new Set(coverageThresholdFailures.map((failure) => failure.package ?? 'total')),
+      ];
+      console.log(`❌ Tests passed, but coverage is below the threshold: ${offending.join(', ')}`);
+      Deno.exit(COVERAGE_THRESHOLD_EXIT_CODE);
+    } else if (allTestsPassed && failedStages.length > 0) {
+      console.log(`❌ Tests passed, but these stages failed: ${failedStages.join(', ')}`);
+      Deno.exit(1);
+    } else if (allTestsPassed) {
       console.log('✅ All tests passed!');
       Deno.exit(0);
+    } else if (coverageThresholdFailures) {
+      const offending = [
+        ...new Set(coverageThresholdFailures.map((failure) => failure.package ?? 'total')),
+      ];
+      console.log(
+        `❌ Some tests failed and coverage is below the threshold: ${offending.join(', ')}`,
+      );
+      Deno.exit(1);
     } else {
       console.log('❌ Some tests failed!');
       Deno.exit(1);
@@ -195,3 +583,35 @@ export async function main(args: string[]): Promise<void> {
 if (import.meta.main) {
   await main(Deno.args);
 }
+
+/**
+ * Statement coverage table: one row per package, least covered first, then the total
+ */
+export function formatCoverageTable(coverage: CoverageData): string[] {
+  const rows = [...coverage.packages]
+    .sort((a, b) => a.summary.statements.percentage - b.summary.statements.percentage)
+    .map((pkg) => ({ name: pkg.package, statements: pkg.summary.statements }));
+  rows.push({ name: 'total', statements: coverage.summary.statements });
+  const width = Math.max(...rows.map((row) => row.name.length));
+
+  const lines = rows.map(({ name, statements }) =>
+    `${name.padEnd(width)}  ${statements.percentage.toFixed(1).padStart(5)}%  ` +
+    `${statements.covered}/${statements.total} statements`
+  );
+  lines.splice(lines.length - 1, 0, '─'.repeat(width + 30));
+  return lines;
+}
+
+/**
+ * Extract config file / environment validation errors from a ConfigurationFailed error
+ */
+function invalidConfigErrors(error: DomainError): LocatedValidationError[] | undefined {
+  if (error.kind !== 'ConfigurationFailed') {
+    return undefined;
+  }
+  const cause = (error.details as { error?: DomainError }).error;
+  if (cause && 'domain' in cause && cause.kind === 'ConfigInvalid') {
+    return (cause.details as { errors: LocatedValidationError[] }).errors;
+  }
+  return undefined;
+}
@@ -12,6 +12,12 @@ export type ValidationError =
   | { kind: 'TooLong'; field: string; maxLength: number; actualLength: number }
   | { kind: 'PatternMismatch'; field: string; pattern: string; value: string };
 
+// Validation error pinned to the configuration source that produced it
+export type LocatedValidationError = ValidationError & {
+  readonly file: string;
+  readonly line?: number;
+};
+
 // Domain-specific errors
 export type DomainError =
   | {
@@ -29,7 +35,16 @@ export type DomainError =
     kind: 'StrategyNotFound' | 'FallbackExhausted' | 'AnalysisFailed';
     details: unknown;
   }
-  | { domain: 'resource'; kind: 'FileNotFound' | 'AccessDenied' | 'ParseFailed'; details: unknown }
+  | {
+    domain: 'resource';
+    kind: 'FileNotFound' | 'AccessDenied' | 'ParseFailed' | 'ChangeDetectionFailed';
+    details: unknown;
+  }
+  | {
+    domain: 'analysis';
+    kind: 'CommandBuildFailed' | 'ProcessSpawnFailed';
+    details: unknown;
+  }
   | {
     domain: 'search';
     kind:
@@ -41,7 +56,8 @@ export type DomainError =
       | 'TemplateRenderFailed'
       | 'ParseFailed'
       | 'ThresholdNotMet'
-      | 'SearchFailed';
+      | 'SearchFailed'
+      | 'MergeFailed';
     details: unknown;
   }
   | {
@@ -71,7 +87,19 @@ export type DomainError =
       | 'ConfigurationFailed'
       | 'InitializationFailed'
       | 'ProjectScanFailed'
+      | 'HierarchyNotFound'
+      | 'BuildExecutionFailed'
       | 'TestExecutionFailed'
+      | 'VetExecutionFailed'
+      | 'FormatExecutionFailed'
+      | 'LintExecutionFailed'
+      | 'StageGraphInvalid'
+      | 'CustomStageFailed'
+      | 'ShardReportFailed'
+      | 'HistoryFailed'
+      | 'BenchmarkFailed'
+      | 'FuzzFailed'
+      | 'CoverageFailed'
       | 'UnexpectedError';
     details: unknown;
   };
@@ -148,3 +176,11 @@ export const isUnexpectedError = (
 ): error is { kind: 'UnexpectedError'; message: string; cause?: unknown } => {
   return 'kind' in error && error.kind === 'UnexpectedError';
 };
+
+/**
+ * Format a located validation error as file:line: message
+ */
+export const formatLocatedError = (error: LocatedValidationError): string => {
+  const line = error.line !== undefined ? `:${error.line}` : '';
+  return `${error.file}${line}: ${formatError(error)}`;
+};
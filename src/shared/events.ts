@@ -26,14 +26,30 @@ export type ExecutionEvent =
     timestamp: number;
   }
   | { type: 'exec:failed'; target: string; error: Error; timestamp: number }
-  | { type: 'exec:progress'; target: string; percentage: number; timestamp: number };
+  | {
+    type: 'exec:progress';
+    target: string;
+    package: string;
+    status: 'passed' | 'failed' | 'skipped';
+    completed: number;
+    total: number;
+    percentage: number;
+    timestamp: number;
+  };
 
 // Error Control Domain Events
 export type ErrorControlEvent =
   | { type: 'error:detected'; exitCode: number; context: unknown; timestamp: number }
   | { type: 'error:strategy-selected'; strategy: string; reason: string; timestamp: number }
   | { type: 'error:fallback-triggered'; from: string; to: string; timestamp: number }
-  | { type: 'error:threshold-exceeded'; metric: string; value: number; timestamp: number };
+  | {
+    type: 'error:threshold-exceeded';
+    package?: string; // undefined for the total coverage
+    metric: string;
+    value: number;
+    threshold: number;
+    timestamp: number;
+  };
 
 // Resource Management Domain Events
 export type ResourceEvent =
@@ -63,6 +79,18 @@ export type EnvironmentEvent =
   | { type: 'environment:setup-complete'; envVars: number; workDir: string; timestamp: number }
   | { type: 'environment:cleanup-complete'; errors: number; timestamp: number };
 
+// Orchestrator Pipeline Events
+export type StageEvent =
+  | { type: 'stage:started'; stage: string; timestamp: number }
+  | {
+    type: 'stage:finished';
+    stage: string;
+    status: 'passed' | 'failed' | 'skipped';
+    duration: number;
+    reason?: string;
+    timestamp: number;
+  };
+
 // Union of all domain events
 export type DomainEvent =
   | ApplicationEvent
@@ -70,7 +98,8 @@ export type DomainEvent =
   | ErrorControlEvent
   | ResourceEvent
   | SearchEvent
-  | EnvironmentEvent;
+  | EnvironmentEvent
+  | StageEvent;
 
 /**
  * Event handler type
@@ -1,4 +0,0 @@
-/**
- * Execution mode types for Go CI
- */
-export type ExecutionMode = 'all' | 'batch' | 'single-package';
@@ -0,0 +1,114 @@
+import { assertEquals } from '@std/assert';
+import { AffectedPackageResolver } from '../src/domains/resource-management/affected-packages.ts';
+import type { GoPackageInfo } from '../src/domains/resource-management/types.ts';
+import type { ProcessExecutor } from '../src/domains/test-execution/test-executor.ts';
+import { createGoFileParser } from '../src/infrastructure/adapters/go-file-parser.ts';
+
+const ROOT = '/project';
+
+const pkg = (dir: string, files: string[]): GoPackageInfo => ({
+  path: dir === '.' ? ROOT : `${ROOT}/${dir}`,
+  name: dir.split('/').pop()!,
+  importPath: dir,
+  goFiles: files.filter((file) => !file.endsWith('_test.go')),
+  testFiles: files.filter((file) => file.endsWith('_test.go')),
+  hasTestFiles: files.some((file) => file.endsWith('_test.go')),
+  hasBenchmarks: false,
+  hasExamples: false,
+  dependencies: [],
+});
+
+const SOURCES: Record<string, string> = {
+  [`${ROOT}/cmd/app/main.go`]:
+    'package main\n\nimport (\n\t"fmt"\n\tsvc "example.com/app/internal/service"\n)\n',
+  [`${ROOT}/internal/service/service.go`]:
+    'package service\n\nimport "example.com/app/internal/store"\n',
+  [`${ROOT}/internal/store/store.go`]: 'package store\n',
+  [`${ROOT}/internal/store/store_test.go`]:
+    'package store_test\n\nimport _ "example.com/app/pkg/testutil"\n',
+  [`${ROOT}/pkg/testutil/testutil.go`]: 'package testutil\n',
+};
+
+const PACKAGES = [
+  pkg('cmd/app', ['main.go']),
+  pkg('internal/service', ['service.go']),
+  pkg('internal/store', ['store.go', 'store_test.go']),
+  pkg('pkg/testutil', ['testutil.go']),
+];
+
+const resolver = (changed: string[]) => {
+  const executor: ProcessExecutor = {
+    execute: (command) =>
+      Promise.resolve({
+        ok: true,
+        data: {
+          exitCode: 0,
+          stdout: command[1] === 'diff' ? changed.join('\n') : '',
+          stderr: '',
+          duration: 1,
+          killed: false,
+        },
+      }),
+    executeStreaming: () => Promise.reject(new Error('not used')),
+  };
+  return new AffectedPackageResolver(
+    {
+      readFile: (path) => Promise.resolve(SOURCES[path] ?? ''),
+      joinPath: (...paths) => paths.join('/'),
+    },
+    createGoFileParser(),
+    executor,
+  );
+};
+
+Deno.test('AffectedPackageResolver - maps changed files to packages', () => {
+  const patterns = ['.', './internal/store', './pkg/testutil'];
+
+  assertEquals(
+    AffectedPackageResolver.changedPackages(
+      ['internal/store/store.go', 'internal/store/testdata/golden.txt', 'docs/README.md'],
+      patterns,
+    ),
+    ['.', './internal/store'],
+  );
+  // Go files outside any package are ignored rather than attributed to a parent
+  assertEquals(AffectedPackageResolver.changedPackages(['tools/gen.go'], patterns), []);
+});
+
+Deno.test('AffectedPackageResolver - expands changes to transitive importers', async () => {
+  const result = await resolver(['pkg/testutil/testutil.go']).resolve(
+    'main',
+    PACKAGES,
+    ROOT,
+    'example.com/app',
+  );
+
+  assertEquals(result.ok && result.data, {
+    type: 'packages',
+    changedFiles: ['pkg/testutil/testutil.go'],
+    changed: ['./pkg/testutil'],
+    affected: ['./cmd/app', './internal/service', './internal/store', './pkg/testutil'],
+  });
+
+  const service = await resolver(['internal/service/service.go']).resolve(
+    'main',
+    PACKAGES,
+    ROOT,
+    'example.com/app',
+  );
+  assertEquals(
+    service.ok && service.data.type === 'packages' && service.data.affected,
+    ['./cmd/app', './internal/service'],
+  );
+});
+
+Deno.test('AffectedPackageResolver - module file changes select every package', async () => {
+  const result = await resolver(['go.sum', 'internal/store/store.go']).resolve(
+    'main',
+    PACKAGES,
+    ROOT,
+    'example.com/app',
+  );
+
+  assertEquals(result.ok && result.data.type, 'all');
+});
@@ -22,6 +22,38 @@ Deno.test('parseCli - handles invalid mode', () => {
   }
 });
 
+Deno.test('parseCli - accepts the legacy flag set', () => {
+  const result = parseCli([
+    '--cwd',
+    './project',
+    '--log-mode',
+    'error-files-only',
+    '--no-fallback',
+    '--test-filter',
+    '*integration*',
+    '--stop-on-first-error',
+    '--hierarchy',
+    './cmd/',
+    './pkg/',
+  ]);
+
+  assertEquals(result.ok, true);
+  if (result.ok) {
+    assertEquals(result.data.workingDirectory, './project');
+    assertEquals(result.data.logMode, 'error-files-only');
+    assertEquals(result.data.logLevel, 'error');
+    assertEquals(result.data.enableFallback, false);
+    assertEquals(result.data.testFilter, '*integration*');
+    assertEquals(result.data.stopOnFirstError, true);
+    assertEquals(result.data.hierarchy, ['./cmd/', './pkg/']);
+  }
+});
+
+Deno.test('parseCli - debug log mode requires a BreakdownLogger key and length', () => {
+  assertEquals(parseCli(['--log-mode', 'debug']).ok, false);
+  assertEquals(parseCli(['--log-mode', 'debug', '--log-key', 'CI', '--log-length', 'M']).ok, true);
+});
+
 Deno.test('BatchSize - creates valid batch size', () => {
   const result = BatchSize.create(5);
   assertEquals(result.ok, true);
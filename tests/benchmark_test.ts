@@ -0,0 +1,120 @@
+import { assert, assertAlmostEquals, assertEquals } from '@std/assert';
+import { join } from '@std/path';
+import { BenchmarkAnalyzer } from '../src/domains/search-integration/benchmark-analyzer.ts';
+import { DomainOrchestrator } from '../src/domains/orchestrator/index.ts';
+import { createEventBus } from '../src/shared/event-bus.ts';
+import { createInfrastructureAdapters } from '../src/infrastructure/index.ts';
+import {
+  mannWhitneyU,
+  medianInterval,
+} from '../src/domains/search-integration/benchmark-statistics.ts';
+
+const benchOutput = (nsPerOp: number[]) =>
+  [
+    'goos: linux',
+    'goarch: amd64',
+    'pkg: example.com/app/fib',
+    ...nsPerOp.map((ns) =>
+      `BenchmarkFib/n=10-8   \t  300000\t      ${ns} ns/op\t      16 B/op\t       1 allocs/op`
+    ),
+    'PASS',
+    'ok  \texample.com/app/fib\t2.345s',
+  ].join('\n');
+
+Deno.test('BenchmarkAnalyzer - summarizes every run of a benchmark', () => {
+  const [result] = BenchmarkAnalyzer.parse(benchOutput([4100, 4000, 4300, 3900, 4200, 4050]));
+
+  assertEquals(result.name, 'BenchmarkFib/n=10');
+  assertEquals(result.package, 'example.com/app/fib');
+  assertEquals(result.nsPerOp, 4075);
+  assertEquals(result.bytesPerOp, 16);
+  assertEquals(result.allocsPerOp, 1);
+  assertEquals(result.samples.length, 6);
+  // Six runs are the fewest giving a 95% interval: the smallest and largest run
+  assertEquals(result.interval, [3900, 4300]);
+  assertEquals(medianInterval([1, 2, 3, 4, 5]), undefined);
+});
+
+Deno.test('BenchmarkAnalyzer - flags only significant changes', () => {
+  // Exact test: fully separated samples of 5 have p = 2/252
+  assertAlmostEquals(mannWhitneyU([1, 2, 3, 4, 5], [6, 7, 8, 9, 10]), 2 / 252);
+  assertEquals(mannWhitneyU([1, 3, 5], [2, 4, 6]), 0.7);
+
+  const baseline = BenchmarkAnalyzer.parse(benchOutput([4100, 4000, 4300, 3900, 4200, 4050]));
+  const slower = BenchmarkAnalyzer.compare(
+    baseline,
+    BenchmarkAnalyzer.parse(benchOutput([4600, 4500, 4800, 4400, 4700, 4550])),
+  );
+  const [delta] = slower.comparison;
+  assertAlmostEquals(delta.speedChange, (4575 - 4075) / 4075 * 100);
+  assert(delta.significant);
+  assertEquals(BenchmarkAnalyzer.regressions(slower, 10).length, 1);
+  assertEquals(BenchmarkAnalyzer.regressions(slower, 15).length, 0);
+
+  // Overlapping noise is not a change, whatever the medians say
+  const noisy = BenchmarkAnalyzer.compare(
+    baseline,
+    BenchmarkAnalyzer.parse(benchOutput([4400, 3950, 4350, 4000, 4250, 4120])),
+  );
+  assertEquals(noisy.comparison[0].significant, false);
+  assertEquals(BenchmarkAnalyzer.regressions(noisy, 0).length, 0);
+});
+
+Deno.test('Bench stage - a regressing run leaves the baseline unchanged', async () => {
+  const projectPath = await Deno.makeTempDir({ prefix: 'go-ci-bench-' });
+  await Deno.writeTextFile(join(projectPath, 'go.mod'), 'module example.com/bench\n\ngo 1.21\n');
+  await Deno.writeTextFile(
+    join(projectPath, 'sum_test.go'),
+    'package bench\n\nimport "testing"\n\nfunc BenchmarkSum(b *testing.B) {\n' +
+      '\tfor i := 0; i < b.N; i++ {\n\t\ts := 0\n\t\tfor j := 0; j < 1000; j++ {\n' +
+      '\t\t\ts += j\n\t\t}\n\t\t_ = s\n\t}\n}\n',
+  );
+
+  // A baseline far faster than any real run
+  const baselinePath = join(projectPath, '.go-ci', 'bench.json');
+  const baseline = JSON.stringify({
+    version: 1,
+    created: '2026-01-01T00:00:00.000Z',
+    results: BenchmarkAnalyzer.parse(
+      benchOutput([0.01, 0.01, 0.01, 0.01, 0.01])
+        .replaceAll('BenchmarkFib/n=10', 'BenchmarkSum')
+        .replaceAll('example.com/app/fib', 'example.com/bench'),
+    ),
+  });
+  await Deno.mkdir(join(projectPath, '.go-ci'));
+  await Deno.writeTextFile(baselinePath, baseline);
+
+  const adapters = createInfrastructureAdapters();
+  const orchestrator = new DomainOrchestrator(
+    adapters.appControl,
+    adapters.testExecution,
+    adapters.errorControl,
+    adapters.resourceManagement,
+    adapters.searchIntegration,
+    adapters.environmentControl,
+    { enableFallback: false, enableDocker: false, enableCoverage: false, maxConcurrency: 1 },
+    createEventBus(),
+    adapters.staticAnalysis,
+  );
+
+  try {
+    const result = await orchestrator.orchestrate([
+      '--working-directory',
+      projectPath,
+      '--stages',
+      'build,bench',
+      '--bench',
+      '.',
+      '--bench-count',
+      '5',
+    ]);
+
+    assert(result.ok);
+    assertEquals(result.data.stages.find((stage) => stage.name === 'bench')?.status, 'failed');
+    assertEquals(result.data.benchmarks?.regressions.length, 1);
+    assertEquals(result.data.benchmarks?.savedPath, undefined);
+    assertEquals(await Deno.readTextFile(baselinePath), baseline);
+  } finally {
+    await Deno.remove(projectPath, { recursive: true });
+  }
+});
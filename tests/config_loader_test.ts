@@ -0,0 +1,175 @@
+import { assertEquals } from '@std/assert';
+import {
+  parseConfigContent,
+  parseEnvConfig,
+  parseEnvSections,
+} from '../src/domains/orchestrator/config-loader.ts';
+import { parseCli } from '../src/domains/application-control/cli-parser.ts';
+
+Deno.test('parseConfigContent - YAML sections', () => {
+  const content = [
+    'mode: batch',
+    'batchSize: 5',
+    'orchestrator:',
+    '  maxConcurrency: 2',
+    '  pipeline:',
+    '    disabled: [lint]',
+    'scan:',
+    '  excludePatterns: [testdata]',
+    'test:',
+    '  race: true',
+  ].join('\n');
+
+  const result = parseConfigContent(content, '.go-ci.yml');
+
+  assertEquals(result.ok, true);
+  if (result.ok) {
+    assertEquals(result.data.cli, { mode: 'batch', batchSize: 5 });
+    assertEquals(result.data.orchestrator, { maxConcurrency: 2, pipeline: { disabled: ['lint'] } });
+    assertEquals(result.data.scan, { excludePatterns: ['testdata'] });
+    assertEquals(result.data.test, { race: true });
+  }
+});
+
+Deno.test('parseConfigContent - errors carry file and line', () => {
+  const content = ['mode: all', 'orchestrator:', '  maxConcurency: 2', 'batchSize: 0'].join('\n');
+
+  const result = parseConfigContent(content, '.go-ci.yml');
+
+  assertEquals(result.ok, false);
+  if (!result.ok) {
+    assertEquals(result.error.map((error) => [error.kind, error.file, error.line]), [
+      ['OutOfRange', '.go-ci.yml', 4],
+      ['InvalidFormat', '.go-ci.yml', 3],
+    ]);
+  }
+});
+
+Deno.test('parseConfigContent - coverage formats, stages and directories are checked', () => {
+  const content = [
+    'coverageFormats: [lcov, xml]',
+    'stages: [build, docs, deploy]',
+    'hierarchy: [pkg, ../other]',
+    'orchestrator:',
+    '  pipeline:',
+    '    custom:',
+    '      - name: docs',
+    '        command: [make, docs]',
+  ].join('\n');
+
+  const result = parseConfigContent(content, '.go-ci.yml');
+
+  assertEquals(result.ok, false);
+  if (!result.ok) {
+    assertEquals(result.error.map((error) => [error.field, error.line]), [
+      ['coverageFormats', 1],
+      ['hierarchy', 3],
+      ['stages', 2],
+    ]);
+  }
+
+  const env = parseEnvConfig({ GO_CI_SKIP_STAGES: 'lint,docs' });
+  assertEquals(env.ok ? [] : env.error.map((error) => error.field), ['GO_CI_SKIP_STAGES']);
+});
+
+Deno.test('parseConfigContent - JSON syntax error', () => {
+  const result = parseConfigContent('{\n  "mode": "all",\n}', 'go-ci.json');
+
+  assertEquals(result.ok, false);
+  if (!result.ok) {
+    assertEquals(result.error[0].field, '(file)');
+  }
+});
+
+Deno.test('parseEnvConfig - converts GO_CI_* variables', () => {
+  const result = parseEnvConfig({ GO_CI_MODE: 'single-package', GO_CI_VERBOSE: 'true' });
+
+  assertEquals(result.ok, true);
+  if (result.ok) {
+    assertEquals(result.data, { mode: 'single-package', verbose: true });
+  }
+
+  assertEquals(parseEnvConfig({ GO_CI_BATCH_SIZE: 'ten' }).ok, false);
+});
+
+Deno.test('parseEnvSections - converts GO_CI_<SECTION>_* variables', () => {
+  const result = parseEnvSections({
+    GO_CI_ORCHESTRATOR_MAX_CONCURRENCY: '4',
+    GO_CI_SCAN_EXCLUDE_PATTERNS: 'vendor, testdata',
+    GO_CI_FALLBACK_ENABLED: 'false',
+    GO_CI_TEST_FAIL_FAST: '1',
+    GO_CI_TEST_JSON: 'true', // the CLI-level testJson, not a test section field
+  });
+
+  assertEquals(result.ok, true);
+  if (result.ok) {
+    assertEquals(result.data, {
+      orchestrator: { maxConcurrency: 4 },
+      scan: { excludePatterns: ['vendor', 'testdata'] },
+      fallback: { enabled: false },
+      test: { failFast: true },
+    });
+  }
+
+  const invalid = parseEnvSections({ GO_CI_SCAN_MAX_DEPTH: '0' });
+  assertEquals(invalid.ok ? [] : invalid.error.map((error) => error.field), [
+    'GO_CI_SCAN_MAX_DEPTH',
+  ]);
+});
+
+Deno.test('parseConfigContent - list strings split the same as GO_CI_* variables', () => {
+  const file = parseConfigContent(
+    ['test:', '  tags: "integration, slow"', 'scan:', '  excludePatterns: testdata examples'].join(
+      '\n',
+    ),
+    '.go-ci.yml',
+  );
+  const env = parseEnvSections({
+    GO_CI_TEST_TAGS: 'integration slow',
+    GO_CI_SCAN_EXCLUDE_PATTERNS: 'testdata,examples',
+  });
+
+  assertEquals(file.ok && [file.data.test, file.data.scan], [
+    { tags: ['integration', 'slow'] },
+    { excludePatterns: ['testdata', 'examples'] },
+  ]);
+  assertEquals(env.ok && [env.data.test, env.data.scan], [
+    { tags: ['integration', 'slow'] },
+    { excludePatterns: ['testdata', 'examples'] },
+  ]);
+});
+
+Deno.test('parseCli - command line overrides config defaults', () => {
+  const result = parseCli(['--batch-size', '3'], { mode: 'batch', batchSize: 20 });
+
+  assertEquals(result.ok, true);
+  if (result.ok) {
+    assertEquals(result.data.mode, 'batch');
+    assertEquals(result.data.batchSize, 3);
+  }
+});
+
+Deno.test('parseConfigContent - coverage thresholds per package pattern', () => {
+  const content = [
+    'coverageThreshold: 70',
+    'coverageThresholds:',
+    '  internal/core/...: 85',
+    '  "./cmd/*": 50',
+  ].join('\n');
+
+  const result = parseConfigContent(content, '.go-ci.yml');
+
+  assertEquals(result.ok, true);
+  if (result.ok) {
+    assertEquals(result.data.cli, { coverageThreshold: 70 });
+    assertEquals(result.data.coverageThresholds, [
+      { pattern: 'internal/core/...', statements: 85 },
+      { pattern: './cmd/*', statements: 50 },
+    ]);
+  }
+
+  const invalid = parseConfigContent('coverageThresholds:\n  api: 101\n', '.go-ci.yml');
+  assertEquals(invalid.ok ? [] : invalid.error.map((error) => [error.kind, error.line]), [
+    ['OutOfRange', 2],
+  ]);
+});
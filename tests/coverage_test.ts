@@ -0,0 +1,255 @@
+import { assert, assertEquals } from '@std/assert';
+import { createCoverageParser } from '../src/infrastructure/adapters/coverage-parser.ts';
+import { CoverageProfile } from '../src/domains/search-integration/coverage-profile.ts';
+import { CoverageGate } from '../src/domains/search-integration/coverage-gate.ts';
+import { createCoverageReportGenerator } from '../src/infrastructure/adapters/coverage-report-generator.ts';
+import { CoverageAnalyzer } from '../src/domains/search-integration/coverage-analyzer.ts';
+import { GoTestCommandBuilder } from '../src/domains/test-execution/test-executor.ts';
+import { PackageImportPath } from '../src/domains/test-execution/types.ts';
+import { formatCoverageTable } from '../src/main.ts';
+import { success } from '../src/shared/result.ts';
+
+// go test -covermode=count -coverpkg=./... ./... - util is listed once per test binary
+const PROFILE = [
+  'mode: count',
+  'example.com/cov/calc/calc.go:5.22,6.11 1 3',
+  'example.com/cov/calc/calc.go:6.11,8.3 1 0',
+  'example.com/cov/calc/calc.go:8.8,8.19 1 3',
+  'example.com/cov/calc/calc.go:8.19,10.3 1 0',
+  'example.com/cov/calc/calc.go:11.2,11.19 2 3',
+  'example.com/cov/calc/calc.go:14.19,16.2 1 0',
+  'example.com/cov/util/util.go:3.16,5.2 1 3',
+  'example.com/cov/util/util.go:7.16,9.2 1 0',
+  'example.com/cov/util/util.go:3.16,5.2 1 0',
+  'example.com/cov/util/util.go:7.16,9.2 1 1',
+].join('\n');
+
+Deno.test('GoCoverageParser - weights blocks by statements and keeps hit counts', () => {
+  const result = createCoverageParser().parse(PROFILE, 'example.com/cov');
+  assert(result.ok);
+  const { mode, packages, summary } = result.data;
+
+  assertEquals(mode, 'count');
+  assertEquals(packages.map((pkg) => pkg.package), [
+    'example.com/cov/calc',
+    'example.com/cov/util',
+  ]);
+
+  const [calc] = packages[0].files;
+  assertEquals(calc.path, 'calc/calc.go');
+  assertEquals([calc.statements.covered, calc.statements.total], [4, 7]);
+  // Line 8 holds `} else if n == 0 {`: the condition ran, the branch it closes did not
+  assertEquals([calc.lines.covered, calc.lines.total], [4, 10]);
+  assertEquals(calc.blocks?.[0], {
+    startLine: 5,
+    startColumn: 22,
+    endLine: 6,
+    endColumn: 11,
+    statements: 1,
+    count: 3,
+  });
+
+  // Blocks listed by both test binaries add up
+  const [util] = packages[1].files;
+  assertEquals(util.blocks?.map((block) => block.count), [3, 1]);
+  assertEquals(util.statements.percentage, 100);
+
+  assertEquals([summary.statements.covered, summary.statements.total], [6, 9]);
+});
+
+Deno.test('GoCoverageParser - rejects profiles of different modes', () => {
+  const parser = createCoverageParser();
+  const result = parser.parse('mode: set\na.go:1.1,2.2 1 1\nmode: count\na.go:1.1,2.2 1 4\n');
+  assert(!result.ok);
+
+  const set = parser.parse(
+    'mode: set\nexample.com/m/a.go:1.1,2.2 1 1\nexample.com/m/a.go:1.1,2.2 1 0',
+  );
+  assert(set.ok);
+  // Outside the module's path there is no relative path
+  assertEquals(set.data.packages[0].files[0].path, undefined);
+  assertEquals(set.data.packages[0].files[0].blocks?.[0].count, 1);
+});
+
+Deno.test('CoverageProfile - merges runs of the same packages', () => {
+  const parser = createCoverageParser();
+  const parse = (profile: string) => {
+    const result = parser.parse(profile, 'example.com/cov');
+    assert(result.ok);
+    return result.data;
+  };
+
+  const calc = parse(PROFILE);
+  const other = parse(
+    'mode: count\nexample.com/cov/calc/calc.go:6.11,8.3 1 2\nexample.com/cov/calc/calc.go:5.22,6.11 1 2',
+  );
+  const merged = CoverageProfile.merge([calc, other]);
+  assert(merged.ok);
+  const [file] = merged.data.packages[0].files;
+  assertEquals(file.path, 'calc/calc.go');
+  assertEquals(file.blocks?.slice(0, 2).map((block) => block.count), [5, 2]);
+  assertEquals([file.statements.covered, file.statements.total], [5, 7]);
+  assertEquals(merged.data.packages.length, 2);
+
+  // A merged profile reads back as the same coverage
+  const again = parse(CoverageProfile.format(merged.data));
+  assertEquals(again.summary, merged.data.summary);
+
+  const set = parse('mode: set\nexample.com/cov/calc/calc.go:5.22,6.11 1 1');
+  assert(!CoverageProfile.merge([calc, set]).ok);
+  const covered = CoverageProfile.merge([
+    set,
+    parse('mode: set\nexample.com/cov/calc/calc.go:5.22,6.11 1 0'),
+  ]);
+  assert(covered.ok);
+  assertEquals(covered.data.packages[0].files[0].blocks?.[0].count, 1);
+});
+
+Deno.test('CoverageReportGenerator - writes lcov, Cobertura and annotated HTML', async () => {
+  const parsed = createCoverageParser().parse(PROFILE, 'example.com/cov');
+  assert(parsed.ok);
+  const files = new Map([['/src/util/util.go', 'package util\n\nfunc One() int {\n']]);
+  const generator = createCoverageReportGenerator(
+    {
+      write: (path, content) => {
+        files.set(path, content);
+        return Promise.resolve(success(undefined));
+      },
+    },
+    {
+      exists: (path) => Promise.resolve(files.has(path)),
+      readFile: (path) => Promise.resolve(files.get(path)!),
+      joinPath: (...segments) => segments.join('/'),
+    },
+  );
+
+  const lcov = await generator.generate(parsed.data, 'lcov', 'out/lcov.info');
+  assert(lcov.ok);
+  assertEquals(files.get('out/lcov.info'), lcov.data);
+  const [calc, util] = lcov.data.split('end_of_record\n');
+  assert(calc.startsWith('TN:\nSF:calc/calc.go\nDA:5,3\nDA:6,3\nDA:7,0\n'));
+  assert(calc.endsWith('LF:10\nLH:4\n'));
+  assertEquals(util.split('\n').slice(1, 3), ['SF:util/util.go', 'DA:3,3']);
+
+  const cobertura = await generator.generate(parsed.data, 'cobertura');
+  assert(cobertura.ok);
+  assert(cobertura.data.includes('<package name="example.com/cov/calc" line-rate="0.4000"'));
+  assert(cobertura.data.includes('filename="calc/calc.go"'));
+  assert(cobertura.data.includes('<line number="11" hits="3" branch="false"/>'));
+
+  // Source is read relative to the module root; files without it are still listed
+  const html = await generator.generate(parsed.data, 'html', undefined, '/src');
+  assert(html.ok);
+  assert(html.data.includes('<span class="ln">3</span><span class="hits">3</span>func One()'));
+  assert(html.data.includes('Source not available'));
+});
+
+Deno.test('CoverageGate - checks the total and every package matching a pattern', () => {
+  const parsed = createCoverageParser().parse(PROFILE, 'example.com/cov');
+  assert(parsed.ok);
+
+  // calc covers 4 of 7 statements, util 2 of 2, the total 6 of 9
+  const result = CoverageGate.evaluate(parsed.data, [
+    { statements: 70 },
+    { pattern: './...', statements: 50 },
+    { pattern: 'calc/...', statements: 60 },
+    { pattern: 'example.com/cov/util', statements: 100 },
+    { pattern: 'internal/*', statements: 90 },
+  ], 'example.com/cov');
+  assert(result.ok);
+  assertEquals(result.data.map((failure) => [failure.package, failure.pattern, failure.message]), [
+    [undefined, undefined, 'Statements: 66.7% < 70%'],
+    ['example.com/cov/calc', 'calc/...', 'Statements: 57.1% < 60%'],
+  ]);
+
+  assert(CoverageGate.matches('internal/**', 'internal/core/db'));
+  assert(!CoverageGate.matches('internal/*', 'internal/core/db'));
+  assert(CoverageGate.matches('internal/core/...', 'internal/core'));
+  assert(!CoverageGate.matches('internal/core/...', 'internal/coredump'));
+  assert(!CoverageGate.evaluate(parsed.data, [{ statements: 120 }]).ok);
+});
+
+Deno.test('GoTestCommandBuilder - writes the cover profile of the instrumented packages', () => {
+  const importPath = PackageImportPath.create('./calc');
+  assert(importPath.ok);
+  const built = GoTestCommandBuilder.build({ type: 'package', importPath: importPath.data }, {
+    verbose: false,
+    timeout: 0,
+    race: false,
+    cover: false,
+    short: false,
+    failFast: false,
+    coverProfile: '.go-ci/coverage/cover-1.out',
+    coverPackages: ['./calc/...', './util'],
+  });
+  assert(built.ok);
+  assertEquals(built.data.args, [
+    'go',
+    'test',
+    '-coverprofile=.go-ci/coverage/cover-1.out',
+    '-coverpkg=./calc/...,./util',
+    './calc',
+  ]);
+});
+
+Deno.test('CoverageAnalyzer - clears stale profiles and reports missing ones', async () => {
+  const files = new Map([
+    ['.go-ci/coverage/cover-1.out', PROFILE],
+    ['.go-ci/coverage/cover-2.out', PROFILE],
+    ['.go-ci/coverage/notes.txt', ''],
+  ]);
+  const fs = {
+    exists: (path: string) => Promise.resolve(files.has(path)),
+    readFile: (path: string) => Promise.resolve(files.get(path)!),
+    readDirectory: (path: string) =>
+      Promise.resolve(
+        [...files.keys()].filter((file) => file.startsWith(`${path}/`)).map((file) =>
+          file.slice(path.length + 1)
+        ),
+      ),
+    joinPath: (...segments: string[]) => segments.join('/'),
+  };
+  const writer = {
+    write: (path: string, content: string) => {
+      files.set(path, content);
+      return Promise.resolve(success(undefined));
+    },
+    remove: (path: string) => {
+      files.delete(path);
+      return Promise.resolve(success(undefined));
+    },
+  };
+  const analyzer = new CoverageAnalyzer(
+    createCoverageParser(),
+    createCoverageReportGenerator(writer, fs),
+    fs,
+    writer,
+  );
+
+  assert((await analyzer.prepareProfileDirectory('.go-ci/coverage')).ok);
+  assertEquals([...files.keys()].sort(), [
+    '.go-ci/coverage/.gitignore',
+    '.go-ci/coverage/notes.txt',
+  ]);
+
+  // The second invocation wrote no profile, e.g. as its tests did not build
+  files.set('.go-ci/coverage/cover-1.out', PROFILE);
+  const result = await analyzer.analyzeProfiles(
+    ['.go-ci/coverage/cover-1.out', '.go-ci/coverage/cover-2.out'],
+    'example.com/cov',
+  );
+  assert(result.ok);
+  assertEquals(result.data.missing, ['.go-ci/coverage/cover-2.out']);
+  assertEquals(result.data.coverage.summary.statements.covered, 6);
+});
+
+Deno.test('formatCoverageTable - lists packages least covered first, then the total', () => {
+  const parsed = createCoverageParser().parse(PROFILE, 'example.com/cov');
+  assert(parsed.ok);
+  assertEquals(formatCoverageTable(parsed.data), [
+    'example.com/cov/calc   57.1%  4/7 statements',
+    'example.com/cov/util  100.0%  2/2 statements',
+    '─'.repeat(50),
+    'total                  66.7%  6/9 statements',
+  ]);
+});
@@ -90,9 +90,8 @@ Deno.test('E2E CLI - multi-package project', async () => {
     'info',
   ]);
 
-  // Multi-package project has problematic tests, so it may exit with code 1
-  // But the process should complete successfully
-  assertStringIncludes(result.stdout, 'Some tests failed');
+  // Packages are tested by their path relative to the working directory
+  assertStringIncludes(result.stdout, 'All tests passed');
 });
 
 Deno.test('E2E CLI - error handling for non-existent directory', async () => {
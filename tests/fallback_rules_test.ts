@@ -0,0 +1,96 @@
+import { assertEquals } from '@std/assert';
+import { FallbackRuleEngine } from '../src/domains/error-control/fallback-rules.ts';
+import { StrategyController } from '../src/domains/error-control/strategy-controller.ts';
+import { createDefaultFallbackConfig } from '../src/domains/error-control/fallback-executor.ts';
+import type {
+  ErrorContext,
+  ExecutionStrategy,
+  FallbackConfig,
+} from '../src/domains/error-control/types.ts';
+
+const errorContext = (
+  executionStrategy: ExecutionStrategy,
+  fields: Partial<ErrorContext> = {},
+): ErrorContext => ({
+  executionStrategy,
+  targetsExecuted: 4,
+  targetsFailed: 1,
+  totalTargets: 4,
+  duration: 1000,
+  errorHistory: [],
+  ...fields,
+});
+
+Deno.test('FallbackRuleEngine - default rules walk all-at-once down to file-by-file', () => {
+  const config = createDefaultFallbackConfig();
+  const next = (context: ErrorContext) => {
+    const decision = FallbackRuleEngine.evaluate(context, config);
+    return decision?.action === 'fallback' ? decision.newStrategy : decision?.action;
+  };
+
+  assertEquals(next(errorContext({ type: 'all-at-once', parallel: false })), {
+    type: 'directory-by-directory',
+    maxConcurrency: 5,
+  });
+  // More than half failing: reduce concurrency before switching strategy
+  assertEquals(
+    next(errorContext({ type: 'directory-by-directory', maxConcurrency: 5 }, { targetsFailed: 3 })),
+    { type: 'directory-by-directory', maxConcurrency: 2 },
+  );
+  assertEquals(next(errorContext({ type: 'directory-by-directory', maxConcurrency: 5 })), {
+    type: 'file-by-file',
+    stopOnFirstError: false,
+  });
+  assertEquals(next(errorContext({ type: 'file-by-file', stopOnFirstError: false })), undefined);
+  assertEquals(
+    next(errorContext({ type: 'all-at-once', parallel: false }, { duration: 300000 })),
+    'stop',
+  );
+});
+
+Deno.test('FallbackRuleEngine - consecutive failures and debug re-runs', () => {
+  const config: FallbackConfig = {
+    enabled: true,
+    maxRetries: 3,
+    strategies: [
+      { trigger: { type: 'consecutive-failures', count: 3 }, action: { type: 'stop-execution' } },
+      { trigger: { type: 'any-failure' }, action: { type: 'enable-debug', logLevel: 'debug' } },
+    ],
+  };
+  const strategy: ExecutionStrategy = { type: 'batch', batchSize: 10, parallel: true };
+  const record = {
+    timestamp: 0,
+    target: { type: 'all-packages', pattern: './...' } as const,
+    exitCode: 1,
+    errorType: 'test-failure',
+  };
+
+  assertEquals(FallbackRuleEngine.evaluate(errorContext(strategy), config), {
+    action: 'fallback',
+    newStrategy: strategy,
+    trigger: { type: 'failures-detected', failed: 1 },
+    debug: true,
+  });
+  assertEquals(
+    FallbackRuleEngine.evaluate(errorContext(strategy, { debug: true }), config),
+    undefined,
+  );
+  assertEquals(
+    FallbackRuleEngine.evaluate(
+      errorContext(strategy, { errorHistory: [record, record, record] }),
+      config,
+    )?.action,
+    'stop',
+  );
+});
+
+Deno.test('StrategyController - disabled fallback ignores configured rules', () => {
+  const config = { ...createDefaultFallbackConfig(), enabled: false };
+  const decision = StrategyController.makeDecision(
+    { type: 'test-failure', code: 1 },
+    errorContext({ type: 'all-at-once', parallel: false }),
+    config,
+  );
+
+  assertEquals(decision.ok && decision.data.action, 'continue');
+});
@@ -0,0 +1,75 @@
+import { assertEquals } from '@std/assert';
+import { TestEventParser } from '../src/domains/test-execution/test-event-parser.ts';
+import { FlakyTestDetector } from '../src/domains/test-execution/flaky-detector.ts';
+import type { TestExecutionResult } from '../src/domains/test-execution/types.ts';
+
+const event = (fields: Record<string, unknown>) =>
+  JSON.stringify({ Package: 'example/pkg', ...fields });
+
+const STREAM = [
+  event({ Action: 'start' }),
+  event({ Action: 'run', Test: 'TestAdd' }),
+  event({ Action: 'output', Test: 'TestAdd', Output: '=== RUN   TestAdd\n' }),
+  event({ Action: 'output', Test: 'TestAdd', Output: '--- PASS: TestAdd (0.01s)\n' }),
+  event({ Action: 'pass', Test: 'TestAdd', Elapsed: 0.01 }),
+  event({ Action: 'run', Test: 'TestBroken' }),
+  event({ Action: 'pause', Test: 'TestBroken' }),
+  event({ Action: 'cont', Test: 'TestBroken' }),
+  event({ Action: 'output', Test: 'TestBroken', Output: '    add_test.go:12: expected 4\n' }),
+  event({ Action: 'fail', Test: 'TestBroken', Elapsed: 0.25 }),
+  event({ Action: 'run', Test: 'TestSkip' }),
+  event({ Action: 'skip', Test: 'TestSkip', Elapsed: 0 }),
+  event({ Action: 'bench', Test: 'BenchmarkAdd', Output: 'BenchmarkAdd  1000  12 ns/op\n' }),
+  event({ Action: 'output', Output: 'FAIL\n' }),
+  event({ Action: 'fail', Elapsed: 0.3 }),
+  'not json: build output',
+].join('\n');
+
+Deno.test('FlakyTestDetector - marks tests that passed on retry as flaky', () => {
+  const stdout = [
+    '--- FAIL: TestA (0.00s)',
+    '    a_test.go:5: first',
+    '--- FAIL: TestB (0.00s)',
+    '    b_test.go:9: second',
+    'FAIL',
+    'FAIL\texample/pkg\t0.010s',
+  ].join('\n');
+  const result: TestExecutionResult = {
+    target: { type: 'all-packages', pattern: './pkg' },
+    processResult: { exitCode: 1, stdout, stderr: '', duration: 10, killed: false },
+    startTime: 0,
+    endTime: 10,
+    success: false,
+    status: 'failed',
+    duration: 10,
+    packages: [],
+  };
+
+  // Both failures of the package are kept, not only the last one
+  assertEquals(FlakyTestDetector.failedTests(result), ['TestA', 'TestB']);
+  assertEquals(FlakyTestDetector.runPattern(['TestA', 'TestB']), '^(TestA|TestB)$');
+
+  const partial = FlakyTestDetector.markFlaky(result, ['TestA'], true);
+  assertEquals(partial.success, false);
+  assertEquals(partial.packages[0].tests.map((test) => [test.name, test.status]), [
+    ['TestA', 'flaky'],
+    ['TestB', 'failed'],
+  ]);
+
+  const flaky = FlakyTestDetector.markFlaky(result, ['TestA', 'TestB'], false);
+  assertEquals([flaky.status, flaky.success], ['flaky', false]);
+  assertEquals(FlakyTestDetector.markFlaky(result, ['TestA', 'TestB'], true).success, true);
+
+  const json = FlakyTestDetector.markFlaky(
+    { ...result, packages: TestEventParser.parse(STREAM) },
+    ['TestBroken'],
+    true,
+  );
+  assertEquals(json.packages[0].tests[1], {
+    name: 'TestBroken',
+    passed: true,
+    status: 'flaky',
+    duration: 250,
+    output: '    add_test.go:12: expected 4',
+  });
+});
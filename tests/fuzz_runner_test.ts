@@ -0,0 +1,99 @@
+import { assert, assertEquals } from '@std/assert';
+import { FuzzRunner } from '../src/domains/test-execution/fuzz-runner.ts';
+import type { GoTestOptions, TestExecutionResult } from '../src/domains/test-execution/types.ts';
+import { createGoFileParser } from '../src/infrastructure/adapters/go-file-parser.ts';
+
+const SOURCES: Record<string, string> = {
+  '/project/parse/parse_test.go': [
+    'package parse',
+    '',
+    'func TestParse(t *testing.T) {}',
+    'func FuzzParse(f *testing.F) {',
+    '\tf.Fuzz(func(t *testing.T, s string) {})',
+    '}',
+    'func FuzzHelper(t *testing.T) {}',
+  ].join('\n'),
+  '/project/lex/lex_test.go': 'package lex\n\nfunc FuzzLex(f *testing.F) {}\n',
+};
+
+const CRASH_OUTPUT = [
+  'fuzz: elapsed: 0s, gathering baseline coverage: 1/1 completed, now fuzzing with 1 workers',
+  '--- FAIL: FuzzParse (0.86s)',
+  '    --- FAIL: FuzzParse (0.00s)',
+  '        testing.go:1504: panic: bad input',
+  '    ',
+  '    Failing input written to testdata/fuzz/FuzzParse/e091e3ffd4df0887',
+  '    To re-run:',
+  '    go test -run=FuzzParse/e091e3ffd4df0887',
+  'FAIL',
+].join('\n');
+
+Deno.test('FuzzRunner - discovers fuzz targets and shares the time budget', async () => {
+  const calls: GoTestOptions[] = [];
+  const runner = new FuzzRunner(
+    { readFile: (path) => Promise.resolve(SOURCES[path] ?? '') },
+    createGoFileParser(),
+    {
+      test: (packagePath, options) => {
+        calls.push(options);
+        const crashed = packagePath === './parse';
+        return Promise.resolve({
+          ok: true,
+          data: {
+            processResult: {
+              exitCode: crashed ? 1 : 0,
+              stdout: crashed ? CRASH_OUTPUT : 'PASS',
+              stderr: '',
+              duration: 1,
+              killed: false,
+            },
+          } as TestExecutionResult,
+        });
+      },
+    },
+  );
+
+  const targets = await runner.discover(
+    [
+      { pattern: './parse', path: '/project/parse', testFiles: ['parse_test.go'] },
+      { pattern: './lex', path: '/project/lex', testFiles: ['lex_test.go'] },
+    ],
+    /./,
+  );
+  // FuzzHelper takes *testing.T, so it is not a fuzz target
+  assertEquals(targets.ok && targets.data.map((t) => `${t.package} ${t.name}`), [
+    './parse FuzzParse',
+    './lex FuzzLex',
+  ]);
+  if (!targets.ok) return;
+
+  const options = { verbose: false, timeout: 60, race: false, cover: false } as GoTestOptions;
+  const results = await runner.run(targets.data, 30, options, '/project');
+  // FuzzParse crashes at once, so FuzzLex gets the time it left over
+  assertEquals(calls[0].fuzz, { target: 'FuzzParse', time: 15 });
+  assertEquals(calls[1].fuzz?.target, 'FuzzLex');
+  assert(calls[1].fuzz!.time >= 29);
+  assertEquals(calls[0].run, '^$');
+  assertEquals(results.ok && results.data.map((r) => [r.status, r.crasher?.input]), [
+    ['failed', 'parse/testdata/fuzz/FuzzParse/e091e3ffd4df0887'],
+    ['passed', undefined],
+  ]);
+});
+
+Deno.test('FuzzRunner - reports failing corpus entries', () => {
+  assertEquals(FuzzRunner.parseCrasher(CRASH_OUTPUT, '.'), {
+    input: 'testdata/fuzz/FuzzParse/e091e3ffd4df0887',
+    message: 'testing.go:1504: panic: bad input',
+    new: true,
+  });
+
+  const seed = 'failure while testing seed corpus entry: FuzzParse/e091e3ffd4df0887\n' +
+    '--- FAIL: FuzzParse (0.01s)\n    --- FAIL: FuzzParse (0.00s)\n' +
+    '        parse_test.go:9: unexpected length\n';
+  assertEquals(FuzzRunner.parseCrasher(seed, './internal/parse'), {
+    input: 'internal/parse/testdata/fuzz/FuzzParse/e091e3ffd4df0887',
+    message: 'parse_test.go:9: unexpected length',
+    new: false,
+  });
+  assertEquals(FuzzRunner.parseCrasher('ok  \texample.com/app/parse\t1.2s', './parse'), undefined);
+});
@@ -3,6 +3,7 @@ import { DomainOrchestrator } from '../src/domains/orchestrator/index.ts';
 import { createEventBus } from '../src/shared/event-bus.ts';
 import { createInfrastructureAdapters } from '../src/infrastructure/index.ts';
 import { join } from '@std/path';
+import { exists } from '@std/fs';
 
 const FIXTURES_DIR = join(Deno.cwd(), 'tests', 'fixtures');
 
@@ -31,6 +32,7 @@ Deno.test('DDD Orchestrator - processes simple Go project successfully', async (
     adapters.environmentControl,
     orchestratorConfig,
     eventBus,
+    adapters.staticAnalysis,
   );
 
   // Prepare CLI args
@@ -87,6 +89,7 @@ Deno.test('DDD Orchestrator - processes multi-package project successfully', asy
     adapters.environmentControl,
     orchestratorConfig,
     eventBus,
+    adapters.staticAnalysis,
   );
 
   // Prepare CLI args
@@ -140,6 +143,7 @@ Deno.test('DDD Orchestrator - handles problematic project with fallback', async
     adapters.environmentControl,
     orchestratorConfig,
     eventBus,
+    adapters.staticAnalysis,
   );
 
   // Track fallback events
@@ -167,13 +171,78 @@ Deno.test('DDD Orchestrator - handles problematic project with fallback', async
   assertEquals(result.ok, true);
 
   if (result.ok) {
-    const { testResults } = result.data;
-    // Tests should have been executed
-    assertExists(testResults);
-    assertEquals(testResults.length > 0, true);
-    // The problematic tests should have failed
-    const hasFailures = testResults.some((r) => !r.success);
-    assertEquals(hasFailures, true);
+    const { build, testResults } = result.data;
+    // The unused variable is a compile error, so the build stage should fail
+    assertExists(build);
+    assertEquals(build.success, false);
+    assertEquals(build.diagnostics.some((d) => d.file === 'main.go' && d.line === 11), true);
+    // Tests should not run after a failed build
+    assertEquals(testResults, undefined);
+  }
+});
+
+Deno.test('DDD Orchestrator - re-runs failing packages with the fallback strategy', async () => {
+  const projectPath = await Deno.makeTempDir({ prefix: 'go-ci-fallback-' });
+  await Deno.writeTextFile(join(projectPath, 'go.mod'), 'module example.com/fallback\n\ngo 1.21\n');
+  for (const [name, expected] of [['good', 1], ['bad', 2]]) {
+    await Deno.mkdir(join(projectPath, `${name}`));
+    await Deno.writeTextFile(
+      join(projectPath, `${name}`, `${name}.go`),
+      `package ${name}\n\nfunc V() int { return 1 }\n`,
+    );
+    await Deno.writeTextFile(
+      join(projectPath, `${name}`, `${name}_test.go`),
+      `package ${name}\n\nimport "testing"\n\nfunc TestV(t *testing.T) {\n\tif V() != ${expected} {\n\t\tt.Fatal("mismatch")\n\t}\n}\n`,
+    );
+  }
+
+  const eventBus = createEventBus();
+  const adapters = createInfrastructureAdapters();
+  const orchestrator = new DomainOrchestrator(
+    adapters.appControl,
+    adapters.testExecution,
+    adapters.errorControl,
+    adapters.resourceManagement,
+    adapters.searchIntegration,
+    adapters.environmentControl,
+    { enableFallback: true, enableDocker: false, enableCoverage: false, maxConcurrency: 2 },
+    eventBus,
+    adapters.staticAnalysis,
+  );
+
+  const fallbacks: string[] = [];
+  eventBus.on('error:fallback-triggered', (event) => {
+    if (event.type === 'error:fallback-triggered') {
+      fallbacks.push(event.to);
+    }
+  });
+
+  try {
+    const result = await orchestrator.orchestrate([
+      '--working-directory',
+      projectPath,
+      '--enable-fallback',
+      '--stages',
+      'test',
+    ]);
+
+    assertEquals(result.ok, true);
+    if (result.ok) {
+      const { fallback, testResults } = result.data;
+      assertEquals(fallbacks, [
+        'directory-by-directory (concurrency: 5)',
+        'file-by-file (stop on error: false)',
+      ]);
+      assertEquals(fallback?.map((attempt) => [attempt.strategy.type, attempt.failed]), [
+        ['all-at-once', 1],
+        ['directory-by-directory', 1],
+        ['file-by-file', 1],
+      ]);
+      // The passing package is kept from the first run, the failing one comes from the re-run
+      assertEquals(testResults?.map((r) => r.success), [true, false]);
+    }
+  } finally {
+    await Deno.remove(projectPath, { recursive: true });
   }
 });
 
@@ -202,6 +271,7 @@ Deno.test('DDD Orchestrator - respects configuration options', async () => {
     adapters.environmentControl,
     orchestratorConfig,
     eventBus,
+    adapters.staticAnalysis,
   );
 
   // Track events if needed
@@ -234,3 +304,167 @@ Deno.test('DDD Orchestrator - respects configuration options', async () => {
     }
   }
 });
+
+Deno.test('DDD Orchestrator - reports the coverage of this run only', async () => {
+  const projectPath = await Deno.makeTempDir({ prefix: 'go-ci-coverage-' });
+  await Deno.writeTextFile(join(projectPath, 'go.mod'), 'module example.com/cov\n\ngo 1.21\n');
+  for (const name of ['a', 'b', 'c']) {
+    await Deno.mkdir(join(projectPath, name));
+    await Deno.writeTextFile(
+      join(projectPath, name, `${name}.go`),
+      `package ${name}\n\nfunc V(n int) int {\n\tif n < 0 {\n\t\treturn 0\n\t}\n\treturn n\n}\n`,
+    );
+    await Deno.writeTextFile(
+      join(projectPath, name, `${name}_test.go`),
+      `package ${name}\n\nimport "testing"\n\nfunc TestV(t *testing.T) {\n\tif V(1) != 1 {\n\t\tt.Fatal("mismatch")\n\t}\n}\n`,
+    );
+  }
+
+  // Profiles left by an earlier run are removed before the tests start
+  const profiles = join(projectPath, '.go-ci', 'coverage');
+  await Deno.mkdir(profiles, { recursive: true });
+  for (const index of [1, 2, 3, 4]) {
+    await Deno.writeTextFile(
+      join(profiles, `cover-${index}.out`),
+      'mode: set\nexample.com/cov/stale/stale.go:3.20,5.2 1 1\n',
+    );
+  }
+
+  const adapters = createInfrastructureAdapters();
+  const orchestrator = new DomainOrchestrator(
+    adapters.appControl,
+    adapters.testExecution,
+    adapters.errorControl,
+    adapters.resourceManagement,
+    adapters.searchIntegration,
+    adapters.environmentControl,
+    { enableFallback: false, enableDocker: false, enableCoverage: false, maxConcurrency: 1 },
+    createEventBus(),
+    adapters.staticAnalysis,
+  );
+
+  try {
+    const result = await orchestrator.orchestrate([
+      '--working-directory',
+      projectPath,
+      '--mode',
+      'batch',
+      '--batch-size',
+      '1',
+      '--coverage',
+      '--stages',
+      'test,coverage',
+    ]);
+
+    assertEquals(result.ok, true);
+    if (result.ok) {
+      const { coverage, missingCoverProfiles, testResults } = result.data;
+      // Every batch writes its own numbered profile
+      assertEquals(
+        testResults?.map((r) => r.coverProfile?.slice(profiles.length + 1)).sort(),
+        ['cover-1.out', 'cover-2.out', 'cover-3.out'],
+      );
+      assertEquals(coverage?.packages.map((pkg) => pkg.package), [
+        'example.com/cov/a',
+        'example.com/cov/b',
+        'example.com/cov/c',
+      ]);
+      assertEquals(coverage?.summary.statements.covered, 6);
+      assertEquals(missingCoverProfiles, undefined);
+      assertEquals(await exists(join(profiles, 'cover-4.out')), false);
+    }
+  } finally {
+    await Deno.remove(projectPath, { recursive: true });
+  }
+});
+
+Deno.test('DDD Orchestrator - runs tests without static analysis checkers', async () => {
+  const adapters = createInfrastructureAdapters();
+  const orchestrator = new DomainOrchestrator(
+    adapters.appControl,
+    adapters.testExecution,
+    adapters.errorControl,
+    adapters.resourceManagement,
+    adapters.searchIntegration,
+    adapters.environmentControl,
+    { enableFallback: false, enableDocker: false, enableCoverage: false, maxConcurrency: 1 },
+    createEventBus(),
+  );
+
+  const result = await orchestrator.orchestrate([
+    '--working-directory',
+    join(FIXTURES_DIR, 'simple-go-project'),
+  ]);
+
+  assertEquals(result.ok, true);
+  if (result.ok) {
+    // Build, vet, fmt and lint are left out instead of blocking the tests
+    assertEquals(result.data.stages.map((stage) => stage.name), ['test']);
+    assertEquals(result.data.stages[0].status !== 'skipped', true);
+  }
+});
+
+Deno.test('DDD Orchestrator - reports coverage and missed thresholds when tests fail', async () => {
+  const projectPath = await Deno.makeTempDir({ prefix: 'go-ci-coverage-' });
+  await Deno.writeTextFile(join(projectPath, 'go.mod'), 'module example.com/cov\n\ngo 1.21\n');
+  for (const { name, expected } of [{ name: 'a', expected: 1 }, { name: 'b', expected: 2 }]) {
+    await Deno.mkdir(join(projectPath, name));
+    await Deno.writeTextFile(
+      join(projectPath, name, `${name}.go`),
+      `package ${name}\n\nfunc V(n int) int {\n\tif n < 0 {\n\t\treturn 0\n\t}\n\treturn n\n}\n`,
+    );
+    await Deno.writeTextFile(
+      join(projectPath, name, `${name}_test.go`),
+      `package ${name}\n\nimport "testing"\n\nfunc TestV(t *testing.T) {\n\tif V(1) != ${expected} {\n\t\tt.Fatal("mismatch")\n\t}\n}\n`,
+    );
+  }
+
+  const adapters = createInfrastructureAdapters();
+  const orchestrator = new DomainOrchestrator(
+    adapters.appControl,
+    adapters.testExecution,
+    adapters.errorControl,
+    adapters.resourceManagement,
+    adapters.searchIntegration,
+    adapters.environmentControl,
+    { enableFallback: false, enableDocker: false, enableCoverage: false, maxConcurrency: 1 },
+    createEventBus(),
+    adapters.staticAnalysis,
+  );
+
+  try {
+    const result = await orchestrator.orchestrate([
+      '--working-directory',
+      projectPath,
+      '--mode',
+      'batch',
+      '--batch-size',
+      '1',
+      '--coverage',
+      '--coverage-threshold',
+      '90',
+      '--stages',
+      'build,test,coverage',
+    ]);
+
+    assertEquals(result.ok, true);
+    if (result.ok) {
+      const { coverage, coverageThresholdFailures, stages } = result.data;
+      assertEquals(stages.map((stage) => [stage.name, stage.status]), [
+        ['build', 'passed'],
+        ['test', 'failed'],
+        ['coverage', 'failed'],
+      ]);
+      // The failing package still wrote its profile
+      assertEquals(coverage?.packages.map((pkg) => pkg.package), [
+        'example.com/cov/a',
+        'example.com/cov/b',
+      ]);
+      assertEquals(coverageThresholdFailures?.map((failure) => failure.value), [
+        coverage?.summary.statements.percentage,
+      ]);
+    }
+  } finally {
+    await Deno.remove(projectPath, { recursive: true });
+  }
+});
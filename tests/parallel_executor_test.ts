@@ -0,0 +1,83 @@
+import { assertEquals } from '@std/assert';
+import { TestExecutor } from '../src/domains/test-execution/test-executor.ts';
+import { ParallelTestExecutor } from '../src/domains/test-execution/parallel-executor.ts';
+import type { ProcessExecutor } from '../src/domains/test-execution/test-executor.ts';
+import { success } from '../src/shared/result.ts';
+
+Deno.test('ParallelTestExecutor - runs batches concurrently and splits results per package', async () => {
+  const commands: string[][] = [];
+  let running = 0;
+  let peak = 0;
+  const execute: ProcessExecutor['execute'] = async (command) => {
+    commands.push(command);
+    running++;
+    peak = Math.max(peak, running);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    running--;
+
+    const output: Record<string, string> = {
+      './b': '--- FAIL: TestB (0.00s)\n    b_test.go:7: boom\nFAIL\nFAIL\texample/b\t0.010s',
+    };
+    const stdout = command
+      .filter((arg) => arg.startsWith('./'))
+      .map((pkg) => output[pkg] ?? `ok  \texample/${pkg.slice(2)}\t0.020s`)
+      .join('\n');
+    return success({
+      exitCode: stdout.includes('FAIL') ? 1 : 0,
+      stdout,
+      stderr: '',
+      duration: 10,
+      killed: false,
+    });
+  };
+
+  const parallel = new ParallelTestExecutor(
+    new TestExecutor({ execute, executeStreaming: execute }, '/work'),
+    { maxConcurrency: 2, batchSize: 2, failFast: false },
+  );
+  const result = await parallel.executeParallel(
+    ['./a', './b', './c', './d', './e'],
+    { race: false, cover: false, verbose: false, short: false, failFast: false, timeout: 60 },
+  );
+
+  assertEquals(commands.length, 3);
+  assertEquals(peak, 2);
+  assertEquals(result.ok, true);
+  if (result.ok) {
+    assertEquals(
+      result.data.map((r) => r.target.type === 'package' && r.target.importPath.getValue()),
+      ['example/a', 'example/b', 'example/c', 'example/d', 'example/e'],
+    );
+    assertEquals(result.data.map((r) => r.success), [true, false, true, true, true]);
+    assertEquals(result.data[1].processResult.stdout.includes('b_test.go:7: boom'), true);
+  }
+});
+
+Deno.test('ParallelTestExecutor - packs batches longest first from historical durations', async () => {
+  const batches: string[][] = [];
+  const execute: ProcessExecutor['execute'] = (command) => {
+    const packages = command.filter((arg) => arg.startsWith('./'));
+    batches.push(packages);
+    const stdout = packages.map((pkg) => `ok  \texample/${pkg.slice(2)}\t0.020s`).join('\n');
+    return Promise.resolve(
+      success({ exitCode: 0, stdout, stderr: '', duration: 10, killed: false }),
+    );
+  };
+
+  // ./e has no history and counts as the 55ms average
+  const parallel = new ParallelTestExecutor(
+    new TestExecutor({ execute, executeStreaming: execute }, '/work'),
+    {
+      maxConcurrency: 1,
+      batchSize: 2,
+      failFast: false,
+      historicalData: new Map([['./a', 100], ['./b', 90], ['./c', 10], ['./d', 20]]),
+    },
+  );
+  await parallel.executeParallel(
+    ['./a', './b', './c', './d', './e'],
+    { race: false, cover: false, verbose: false, short: false, failFast: false, timeout: 60 },
+  );
+
+  assertEquals(batches, [['./a'], ['./b', './c'], ['./e', './d']]);
+});
@@ -0,0 +1,64 @@
+import { assertEquals } from '@std/assert';
+import { RaceDetector } from '../src/domains/test-execution/race-detector.ts';
+
+const event = (fields: Record<string, unknown>) =>
+  JSON.stringify({ Package: 'example/pkg', ...fields });
+
+Deno.test('RaceDetector - parses data races and deduplicates them by location', () => {
+  const race = (test: string) => [
+    '==================',
+    'WARNING: DATA RACE',
+    'Read at 0x000000725da8 by goroutine 8:',
+    '  example.com/race/r.Inc()',
+    '      /src/r/counter.go:5 +0x30',
+    `  example.com/race/r.${test}.func1()`,
+    '      /src/r/r_test.go:7 +0xe',
+    '',
+    'Previous write at 0x000000725da8 by main goroutine:',
+    '  example.com/race/r.Inc()',
+    '      /src/r/counter.go:9 +0xc4',
+    '',
+    'Goroutine 8 (running) created at:',
+    `  example.com/race/r.${test}()`,
+    '      /src/r/r_test.go:6 +0x9c',
+    '==================',
+  ];
+  const text = [
+    ...race('TestRace'),
+    '--- FAIL: TestRace (0.00s)',
+    '    testing.go:1465: race detected during execution of test',
+    'FAIL',
+    'FAIL\texample.com/race/r\t0.015s',
+  ].join('\n');
+  const json = race('TestAlsoRace')
+    .map((line) =>
+      event({
+        Action: 'output',
+        Package: 'example.com/race/s',
+        Test: 'TestAlsoRace',
+        Output: `${line}\n`,
+      })
+    )
+    .join('\n');
+
+  const [parsed] = RaceDetector.parse(text);
+  assertEquals(parsed.location, '/src/r/counter.go:5 <-> /src/r/counter.go:9');
+  assertEquals(parsed.packages, ['example.com/race/r']);
+  assertEquals(parsed.tests, ['TestRace']);
+  assertEquals(parsed.accesses.map((a) => [a.operation, a.goroutine, a.stack.length]), [
+    ['Read', '8', 2],
+    ['Previous write', 'main', 1],
+  ]);
+  assertEquals(parsed.accesses[0].createdAt, [
+    { function: 'example.com/race/r.TestRace()', file: '/src/r/r_test.go', line: 6 },
+  ]);
+
+  const races = RaceDetector.deduplicate([
+    ...RaceDetector.parse(text),
+    ...RaceDetector.parse(json),
+  ]);
+  assertEquals(races.length, 1);
+  assertEquals(races[0].packages, ['example.com/race/r', 'example.com/race/s']);
+  assertEquals(races[0].tests, ['TestRace', 'TestAlsoRace']);
+  assertEquals(races[0].occurrences, 2);
+});
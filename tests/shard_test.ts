@@ -0,0 +1,84 @@
+import { assertEquals } from '@std/assert';
+import { ShardPlanner } from '../src/domains/resource-management/shard-planner.ts';
+import { ShardReportMerger } from '../src/domains/search-integration/shard-report.ts';
+import { CoverageProfile } from '../src/domains/search-integration/coverage-profile.ts';
+import { Shard } from '../src/domains/application-control/types.ts';
+import type { ShardReport } from '../src/domains/search-integration/types.ts';
+
+const PACKAGES = ['./api', './cmd/app', './internal/db', './internal/log', './pkg/a', './pkg/b'];
+
+Deno.test('ShardPlanner - hash partition is stable and covers every package once', () => {
+  const shards = ShardPlanner.partition(PACKAGES, 3);
+  const reordered = ShardPlanner.partition([...PACKAGES].reverse(), 3);
+
+  assertEquals(shards, reordered);
+  assertEquals(shards.flat().sort(), PACKAGES);
+  assertEquals(ShardPlanner.select(PACKAGES, { index: 2, total: 3 }), shards[1]);
+});
+
+Deno.test('ShardPlanner - timings balance the shards by duration', () => {
+  const timings = new Map([
+    ['./api', 9000],
+    ['./cmd/app', 5000],
+    ['./internal/db', 4000],
+    ['./pkg/a', 1000],
+  ]);
+
+  // ./internal/log and ./pkg/b have no timing and count as the 4750ms average
+  assertEquals(ShardPlanner.partition(PACKAGES, 2, timings), [
+    ['./api', './pkg/a', './pkg/b'],
+    ['./cmd/app', './internal/db', './internal/log'],
+  ]);
+});
+
+Deno.test('Shard - parses i/n', () => {
+  const shard = Shard.create('2/4');
+  assertEquals(shard.ok && [shard.data.index, shard.data.total], [2, 4]);
+  assertEquals(Shard.create('0/4').ok, false);
+  assertEquals(Shard.create('5/4').ok, false);
+  assertEquals(Shard.create('2-4').ok, false);
+});
+
+Deno.test('ShardReportMerger - merges shards and reports missing or duplicate ones', () => {
+  const report = (shard: number, pkg: string, success: boolean): ShardReport => ({
+    version: 1,
+    total: 3,
+    shards: [shard],
+    packages: [`./${pkg}`],
+    results: [{
+      target: `./${pkg}`,
+      package: `example.com/${pkg}`,
+      status: success ? 'passed' : 'failed',
+      success,
+      duration: 10,
+      exitCode: success ? 0 : 1,
+      tests: [],
+    }],
+  });
+
+  const merged = ShardReportMerger.merge(
+    [report(3, 'c', false), report(1, 'a', true)],
+    CoverageProfile.merge,
+  );
+  assertEquals(merged.ok, true);
+  if (merged.ok) {
+    assertEquals(merged.data.shards, [1, 3]);
+    assertEquals(merged.data.packages, ['./c', './a']);
+    assertEquals(ShardReportMerger.missingShards(merged.data), [2]);
+    assertEquals(
+      ShardReportMerger.toExecutionResults(merged.data).map((r) => [r.packages[0].name, r.success]),
+      [['example.com/c', false], ['example.com/a', true]],
+    );
+    assertEquals(
+      ShardReportMerger.parse(JSON.stringify(merged.data), 'merged.json').ok,
+      true,
+    );
+  }
+
+  const duplicate = ShardReportMerger.merge(
+    [report(1, 'a', true), report(1, 'b', true)],
+    CoverageProfile.merge,
+  );
+  assertEquals(duplicate.ok, false);
+  assertEquals(ShardReportMerger.parse('{"version":2}', 'old.json').ok, false);
+});
@@ -0,0 +1,99 @@
+import { assertEquals } from '@std/assert';
+import {
+  DEFAULT_STAGES,
+  StageGraph,
+  StageScheduler,
+} from '../src/domains/orchestrator/stage-graph.ts';
+import type { StageDefinition } from '../src/domains/orchestrator/stage-graph.ts';
+import { createEventBus } from '../src/shared/event-bus.ts';
+
+const stageNames = (stages: ReadonlyArray<StageDefinition>) => stages.map((stage) => stage.name);
+
+Deno.test('StageGraph - default pipeline order', () => {
+  const graph = StageGraph.create(DEFAULT_STAGES);
+
+  assertEquals(graph.ok, true);
+  if (graph.ok) {
+    assertEquals(stageNames(graph.data.stages), ['build', 'test', 'vet', 'fmt', 'lint']);
+  }
+});
+
+Deno.test('StageGraph - order selects and reorders stages', () => {
+  const graph = StageGraph.create(DEFAULT_STAGES, {
+    order: ['fmt', 'vet', 'build'],
+    disabled: ['vet'],
+  });
+
+  assertEquals(graph.ok, true);
+  if (graph.ok) {
+    assertEquals(stageNames(graph.data.stages), ['fmt', 'build']);
+  }
+});
+
+Deno.test('StageGraph - rejects unknown stages and cycles', () => {
+  assertEquals(StageGraph.create(DEFAULT_STAGES, { disabled: ['deploy'] }).ok, false);
+
+  const cyclic = StageGraph.create(DEFAULT_STAGES, {
+    overrides: [{ name: 'build', dependsOn: ['test'] }],
+  });
+  assertEquals(cyclic.ok, false);
+});
+
+Deno.test('StageScheduler - runs stages in order and emits stage events', async () => {
+  const eventBus = createEventBus();
+  const events: string[] = [];
+  eventBus.on('stage:started', (event) => {
+    if (event.type === 'stage:started') events.push(`start:${event.stage}`);
+  });
+  eventBus.on('stage:finished', (event) => {
+    if (event.type === 'stage:finished') events.push(`${event.status}:${event.stage}`);
+  });
+
+  const graph = StageGraph.create(DEFAULT_STAGES, {
+    custom: [{ name: 'generate', command: ['go', 'generate', './...'], blocking: true }],
+  });
+  assertEquals(graph.ok, true);
+  if (!graph.ok) return;
+
+  const scheduler = new StageScheduler(eventBus, 4);
+  const reports = await scheduler.run(graph.data, (stage) =>
+    Promise.resolve(
+      stage.name === 'test' || stage.name === 'generate'
+        ? { status: 'failed' as const }
+        : { status: 'passed' as const },
+    ));
+
+  assertEquals(
+    reports.map((report) => [report.name, report.status]),
+    [
+      ['build', 'passed'],
+      ['test', 'failed'],
+      ['vet', 'passed'],
+      ['fmt', 'passed'],
+      ['lint', 'passed'],
+      ['generate', 'failed'],
+    ],
+  );
+  assertEquals(events.slice(0, 4), ['start:build', 'passed:build', 'start:test', 'failed:test']);
+});
+
+Deno.test('StageScheduler - skips every pending stage after a blocking failure', async () => {
+  const graph = StageGraph.create(DEFAULT_STAGES);
+  assertEquals(graph.ok, true);
+  if (!graph.ok) return;
+
+  const scheduler = new StageScheduler(createEventBus(), 1);
+  const reports = await scheduler.run(graph.data, (stage) =>
+    Promise.resolve(
+      stage.name === 'build' ? { status: 'failed' as const } : { status: 'passed' as const },
+    ));
+
+  assertEquals(reports.map((report) => report.status), [
+    'failed',
+    'skipped',
+    'skipped',
+    'skipped',
+    'skipped',
+  ]);
+  assertEquals(reports[3].reason, 'blocked by failed stage build');
+});
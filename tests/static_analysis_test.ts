@@ -0,0 +1,353 @@
+import { assertEquals } from '@std/assert';
+import {
+  CompilerDiagnosticParser,
+  FormatOutputParser,
+  VetOutputParser,
+} from '../src/domains/static-analysis/diagnostic-parser.ts';
+import { GoBuildCommandBuilder } from '../src/domains/static-analysis/build-checker.ts';
+import { GoVetCommandBuilder } from '../src/domains/static-analysis/vet-analyzer.ts';
+import {
+  GolangciLintAdapter,
+  GosecAdapter,
+  StaticcheckAdapter,
+} from '../src/domains/static-analysis/lint-adapters.ts';
+import { LintRunner } from '../src/domains/static-analysis/lint-runner.ts';
+import type { ProcessExecutor } from '../src/domains/test-execution/test-executor.ts';
+import type { ProcessResult } from '../src/domains/test-execution/types.ts';
+import { failure, success } from '../src/shared/result.ts';
+
+const processResult = (stdout: string, exitCode = 0): ProcessResult => ({
+  exitCode,
+  stdout,
+  stderr: '',
+  duration: 1,
+  killed: false,
+});
+
+Deno.test('CompilerDiagnosticParser - parses go build output', () => {
+  const output = [
+    '# example.com/project/pkg/api',
+    'pkg/api/handler.go:12:5: undefined: render',
+    'pkg/api/handler.go:20:2: cannot use x (variable of type int) as string value',
+    '\thave int',
+    '\twant string',
+    '# example.com/project/cmd',
+    './main.go:7: missing return',
+  ].join('\n');
+
+  const diagnostics = CompilerDiagnosticParser.parse(output);
+
+  assertEquals(diagnostics.length, 3);
+  assertEquals(diagnostics[0], {
+    package: 'example.com/project/pkg/api',
+    file: 'pkg/api/handler.go',
+    line: 12,
+    column: 5,
+    message: 'undefined: render',
+  });
+  assertEquals(
+    diagnostics[1].message,
+    'cannot use x (variable of type int) as string value\nhave int\nwant string',
+  );
+  assertEquals(diagnostics[2].file, 'main.go');
+  assertEquals(diagnostics[2].column, undefined);
+  assertEquals(CompilerDiagnosticParser.failedPackages(diagnostics), [
+    'example.com/project/pkg/api',
+    'example.com/project/cmd',
+  ]);
+});
+
+Deno.test('GoBuildCommandBuilder - rejects empty targets', () => {
+  const result = GoBuildCommandBuilder.build([], { timeout: 60 });
+  assertEquals(result.ok, false);
+});
+
+Deno.test('GoBuildCommandBuilder - discards build output', () => {
+  const result = GoBuildCommandBuilder.build(['./cmd/app', './pkg/math'], {
+    timeout: 60,
+    tags: ['integration'],
+  });
+
+  assertEquals(result.ok, true);
+  if (result.ok) {
+    assertEquals(result.data.args.slice(0, 3), ['go', 'build', '-o']);
+    assertEquals(result.data.args.slice(-3), ['-tags=integration', './cmd/app', './pkg/math']);
+  }
+});
+
+Deno.test('VetOutputParser - parses text findings and type errors', () => {
+  const output = [
+    '# example.com/project/pkg/api',
+    './handler.go:8:2: fmt.Printf format %d has arg s of wrong type string',
+    '# example.com/project/cmd',
+    'vet: ./main.go:11:2: declared and not used: unused',
+  ].join('\n');
+
+  const diagnostics = VetOutputParser.parse(output);
+
+  assertEquals(diagnostics.length, 2);
+  assertEquals(diagnostics[0].package, 'example.com/project/pkg/api');
+  assertEquals(diagnostics[0].file, 'handler.go');
+  assertEquals(diagnostics[1].file, 'main.go');
+  assertEquals(diagnostics[1].message, 'declared and not used: unused');
+});
+
+Deno.test('VetOutputParser - parses -json findings with analyzer names', () => {
+  const output = [
+    '# example.com/project/pkg/api',
+    '{',
+    '\t"example.com/project/pkg/api": {',
+    '\t\t"printf": [',
+    '\t\t\t{',
+    '\t\t\t\t"posn": "/work/pkg/api/handler.go:8:2",',
+    '\t\t\t\t"message": "fmt.Printf format %d has arg s of wrong type string"',
+    '\t\t\t}',
+    '\t\t]',
+    '\t}',
+    '}',
+  ].join('\n');
+
+  const diagnostics = VetOutputParser.parse(output);
+
+  assertEquals(diagnostics, [{
+    package: 'example.com/project/pkg/api',
+    analyzer: 'printf',
+    file: '/work/pkg/api/handler.go',
+    line: 8,
+    column: 2,
+    message: 'fmt.Printf format %d has arg s of wrong type string',
+  }]);
+});
+
+Deno.test('VetOutputParser - skips malformed -json entries', () => {
+  const report = {
+    'example.com/project/pkg': {
+      printf: [
+        { posn: 42, message: 'position is not a string' },
+        { posn: '/work/pkg/a.go:3:1' },
+        'not an entry',
+        { posn: '/work/pkg/a.go:4:2', message: 'kept' },
+      ],
+      shadow: { error: 'analyzer failed' },
+    },
+  };
+  const output = ['# example.com/project/pkg', JSON.stringify(report, null, '\t')].join('\n');
+
+  assertEquals(VetOutputParser.parse(output).map((d) => [d.line, d.message]), [[4, 'kept']]);
+});
+
+Deno.test('GoVetCommandBuilder - adds -json before targets', () => {
+  const result = GoVetCommandBuilder.build(['./...'], { timeout: 60, json: true });
+
+  assertEquals(result.ok, true);
+  if (result.ok) {
+    assertEquals(result.data.args, ['go', 'vet', '-json', './...']);
+  }
+});
+
+Deno.test('FormatOutputParser - splits gofmt -d output per file', () => {
+  const output = [
+    'diff ./a.go.orig ./a.go',
+    '--- ./a.go.orig',
+    '+++ ./a.go',
+    '@@ -1,2 +1,3 @@',
+    ' package main',
+    '-func main(){}',
+    '+',
+    '+func main() {}',
+    'diff -u ./sub/b.go.orig ./sub/b.go',
+    '--- ./sub/b.go.orig',
+    '+++ ./sub/b.go',
+    '@@ -1 +1 @@',
+    '-package  sub',
+    '+package sub',
+    '',
+  ].join('\n');
+
+  const diffs = FormatOutputParser.splitDiffs(output);
+
+  assertEquals([...diffs.keys()], ['a.go', 'sub/b.go']);
+  assertEquals(diffs.get('sub/b.go')?.split('\n')[0], '--- ./sub/b.go.orig');
+  assertEquals(FormatOutputParser.listedFiles('./a.go\nsub/b.go\n'), ['a.go', 'sub/b.go']);
+});
+
+Deno.test('StaticcheckAdapter - parses JSON lines into lint issues', () => {
+  const stdout = [
+    '{"code":"SA4006","severity":"error","location":{"file":"/work/main.go","line":5,"column":2},"message":"value never used"}',
+    '{"code":"ST1005","severity":"warning","location":{"file":"/work/util.go","line":9,"column":9},"message":"error strings should not be capitalized"}',
+  ].join('\n');
+
+  const issues = new StaticcheckAdapter().parse(processResult(stdout, 1));
+
+  assertEquals(issues.length, 2);
+  assertEquals(issues[0], {
+    tool: 'staticcheck',
+    ruleId: 'SA4006',
+    severity: 'error',
+    file: '/work/main.go',
+    line: 5,
+    column: 2,
+    message: 'value never used',
+  });
+  assertEquals(issues[1].severity, 'warning');
+});
+
+Deno.test('GosecAdapter - maps rule ids, severities and line ranges', () => {
+  const stdout = JSON.stringify({
+    Issues: [{
+      severity: 'HIGH',
+      rule_id: 'G304',
+      details: 'Potential file inclusion via variable',
+      file: '/work/main.go',
+      line: '12-14',
+      column: '9',
+    }],
+  });
+
+  const issues = new GosecAdapter().parse(processResult(stdout, 1));
+
+  assertEquals(issues.length, 1);
+  assertEquals(issues[0].ruleId, 'G304');
+  assertEquals(issues[0].severity, 'error');
+  assertEquals(issues[0].line, 12);
+});
+
+Deno.test('Lint adapters - ignore malformed JSON fields', () => {
+  const golangci = JSON.stringify({
+    Issues: [
+      'not an issue',
+      { FromLinter: 'govet', Text: 42, Pos: { Filename: '/work/a.go', Line: '7', Column: 3 } },
+    ],
+  });
+  const staticcheck = [
+    '{"code":"SA1000","location":"main.go:1:1","message":"location is not an object"}',
+    '{"code":5,"severity":"error","location":{"file":"/work/b.go","line":2},"message":"kept"}',
+  ].join('\n');
+  const gosec = JSON.stringify({ Issues: [null, { rule_id: 'G101', line: 12, column: 'x' }] });
+
+  assertEquals(new GolangciLintAdapter().parse(processResult(golangci, 1)), [{
+    tool: 'golangci-lint',
+    ruleId: 'govet',
+    severity: 'warning',
+    file: '/work/a.go',
+    line: 0,
+    column: 3,
+    message: '',
+  }]);
+  assertEquals(
+    new StaticcheckAdapter().parse(processResult(staticcheck, 1)).map((
+      issue,
+    ) => [issue.ruleId, issue.message]),
+    [['staticcheck', 'kept']],
+  );
+  assertEquals(new GosecAdapter().parse(processResult(gosec, 1)), [{
+    tool: 'gosec',
+    ruleId: 'G101',
+    severity: 'warning',
+    file: '',
+    line: 0,
+    column: undefined,
+    message: '',
+  }]);
+});
+
+Deno.test('LintRunner - reports missing tools as skipped', async () => {
+  const execute: ProcessExecutor['execute'] = (command) =>
+    Promise.resolve(
+      command[0] === 'staticcheck'
+        ? success(processResult(''))
+        : failure(new Error(`No such file or directory: ${command[0]}`)),
+    );
+  const executor: ProcessExecutor = { execute, executeStreaming: execute };
+
+  const runner = new LintRunner(executor, '/work');
+  const result = await runner.lint(['./...'], { timeout: 60 });
+
+  assertEquals(result.ok, true);
+  if (result.ok) {
+    assertEquals(result.data.success, true);
+    assertEquals(
+      result.data.reports.map((report) => [report.tool, report.status]),
+      [
+        ['golangci-lint', 'skipped'],
+        ['staticcheck', 'passed'],
+        ['errcheck', 'skipped'],
+        ['gosec', 'skipped'],
+      ],
+    );
+  }
+});
+
+Deno.test('LintRunner - skips tools not on PATH without running them', async () => {
+  const commands: string[][] = [];
+  const execute: ProcessExecutor['execute'] = (command) => {
+    commands.push(command);
+    return Promise.resolve(success(processResult('')));
+  };
+  const executor: ProcessExecutor = {
+    execute,
+    executeStreaming: execute,
+    locate: (command) =>
+      Promise.resolve(command === 'staticcheck' ? '/usr/local/bin/staticcheck' : undefined),
+  };
+
+  const runner = new LintRunner(executor, '/work');
+  const result = await runner.lint(['./...'], { timeout: 60 });
+
+  assertEquals(result.ok, true);
+  if (result.ok) {
+    assertEquals(commands.map((command) => command[0]), ['staticcheck']);
+    assertEquals(
+      result.data.reports.map((report) => report.status === 'skipped' ? report.reason : ''),
+      ['golangci-lint is not on PATH', '', 'errcheck is not on PATH', 'gosec is not on PATH'],
+    );
+  }
+});
+
+Deno.test('LintRunner - runs the tools golangci-lint includes as its linters', async () => {
+  const commands: string[][] = [];
+  let version = 2;
+  const execute: ProcessExecutor['execute'] = (command) => {
+    commands.push(command);
+    return Promise.resolve(success(
+      command[0] === 'golangci-lint' && version === 1
+        ? { ...processResult('', 3), stderr: 'Error: unknown flag: --output.json.path' }
+        : processResult(''),
+    ));
+  };
+  const executor: ProcessExecutor = {
+    execute,
+    executeStreaming: execute,
+    locate: (command) => Promise.resolve(`/usr/bin/${command}`),
+  };
+  const runner = new LintRunner(executor, '/work');
+
+  const result = await runner.lint(['./...'], { timeout: 60 });
+  assertEquals(result.ok, true);
+  if (result.ok) {
+    assertEquals(commands, [[
+      'golangci-lint',
+      'run',
+      '--output.json.path=stdout',
+      '--enable=staticcheck,errcheck,gosec',
+      './...',
+    ]]);
+    assertEquals(
+      result.data.reports.map((report) => report.status === 'skipped' ? report.reason : ''),
+      ['', 'run by golangci-lint', 'run by golangci-lint', 'run by golangci-lint'],
+    );
+  }
+
+  // golangci-lint v1 does not understand the v2 flags, so the tools run on their own
+  version = 1;
+  commands.length = 0;
+  const v1 = await runner.lint(['./...'], { timeout: 60, tools: ['golangci-lint', 'errcheck'] });
+  assertEquals(v1.ok, true);
+  if (v1.ok) {
+    assertEquals(commands.map((command) => command[0]), ['golangci-lint', 'errcheck']);
+    assertEquals(v1.data.reports.map((report) => [report.tool, report.status]), [
+      ['golangci-lint', 'skipped'],
+      ['errcheck', 'passed'],
+    ]);
+  }
+});
@@ -0,0 +1,109 @@
+import { assertEquals } from '@std/assert';
+import { TestDiagnosticParser } from '../src/domains/test-execution/test-diagnostic-parser.ts';
+import { classifyExitCode } from '../src/domains/test-execution/types.ts';
+import type { ProcessResult } from '../src/domains/test-execution/types.ts';
+import { ReportGenerator } from '../src/domains/search-integration/report-generator.ts';
+import { success } from '../src/shared/result.ts';
+
+// go test ./... prints the package markers to stdout and the compiler output to stderr
+const STDOUT = [
+  'FAIL\texample.com/diag/setup [setup failed]',
+  'FAIL\texample.com/diag/badtest [build failed]',
+  'FAIL\texample.com/diag/broken [build failed]',
+  '?   \texample.com/diag/notests\t[no test files]',
+  'ok  \texample.com/diag/ok\t0.002s',
+  'FAIL\texample.com/diag/vetfail [build failed]',
+  'FAIL',
+].join('\n');
+
+const STDERR = [
+  '# example.com/diag/setup',
+  'setup/setup_test.go:5:2: no required module provides package example.com/diag/nothere',
+  '# example.com/diag/badtest [example.com/diag/badtest.test]',
+  'badtest/badtest_test.go:5:40: cannot use "s" (untyped string constant) as int value',
+  '# example.com/diag/broken [example.com/diag/broken.test]',
+  'broken/broken.go:3:23: undefined: undefinedThing',
+  '# example.com/diag/vetfail',
+  'vetfail/vetfail.go:5:26: fmt.Sprintf format %d has arg "x" of wrong type string',
+].join('\n');
+
+const processResult = (exitCode: number, stdout: string, stderr = ''): ProcessResult => ({
+  exitCode,
+  stdout,
+  stderr,
+  duration: 1,
+  killed: false,
+});
+
+Deno.test('TestDiagnosticParser - tells build, setup and vet failures apart', () => {
+  const packages = TestDiagnosticParser.parse(`${STDOUT}\n${STDERR}`);
+
+  assertEquals(packages.map((pkg) => [pkg.package, pkg.kind]), [
+    ['example.com/diag/setup', 'setup-failed'],
+    ['example.com/diag/badtest', 'build-failed'],
+    ['example.com/diag/broken', 'build-failed'],
+    ['example.com/diag/notests', 'no-test-files'],
+    // The package itself compiles for go test's vet check, not for the test binary
+    ['example.com/diag/vetfail', 'vet-failed'],
+  ]);
+  assertEquals(packages[2].diagnostics.map((d) => [d.file, d.line, d.column, d.message]), [
+    ['broken/broken.go', 3, 23, 'undefined: undefinedThing'],
+  ]);
+  assertEquals(packages[3].diagnostics, []);
+});
+
+Deno.test('TestDiagnosticParser - gives a failing dependency its importers errors', () => {
+  // lib does not compile; app imports it and only gets a marker
+  const stdout = 'FAIL\texample.com/m/app [build failed]\nFAIL\n';
+  const stderr = '# example.com/m/lib\nlib/lib.go:4:9: undefined: missing\n';
+  const [app] = TestDiagnosticParser.parse(`${stdout}\n${stderr}`);
+
+  assertEquals(app.package, 'example.com/m/app');
+  assertEquals(app.kind, 'build-failed');
+  assertEquals(app.diagnostics.map((d) => d.file), ['lib/lib.go']);
+});
+
+Deno.test('classifyExitCode - separates compile errors from failing assertions', () => {
+  const build = classifyExitCode(processResult(1, STDOUT, STDERR));
+  assertEquals(build.type, 'build-error');
+  if (build.type === 'build-error') {
+    assertEquals(build.packages.length, 4);
+  }
+
+  const vet = classifyExitCode(
+    processResult(
+      1,
+      'FAIL\texample.com/diag/vetfail [build failed]\nFAIL\n',
+      '# example.com/diag/vetfail\nvetfail/vetfail.go:5:26: bad format\n',
+    ),
+  );
+  assertEquals(vet.type, 'vet-error');
+
+  const failing = classifyExitCode(
+    processResult(1, '--- FAIL: TestAdd (0.00s)\nFAIL\nFAIL\texample.com/diag/ok\t0.002s\n'),
+  );
+  assertEquals(failing, { type: 'test-failure', code: 1 });
+});
+
+Deno.test('ReportGenerator - lists build failures in the HTML report', async () => {
+  const generator = new ReportGenerator({ write: () => Promise.resolve(success(undefined)) });
+  const result = await generator.generateTestReport([{
+    target: { type: 'all-packages', pattern: './...' },
+    processResult: processResult(1, STDOUT, STDERR),
+    startTime: 0,
+    endTime: 1,
+    success: false,
+    status: 'failed',
+    duration: 1,
+    packages: [],
+  }], { format: { type: 'html' }, includeStdout: false, includeSystemInfo: false });
+
+  assertEquals(result.ok, true);
+  if (result.ok) {
+    assertEquals(result.data.includes('<h2>Build Failures</h2>'), true);
+    assertEquals(
+      result.data.includes('<code>broken/broken.go:3:23: undefined: undefinedThing</code>'),
+      true,
+    );
+  }
+});
@@ -0,0 +1,181 @@
+import { assertEquals } from '@std/assert';
+import { TestEventParser } from '../src/domains/test-execution/test-event-parser.ts';
+import { TestResultAnalyzer } from '../src/domains/test-execution/result-analyzer.ts';
+import { TestExecutor } from '../src/domains/test-execution/test-executor.ts';
+import type { ProcessExecutor } from '../src/domains/test-execution/test-executor.ts';
+import type { TestEvent, TestExecutionResult } from '../src/domains/test-execution/types.ts';
+import { success } from '../src/shared/result.ts';
+
+const event = (fields: Record<string, unknown>) =>
+  JSON.stringify({ Package: 'example/pkg', ...fields });
+
+const STREAM = [
+  event({ Action: 'start' }),
+  event({ Action: 'run', Test: 'TestAdd' }),
+  event({ Action: 'output', Test: 'TestAdd', Output: '=== RUN   TestAdd\n' }),
+  event({ Action: 'output', Test: 'TestAdd', Output: '--- PASS: TestAdd (0.01s)\n' }),
+  event({ Action: 'pass', Test: 'TestAdd', Elapsed: 0.01 }),
+  event({ Action: 'run', Test: 'TestBroken' }),
+  event({ Action: 'pause', Test: 'TestBroken' }),
+  event({ Action: 'cont', Test: 'TestBroken' }),
+  event({ Action: 'output', Test: 'TestBroken', Output: '    add_test.go:12: expected 4\n' }),
+  event({ Action: 'fail', Test: 'TestBroken', Elapsed: 0.25 }),
+  event({ Action: 'run', Test: 'TestSkip' }),
+  event({ Action: 'skip', Test: 'TestSkip', Elapsed: 0 }),
+  event({ Action: 'bench', Test: 'BenchmarkAdd', Output: 'BenchmarkAdd  1000  12 ns/op\n' }),
+  event({ Action: 'output', Output: 'FAIL\n' }),
+  event({ Action: 'fail', Elapsed: 0.3 }),
+  'not json: build output',
+].join('\n');
+
+Deno.test('TestEventParser - folds events into package and test results', () => {
+  const [pkg, ...rest] = TestEventParser.parse(STREAM);
+
+  assertEquals(rest.length, 0);
+  assertEquals(pkg.name, 'example/pkg');
+  assertEquals(pkg.status, 'failed');
+  assertEquals(pkg.duration, 300);
+  assertEquals(pkg.output, 'FAIL');
+  assertEquals(
+    pkg.tests.map((test) => [test.name, test.status, test.passed, test.duration]),
+    [
+      ['TestAdd', 'passed', true, 10],
+      ['TestBroken', 'failed', false, 250],
+      ['TestSkip', 'skipped', true, 0],
+      ['BenchmarkAdd', 'passed', true, undefined],
+    ],
+  );
+  assertEquals(pkg.tests[0].output, undefined);
+  assertEquals(pkg.tests[1].output, '    add_test.go:12: expected 4');
+});
+
+Deno.test('TestEventParser - unfinished tests count as failed', () => {
+  const stream = [
+    event({ Action: 'run', Test: 'TestHang' }),
+    event({ Action: 'output', Test: 'TestHang', Output: 'panic: test timed out\n' }),
+  ].join('\n');
+
+  const [pkg] = TestEventParser.parse(stream);
+
+  assertEquals(pkg.tests[0].status, 'failed');
+  assertEquals(pkg.passed, false);
+});
+
+Deno.test('TestResultAnalyzer - uses parsed packages when available', () => {
+  const result: TestExecutionResult = {
+    target: { type: 'all-packages', pattern: './...' },
+    processResult: { exitCode: 1, stdout: STREAM, stderr: '', duration: 300, killed: false },
+    startTime: 0,
+    endTime: 300,
+    success: false,
+    status: 'failed',
+    duration: 300,
+    packages: TestEventParser.parse(STREAM),
+  };
+
+  const analysis = TestResultAnalyzer.analyze(result);
+
+  assertEquals(analysis.ok, true);
+  if (analysis.ok) {
+    assertEquals([analysis.data.passed, analysis.data.failed, analysis.data.skipped], [2, 1, 1]);
+    assertEquals(analysis.data.failures[0].test, 'TestBroken');
+    assertEquals(analysis.data.failures[0].file, 'add_test.go');
+    assertEquals(analysis.data.failures[0].line, 12);
+  }
+});
+
+Deno.test('TestExecutor - streams -json events to the listener', async () => {
+  const processResult = { exitCode: 1, stdout: STREAM, stderr: '', duration: 300, killed: false };
+  const executor: ProcessExecutor = {
+    execute: () => Promise.reject(new Error('expected streaming execution')),
+    executeStreaming: (_command, _options, onLine) => {
+      STREAM.split('\n').forEach((line) => onLine({ stream: 'stdout', line }));
+      onLine({ stream: 'stderr', line: '{"Action":"pass"}' });
+      return Promise.resolve(success(processResult));
+    },
+  };
+
+  const events: TestEvent[] = [];
+  const result = await new TestExecutor(executor, '/work').test(
+    './...',
+    {
+      race: false,
+      cover: false,
+      verbose: false,
+      short: false,
+      failFast: false,
+      timeout: 60,
+      json: true,
+    },
+    undefined,
+    (event) => events.push(event),
+  );
+
+  assertEquals(result.ok, true);
+  assertEquals(events.length, 15);
+  assertEquals(events.at(-1), { Package: 'example/pkg', Action: 'fail', Elapsed: 0.3 });
+  if (result.ok) {
+    assertEquals(result.data.packages?.[0].status, 'failed');
+  }
+});
+
+Deno.test('TestExecutor - hands -json events over after exit without a streaming executor', async () => {
+  const processResult = { exitCode: 1, stdout: STREAM, stderr: '', duration: 300, killed: false };
+  const executor: ProcessExecutor = { execute: () => Promise.resolve(success(processResult)) };
+
+  const events: TestEvent[] = [];
+  const result = await new TestExecutor(executor, '/work').test(
+    './...',
+    {
+      race: false,
+      cover: false,
+      verbose: false,
+      short: false,
+      failFast: false,
+      timeout: 60,
+      json: true,
+    },
+    undefined,
+    (event) => events.push(event),
+  );
+
+  assertEquals(result.ok, true);
+  assertEquals(events.length, 15);
+});
+
+Deno.test('TestExecutor - streams package results of plain go test output', async () => {
+  const stdout = [
+    'ok  \texample.com/app/a\t0.012s',
+    '--- FAIL: TestB (0.00s)',
+    '    b_test.go:9: mismatch',
+    'FAIL',
+    'FAIL\texample.com/app/b\t0.004s',
+    '?   \texample.com/app/c\t[no test files]',
+    'FAIL\texample.com/app/d [build failed]',
+    'FAIL',
+  ].join('\n');
+  const processResult = { exitCode: 1, stdout, stderr: '', duration: 30, killed: false };
+  const executor: ProcessExecutor = {
+    execute: () => Promise.reject(new Error('expected streaming execution')),
+    executeStreaming: (_command, _options, onLine) => {
+      stdout.split('\n').forEach((line) => onLine({ stream: 'stdout', line }));
+      return Promise.resolve(success(processResult));
+    },
+  };
+
+  const events: TestEvent[] = [];
+  const result = await new TestExecutor(executor, '/work').test(
+    './...',
+    { race: false, cover: false, verbose: false, short: false, failFast: false, timeout: 60 },
+    undefined,
+    (event) => events.push(event),
+  );
+
+  assertEquals(result.ok, true);
+  assertEquals(events.map((event) => [event.Package, event.Action]), [
+    ['example.com/app/a', 'pass'],
+    ['example.com/app/b', 'fail'],
+    ['example.com/app/c', 'skip'],
+    ['example.com/app/d', 'fail'],
+  ]);
+});
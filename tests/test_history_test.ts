@@ -0,0 +1,52 @@
+import { assertEquals } from '@std/assert';
+import { TestHistoryStore } from '../src/domains/resource-management/test-history.ts';
+import type { TestHistoryEntry } from '../src/domains/resource-management/test-history.ts';
+import { success } from '../src/shared/result.ts';
+
+const entry = (target: string, duration: number, run = 0): TestHistoryEntry => ({
+  timestamp: new Date(Date.UTC(2026, 0, 1, 0, run)).toISOString(),
+  target,
+  status: 'passed',
+  duration,
+  tests: [{ name: 'TestX', status: 'passed', duration }],
+});
+
+Deno.test('TestHistoryStore - records runs and keeps the latest per package', async () => {
+  const files = new Map<string, string>();
+  const store = new TestHistoryStore(
+    {
+      exists: (path) => Promise.resolve(files.has(path)),
+      readFile: (path) => Promise.resolve(files.get(path)!),
+    },
+    {
+      write: (path, content) => {
+        files.set(path, content);
+        return Promise.resolve(success(undefined));
+      },
+    },
+  );
+
+  assertEquals(await store.load('history.jsonl'), success([]));
+  for (let run = 0; run < 12; run++) {
+    await store.record('history.jsonl', [
+      entry('./slow', 1000 + run, run),
+      entry('./fast', 5, run),
+    ]);
+  }
+  files.set('history.jsonl', `${files.get('history.jsonl')}{"truncated":`);
+
+  const history = await store.load('history.jsonl');
+  assertEquals(history.ok && history.data.length, 20);
+  assertEquals(history.ok && history.data[0], entry('./slow', 1002, 2));
+});
+
+Deno.test('TestHistoryStore - averages recent durations and ignores cached runs', () => {
+  const timings = TestHistoryStore.timings([
+    entry('./a', 500),
+    ...[100, 200, 300, 400, 500].map((duration) => entry('./a', duration)),
+    entry('./a', 0),
+    entry('./cached', 0),
+  ]);
+
+  assertEquals([...timings], [['./a', 300]]);
+});